@@ -0,0 +1,6 @@
+import { MoGallery } from '@/components/pages/mo-gallery';
+import React from 'react';
+
+export default function OrbitalsScreen() {
+  return <MoGallery />;
+}
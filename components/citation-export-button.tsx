@@ -0,0 +1,119 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import React, { useState } from 'react';
+import { Alert, Platform, Share, StyleProp, StyleSheet, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { buildCitations, CitationFormat, CitedSpectrum, formatCitations } from '@/lib/citations';
+
+import { ThemedText } from './themed-text';
+
+const FORMAT_LABELS: Record<CitationFormat, string> = { bibtex: 'BibTeX', ris: 'RIS' };
+const FORMAT_FILES: Record<CitationFormat, { extension: string; type: string }> = {
+  bibtex: { extension: 'bib', type: 'application/x-bibtex' },
+  ris: { extension: 'ris', type: 'application/x-research-info-systems' },
+};
+
+async function shareCitations(spectra: CitedSpectrum[], format: CitationFormat) {
+  try {
+    await Share.share({
+      title: `PhotochemCAD citations (${FORMAT_LABELS[format]})`,
+      message: formatCitations(buildCitations(spectra), format),
+    });
+  } catch (error) {
+    console.error('Error sharing citations:', error);
+    Alert.alert('Export failed', 'Could not share the citations.');
+  }
+}
+
+// Web: no share sheet to rely on, so the citations are saved as a .bib / .ris file
+function downloadCitations(spectra: CitedSpectrum[], format: CitationFormat) {
+  const { extension, type } = FORMAT_FILES[format];
+  const url = URL.createObjectURL(new Blob([formatCitations(buildCitations(spectra), format)], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `photochemcad-citations.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * "Cite" action: asks for BibTeX or RIS, then opens the share sheet with the citations.
+ * Alert buttons do nothing on web, so there the formats appear next to the button
+ * and choosing one downloads the file.
+ */
+export function CitationExportButton({
+  spectra,
+  style,
+}: {
+  spectra: CitedSpectrum[];
+  style?: StyleProp<ViewStyle>;
+}) {
+  const textColor = useThemeColor({}, 'text');
+
+  const [isChoosingFormat, setIsChoosingFormat] = useState(false);
+
+  const handlePress = () => {
+    if (spectra.length === 0) return;
+    if (Platform.OS === 'web') {
+      setIsChoosingFormat(open => !open);
+      return;
+    }
+    Alert.alert('Export citations', 'PhotochemCAD papers, spectrum records and literature references.', [
+      { text: 'BibTeX', onPress: () => shareCitations(spectra, 'bibtex') },
+      { text: 'RIS', onPress: () => shareCitations(spectra, 'ris') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleDownload = (format: CitationFormat) => {
+    setIsChoosingFormat(false);
+    downloadCitations(spectra, format);
+  };
+
+  return (
+    <View style={[styles.row, style]}>
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onPress={handlePress}
+        disabled={spectra.length === 0}
+        style={[styles.button, spectra.length === 0 && styles.disabled]}
+      >
+        <Ionicons name="document-text-outline" size={16} color={textColor} />
+        <ThemedText style={styles.label}>Cite</ThemedText>
+      </TouchableOpacity>
+      {isChoosingFormat && spectra.length > 0 &&
+        (Object.keys(FORMAT_LABELS) as CitationFormat[]).map(format => (
+          <TouchableOpacity key={format} activeOpacity={0.8} onPress={() => handleDownload(format)} style={styles.button}>
+            <Ionicons name="download-outline" size={16} color={textColor} />
+            <ThemedText style={styles.label}>{FORMAT_LABELS[format]}</ThemedText>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    height: 32,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.35)',
+    backgroundColor: 'rgba(128, 128, 128, 0.10)',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
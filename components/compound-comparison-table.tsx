@@ -1,9 +1,12 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ScrollView, StyleSheet, View } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { Compound } from '@/lib/database';
+import { spectraOfCompounds } from '@/lib/citations';
+import { Compound, CompoundAnnotation, getCompoundAnnotations } from '@/lib/database';
+import { checkMolecularWeight, exactMass, parseFormula } from '@/lib/formula';
 
+import { CitationExportButton } from './citation-export-button';
 import { ThemedText } from './themed-text';
 import { ThemedView } from './themed-view';
 
@@ -13,6 +16,18 @@ type Row = {
   getValue: (c: Compound) => string;
 };
 
+/** Stored MW, followed by the formula's value when the two disagree. */
+function fmtMolecularWeight(c: Compound): string {
+  const check = checkMolecularWeight(c.chemical_formula, c.molecular_weight);
+  if (!check || check.matches) return fmt(c.molecular_weight);
+  return `${fmt(c.molecular_weight)} ⚠ formula: ${check.calculated.toFixed(2)}`;
+}
+
+function fmtExactMass(c: Compound): string {
+  const parsed = parseFormula(c.chemical_formula);
+  return parsed ? exactMass(parsed).toFixed(4) : '—';
+}
+
 function fmt(v: unknown): string {
   if (v == null) return '—';
   if (typeof v === 'string') return v.trim() ? v : '—';
@@ -20,14 +35,30 @@ function fmt(v: unknown): string {
   return String(v);
 }
 
-export function CompoundComparisonTable({ compounds }: { compounds: Compound[] }) {
+export function CompoundComparisonTable({
+  compounds,
+  annotationsVersion = 0,
+}: {
+  compounds: Compound[];
+  /** Bump to reload notes and tags after they were edited elsewhere. */
+  annotationsVersion?: number;
+}) {
   const borderColor = useThemeColor({}, 'icon');
+  const [annotations, setAnnotations] = useState<Record<string, CompoundAnnotation>>({});
+
+  const compoundIds = compounds.map((c) => c.id).join('|');
+  useEffect(() => {
+    getCompoundAnnotations(compoundIds ? compoundIds.split('|') : [])
+      .then(setAnnotations)
+      .catch((error) => console.error('Error loading notes and tags:', error));
+  }, [compoundIds, annotationsVersion]);
 
   const rows: Row[] = useMemo(
     () => [
       { key: 'cas', label: 'CAS', getValue: (c) => fmt(c.cas) },
       { key: 'formula', label: 'Formula', getValue: (c) => fmt(c.chemical_formula) },
-      { key: 'mw', label: 'Molecular weight', getValue: (c) => fmt(c.molecular_weight) },
+      { key: 'mw', label: 'Molecular weight', getValue: fmtMolecularWeight },
+      { key: 'exact_mass', label: 'Exact mass', getValue: fmtExactMass },
       { key: 'class', label: 'Class', getValue: (c) => fmt(c.class_name) },
       { key: 'category', label: 'Category', getValue: (c) => fmt(c.category_name) },
       { key: 'db', label: 'Database', getValue: (c) => fmt(c.database_name) },
@@ -45,8 +76,10 @@ export function CompoundComparisonTable({ compounds }: { compounds: Compound[] }
       { key: 'em_inst', label: 'Emission instrument', getValue: (c) => fmt(c.emission_instrument) },
       { key: 'em_ref', label: 'Emission reference', getValue: (c) => fmt(c.emission_reference) },
       { key: 'source', label: 'Source', getValue: (c) => fmt(c.source_name) },
+      { key: 'tags', label: 'My tags', getValue: (c) => fmt(annotations[c.id]?.tags.join(', ')) },
+      { key: 'notes', label: 'My notes', getValue: (c) => fmt(annotations[c.id]?.note) },
     ],
-    []
+    [annotations]
   );
 
   if (compounds.length === 0) {
@@ -62,7 +95,10 @@ export function CompoundComparisonTable({ compounds }: { compounds: Compound[] }
 
   return (
     <ThemedView style={styles.card}>
-      <ThemedText style={styles.title}>Compound properties</ThemedText>
+      <View style={styles.titleRow}>
+        <ThemedText style={styles.title}>Compound properties</ThemedText>
+        <CitationExportButton spectra={spectraOfCompounds(compounds)} />
+      </View>
 
       <ScrollView horizontal showsHorizontalScrollIndicator>
         <View style={styles.table}>
@@ -123,6 +159,12 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(128,128,128,0.18)',
     gap: 10,
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   title: {
     fontSize: 16,
     fontWeight: '700',
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useThemeColor } from '../hooks/use-theme-color';
+import { CollectionRef, CompoundFilter, DataAvailability, NumericRange, RangeFilterKey } from '../lib/compound-filter';
+import { CompoundCollection } from '../lib/database';
+import { DESCRIPTOR_FIELDS, DescriptorSort } from '../lib/descriptors';
+import { ThemedText } from './themed-text';
+
+interface CompoundFilterPanelProps {
+  filter: CompoundFilter;
+  onChange: (filter: CompoundFilter) => void;
+  sort: DescriptorSort | null;
+  onSortChange: (sort: DescriptorSort | null) => void;
+  solvents: string[];
+  collections: CompoundCollection[];
+}
+
+const RANGE_FIELDS: { key: RangeFilterKey; label: string }[] = [
+  { key: 'absorptionWavelength', label: 'Absorption λmax (nm)' },
+  { key: 'emissionWavelength', label: 'Emission λmax (nm)' },
+  { key: 'epsilon', label: 'ε (M⁻¹cm⁻¹)' },
+  { key: 'quantumYield', label: 'Quantum yield ΦF' },
+  { key: 'molecularWeight', label: 'Molecular weight' },
+  { key: 'stokesShift', label: 'Stokes shift (cm⁻¹)' },
+  { key: 'brightness', label: 'Brightness ε·ΦF (M⁻¹cm⁻¹)' },
+  { key: 'radiativeRate', label: 'Radiative rate kr (s⁻¹), e.g. 1e8' },
+  { key: 'absorptionFwhm', label: 'Absorption FWHM (nm)' },
+  { key: 'emissionFwhm', label: 'Emission FWHM (nm)' },
+];
+
+const AVAILABILITY: { id: DataAvailability; label: string }[] = [
+  { id: 'any', label: 'Any' },
+  { id: 'absorption-only', label: 'Abs only' },
+  { id: 'emission-only', label: 'Em only' },
+  { id: 'both', label: 'Both' },
+];
+
+const MAX_SOLVENT_CHIPS = 12;
+
+function parseOptionalNumber(text: string): number | undefined {
+  if (text.trim() === '') return undefined;
+  const n = parseFloat(text);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Min/max pair; keeps the raw text locally so partially typed values like "0." survive. */
+function RangeInput({
+  label,
+  range,
+  onChange,
+  borderColor,
+  textColor,
+  placeholderColor,
+}: {
+  label: string;
+  range: NumericRange | undefined;
+  onChange: (range: NumericRange) => void;
+  borderColor: string;
+  textColor: string;
+  placeholderColor: string;
+}) {
+  const [minText, setMinText] = useState(range?.min != null ? String(range.min) : '');
+  const [maxText, setMaxText] = useState(range?.max != null ? String(range.max) : '');
+
+  return (
+    <View style={styles.rangeRow}>
+      <ThemedText style={styles.rangeLabel}>{label}</ThemedText>
+      <View style={styles.rangeInputs}>
+        <TextInput
+          style={[styles.input, { borderColor, color: textColor }]}
+          placeholder="min"
+          placeholderTextColor={placeholderColor}
+          keyboardType="numeric"
+          value={minText}
+          onChangeText={t => {
+            setMinText(t);
+            onChange({ ...range, min: parseOptionalNumber(t) });
+          }}
+        />
+        <ThemedText style={styles.rangeDash}>–</ThemedText>
+        <TextInput
+          style={[styles.input, { borderColor, color: textColor }]}
+          placeholder="max"
+          placeholderTextColor={placeholderColor}
+          keyboardType="numeric"
+          value={maxText}
+          onChangeText={t => {
+            setMaxText(t);
+            onChange({ ...range, max: parseOptionalNumber(t) });
+          }}
+        />
+      </View>
+    </View>
+  );
+}
+
+export function CompoundFilterPanel({ filter, onChange, sort, onSortChange, solvents, collections }: CompoundFilterPanelProps) {
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  // Remounts the range inputs so their local text clears on reset
+  const [resetKey, setResetKey] = useState(0);
+
+  const update = <K extends keyof CompoundFilter>(key: K, value: CompoundFilter[K]) => {
+    onChange({ ...filter, [key]: value });
+  };
+
+  const availability = filter.dataAvailability ?? 'any';
+
+  return (
+    <View style={[styles.panel, { borderColor: iconColor }]}>
+      <View key={resetKey}>
+        {RANGE_FIELDS.map(f => (
+          <RangeInput
+            key={f.key}
+            label={f.label}
+            range={filter[f.key]}
+            onChange={r => update(f.key, r)}
+            borderColor={iconColor}
+            textColor={textColor}
+            placeholderColor={iconColor}
+          />
+        ))}
+      </View>
+
+      <ThemedText style={styles.rangeLabel}>Solvent</ThemedText>
+      <TextInput
+        style={[styles.input, styles.solventInput, { borderColor: iconColor, color: textColor }]}
+        placeholder="e.g. ethanol"
+        placeholderTextColor={iconColor}
+        value={filter.solvent ?? ''}
+        onChangeText={t => update('solvent', t)}
+        autoCapitalize="none"
+      />
+      {solvents.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+          {solvents.slice(0, MAX_SOLVENT_CHIPS).map(s => {
+            const active = filter.solvent?.trim().toLowerCase() === s.toLowerCase();
+            return (
+              <TouchableOpacity
+                key={s}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => update('solvent', active ? undefined : s)}
+              >
+                <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{s}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <ThemedText style={styles.rangeLabel}>Data available</ThemedText>
+      <View style={styles.chipRow}>
+        {AVAILABILITY.map(a => {
+          const active = availability === a.id;
+          return (
+            <TouchableOpacity
+              key={a.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => update('dataAvailability', a.id)}
+            >
+              <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{a.label}</ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ThemedText style={styles.rangeLabel}>Collection</ThemedText>
+      <View style={styles.chipRow}>
+        {[
+          { id: 'favorites' as CollectionRef, label: '★ Favorites' },
+          ...collections.map(c => ({ id: c.id as CollectionRef, label: `${c.name} (${c.count})` })),
+        ].map(c => {
+          const active = filter.collection === c.id;
+          return (
+            <TouchableOpacity
+              key={String(c.id)}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => update('collection', active ? undefined : c.id)}
+            >
+              <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{c.label}</ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ThemedText style={styles.rangeLabel}>Sort by</ThemedText>
+      <View style={styles.chipRow}>
+        <TouchableOpacity style={[styles.chip, !sort && styles.chipActive]} onPress={() => onSortChange(null)}>
+          <ThemedText style={[styles.chipText, !sort && styles.chipTextActive]}>Default</ThemedText>
+        </TouchableOpacity>
+        {DESCRIPTOR_FIELDS.map(f => {
+          const active = sort?.key === f.key;
+          return (
+            <TouchableOpacity
+              key={f.key}
+              style={[styles.chip, active && styles.chipActive]}
+              // Highest first; tapping the active field again reverses the order
+              onPress={() => onSortChange({ key: f.key, descending: active ? !sort.descending : true })}
+            >
+              <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>
+                {f.label}{active ? (sort.descending ? ' ↓' : ' ↑') : ''}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TouchableOpacity
+        style={styles.resetButton}
+        onPress={() => {
+          setResetKey(k => k + 1);
+          onChange({});
+        }}
+      >
+        <ThemedText style={styles.resetText}>Clear filters</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderRadius: 4,
+    padding: 10,
+    marginTop: 8,
+  },
+  rangeRow: {
+    marginBottom: 8,
+  },
+  rangeLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  rangeInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rangeDash: {
+    fontSize: 14,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+  },
+  solventInput: {
+    flex: 0,
+    marginBottom: 6,
+  },
+  chipScroll: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+    marginRight: 6,
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 11,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  resetButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+  },
+  resetText: {
+    fontSize: 12,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+});
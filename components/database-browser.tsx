@@ -1,10 +1,50 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { Image } from 'expo-image';
-import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, Modal, Pressable, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, Modal, Pressable, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import { useThemeColor } from '../hooks/use-theme-color';
 import { getCompoundStructureImageSource } from '../lib/compound-structure-images.generated';
-import { Compound, getCompounds, searchCompounds } from '../lib/database';
+import { CompoundFilter, countActiveFilters, matchesElementConditions, parseCompositionQuery } from '../lib/compound-filter';
+import {
+  addCompoundTag,
+  addToCollection,
+  Compound,
+  CompoundCollection,
+  CompoundDescriptors,
+  CompoundHierarchyNode,
+  CompoundListItem,
+  createCollection,
+  DescriptorSort,
+  getAllTags,
+  getCollections,
+  getCompoundAnnotations,
+  getCompoundById,
+  getCompoundCollectionIds,
+  getCompoundDescriptors,
+  getCompoundHierarchy,
+  getCompoundsByDatabase,
+  getFavoriteIds,
+  getSolvents,
+  getSpectrumAudit,
+  isUserCompoundId,
+  listCompounds,
+  removeCompoundTag,
+  removeFromCollection,
+  saveCompoundNote,
+  SEARCH_PAGE_SIZE,
+  searchCompounds,
+  searchCompoundsInDatabase,
+  searchUserCompounds,
+  toggleFavorite,
+} from '../lib/database';
+import { DESCRIPTOR_FIELDS, formatDescriptor, getDescriptorField } from '../lib/descriptors';
+import { checkMolecularWeight, elementalComposition, exactMass, molecularWeight, parseFormula } from '../lib/formula';
+import { getMoImagesForCompound } from '../lib/mo-images';
+import { AUDIT_ISSUE_LABELS, groupAuditIssues, SpectrumAuditReport } from '../lib/spectrum-audit';
 import { SelectedSpectrum } from '../lib/types';
+import { CompoundFilterPanel } from './compound-filter-panel';
+import { UserSpectrumModal } from './modals/user-spectrum-modal';
 import { ThemedText } from './themed-text';
 import { ThemedView } from './themed-view';
 
@@ -12,44 +52,347 @@ interface DatabaseBrowserProps {
   onSpectrumAdd: (spectrum: { compound: Compound; type: 'absorption' | 'emission' }) => void;
   onSpectrumRemove: (compoundId: string, type: 'absorption' | 'emission') => void;
   selectedSpectra: SelectedSpectrum[];
+  /** Called after a compound's notes or tags change. */
+  onAnnotationsChange?: () => void;
 }
 
-function compoundProperty(label: string, value: string | number | null | undefined): { label: string; value: string } | null {
+const MAX_TAG_SUGGESTIONS = 8;
+
+/** The nodes along a browse path (database, category, class names), stopping at the first unknown name. */
+function resolveBrowsePath(hierarchy: CompoundHierarchyNode[], path: string[]): CompoundHierarchyNode[] {
+  const nodes: CompoundHierarchyNode[] = [];
+  let level = hierarchy;
+  for (const name of path) {
+    const node = level.find(n => n.name === name);
+    if (!node) break;
+    nodes.push(node);
+    level = node.children;
+  }
+  return nodes;
+}
+
+type PropertyRow = { label: string; value: string; warning?: boolean };
+
+function compoundProperty(label: string, value: string | number | null | undefined): PropertyRow | null {
   if (value == null || value === '') return null;
   return { label, value: String(value) };
 }
 
-export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpectra }: DatabaseBrowserProps) {
-  const [compounds, setCompounds] = useState<Compound[]>([]);
+/** Descriptors computed from the spectra at build time (absent for user compounds). */
+function descriptorProperties(descriptors: CompoundDescriptors | null): (PropertyRow | null)[] {
+  if (!descriptors) return [];
+  return DESCRIPTOR_FIELDS.map(({ key, label }) =>
+    descriptors[key] == null ? null : compoundProperty(label, formatDescriptor(key, descriptors[key]))
+  );
+}
+
+/** Stored molecular weight (flagged when the formula disagrees), exact mass and composition. */
+function formulaProperties(compound: Compound): (PropertyRow | null)[] {
+  const stored = compoundProperty('Molecular weight', compound.molecular_weight);
+  const parsed = parseFormula(compound.chemical_formula);
+  if (!parsed) return [stored];
+  const check = checkMolecularWeight(compound.chemical_formula, compound.molecular_weight);
+  return [
+    stored && check && !check.matches
+      ? { ...stored, value: `${stored.value} (formula gives ${check.calculated.toFixed(2)})`, warning: true }
+      : stored,
+    check ? null : compoundProperty('Calculated MW', molecularWeight(parsed).toFixed(2)),
+    compoundProperty('Exact mass', exactMass(parsed).toFixed(4)),
+    compoundProperty(
+      'Composition',
+      elementalComposition(parsed).map(e => `${e.element} ${e.massPercent.toFixed(2)}%`).join(', ')
+    ),
+  ];
+}
+
+export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpectra, onAnnotationsChange }: DatabaseBrowserProps) {
+  const router = useRouter();
+  const [compounds, setCompounds] = useState<CompoundListItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [selectedCompound, setSelectedCompound] = useState<Compound | null>(null);
+  const [openingCompoundId, setOpeningCompoundId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<CompoundFilter>({});
+  const [sort, setSort] = useState<DescriptorSort | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [solvents, setSolvents] = useState<string[]>([]);
+  const [userCompounds, setUserCompounds] = useState<Compound[]>([]);
+  const [isUserModalOpen, setIsUserModalOpen] = useState(false);
+  const [editingUserCompound, setEditingUserCompound] = useState<Compound | null>(null);
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [collections, setCollections] = useState<CompoundCollection[]>([]);
+  const [selectedCollectionIds, setSelectedCollectionIds] = useState<number[]>([]);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [noteText, setNoteText] = useState('');
+  const [savedNote, setSavedNote] = useState('');
+  const [auditReports, setAuditReports] = useState<SpectrumAuditReport[]>([]);
+  const [descriptors, setDescriptors] = useState<CompoundDescriptors | null>(null);
+  const [compoundTags, setCompoundTags] = useState<string[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [hierarchy, setHierarchy] = useState<CompoundHierarchyNode[]>([]);
+  const [browsePath, setBrowsePath] = useState<string[]>([]);
+
+  // Guards against out-of-order responses while typing and double onEndReached calls
+  const requestIdRef = useRef(0);
+  const userRequestIdRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  // Ranked search and browse-node pages by offset; the plain (optionally filtered) list pages by ID cursor
+  // unless it is sorted by a descriptor. Composition phrases ("contains Zn", "C between 30 and 40") become element filters
+  const fetchPage = (rawQuery: string, rawFilter: CompoundFilter, path: string[], loaded: CompoundListItem[]) => {
+    const { text: query, elements } = parseCompositionQuery(rawQuery);
+    const f = elements.length > 0 ? { ...rawFilter, elements: [...(rawFilter.elements ?? []), ...elements] } : rawFilter;
+    const [databaseName, category, className] = path;
+    const order = sort ?? undefined;
+    const options = { limit: SEARCH_PAGE_SIZE, offset: loaded.length, filter: f, category, className, sort: order };
+    if (databaseName != null) {
+      return query.trim()
+        ? searchCompoundsInDatabase(databaseName, query, options)
+        : getCompoundsByDatabase(databaseName, options);
+    }
+    return query.trim()
+      ? searchCompounds(query, { limit: SEARCH_PAGE_SIZE, offset: loaded.length, filter: f, sort: order })
+      : listCompounds({ limit: SEARCH_PAGE_SIZE, after: loaded[loaded.length - 1]?.id, offset: loaded.length, filter: f, sort: order });
+  };
 
-  const loadCompounds = async (query: string = '') => {
+  const loadCompounds = async (query: string = '', f: CompoundFilter = {}, path: string[] = []) => {
+    const requestId = ++requestIdRef.current;
     setIsLoading(true);
     try {
-      const results = query.trim()
-        ? await searchCompounds(query)
-        : await getCompounds();
+      const results = await fetchPage(query, f, path, []);
+      if (requestId !== requestIdRef.current) return;
       setCompounds(results);
+      setHasMoreResults(results.length === SEARCH_PAGE_SIZE);
     } catch (error) {
       console.error('Error loading compounds:', error);
     } finally {
-      setIsLoading(false);
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  };
+
+  const loadMoreResults = async () => {
+    if (loadingMoreRef.current || isLoading || !hasMoreResults) return;
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const next = await fetchPage(searchQuery, filter, browsePath, compounds);
+      if (requestId !== requestIdRef.current) return;
+      setCompounds(prev => [...prev, ...next]);
+      setHasMoreResults(next.length === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
+  // List rows only carry a few columns; the detail modal and the dashboard need the full record
+  const withFullCompound = async (id: string, action: (compound: Compound) => void) => {
+    setOpeningCompoundId(id);
+    try {
+      const compound = await getCompoundById(id);
+      if (compound) action(compound);
+    } catch (error) {
+      console.error('Error loading compound:', error);
+    } finally {
+      setOpeningCompoundId(null);
     }
   };
 
   useEffect(() => {
-    loadCompounds(searchQuery);
+    loadCompounds(searchQuery, filter, browsePath);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery, filter, browsePath, sort]);
+
+  // The user's library is not in the bundled search, so My spectra is filtered by the query on its own;
+  // composition phrases are checked against each user compound's formula
+  const loadUserCompounds = async () => {
+    const requestId = ++userRequestIdRef.current;
+    const { text, elements } = parseCompositionQuery(searchQuery);
+    try {
+      const results = await searchUserCompounds(text);
+      const matching = results.filter(c => matchesElementConditions(c.chemical_formula, elements));
+      if (requestId === userRequestIdRef.current) setUserCompounds(matching);
+    } catch (error) {
+      console.error('Error loading user spectra:', error);
+    }
+  };
+
+  const openUserEditor = (compound: Compound | null) => {
+    setEditingUserCompound(compound);
+    setIsUserModalOpen(true);
+  };
+
+  // Selected copies of an edited or deleted user spectrum would be stale
+  const handleUserCompoundChanged = (compoundId: string) => {
+    setIsUserModalOpen(false);
+    onSpectrumRemove(compoundId, 'absorption');
+    onSpectrumRemove(compoundId, 'emission');
+    loadUserCompounds();
+  };
+
+  const loadCollections = async () => {
+    try {
+      const [favorites, named] = await Promise.all([getFavoriteIds(), getCollections()]);
+      setFavoriteIds(new Set(favorites));
+      setCollections(named);
+    } catch (error) {
+      console.error('Error loading collections:', error);
+    }
+  };
+
+  const handleFavoriteToggle = async (compoundId: string) => {
+    try {
+      const isFavorite = await toggleFavorite(compoundId);
+      setFavoriteIds(prev => {
+        const next = new Set(prev);
+        if (isFavorite) next.add(compoundId);
+        else next.delete(compoundId);
+        return next;
+      });
+      if (filter.collection === 'favorites') loadCompounds(searchQuery, filter, browsePath);
+    } catch (error) {
+      console.error('Error updating favorites:', error);
+    }
+  };
+
+  const openCompoundDetails = (compound: Compound) => {
+    setSelectedCompound(compound);
+    setSelectedCollectionIds([]);
+    setNewCollectionName('');
+    getCompoundCollectionIds(compound.id)
+      .then(setSelectedCollectionIds)
+      .catch(error => console.error('Error loading compound collections:', error));
+    setNoteText('');
+    setSavedNote('');
+    setCompoundTags([]);
+    setNewTag('');
+    setAuditReports([]);
+    getSpectrumAudit(compound.id)
+      .then(issues => setAuditReports(groupAuditIssues(issues)))
+      .catch(error => console.error('Error loading spectrum audit:', error));
+    setDescriptors(null);
+    getCompoundDescriptors(compound.id)
+      .then(setDescriptors)
+      .catch(error => console.error('Error loading descriptors:', error));
+    Promise.all([getCompoundAnnotations([compound.id]), getAllTags()])
+      .then(([annotations, tags]) => {
+        const annotation = annotations[compound.id];
+        setNoteText(annotation?.note ?? '');
+        setSavedNote(annotation?.note ?? '');
+        setCompoundTags(annotation?.tags ?? []);
+        setAllTags(tags);
+      })
+      .catch(error => console.error('Error loading notes and tags:', error));
+  };
+
+  const handleOrbitalOpen = (imageKey: string) => {
+    setSelectedCompound(null);
+    router.push({ pathname: '/orbitals', params: { image: imageKey } });
+  };
+
+  const handleNoteSave = async (compoundId: string) => {
+    try {
+      await saveCompoundNote(compoundId, noteText);
+      setSavedNote(noteText.trim());
+      onAnnotationsChange?.();
+    } catch (error) {
+      console.error('Error saving note:', error);
+    }
+  };
+
+  const handleTagAdd = async (compoundId: string, tag: string) => {
+    const normalized = tag.trim().replace(/\s+/g, ' ');
+    if (!normalized || compoundTags.some(t => t.toLowerCase() === normalized.toLowerCase())) {
+      setNewTag('');
+      return;
+    }
+    try {
+      await addCompoundTag(compoundId, normalized);
+      setCompoundTags(prev => [...prev, normalized].sort((a, b) => a.localeCompare(b)));
+      setAllTags(prev => (prev.includes(normalized) ? prev : [...prev, normalized]));
+      setNewTag('');
+      onAnnotationsChange?.();
+      if (isUserCompoundId(compoundId)) loadUserCompounds();
+    } catch (error) {
+      console.error('Error adding tag:', error);
+    }
+  };
+
+  const handleTagRemove = async (compoundId: string, tag: string) => {
+    try {
+      await removeCompoundTag(compoundId, tag);
+      setCompoundTags(prev => prev.filter(t => t !== tag));
+      onAnnotationsChange?.();
+      if (isUserCompoundId(compoundId)) loadUserCompounds();
+    } catch (error) {
+      console.error('Error removing tag:', error);
+    }
+  };
+
+  const handleCollectionToggle = async (compoundId: string, collectionId: number) => {
+    const isMember = selectedCollectionIds.includes(collectionId);
+    try {
+      if (isMember) await removeFromCollection(collectionId, compoundId);
+      else await addToCollection(collectionId, compoundId);
+      setSelectedCollectionIds(prev => (isMember ? prev.filter(id => id !== collectionId) : [...prev, collectionId]));
+      loadCollections();
+      if (filter.collection === collectionId) loadCompounds(searchQuery, filter, browsePath);
+    } catch (error) {
+      console.error('Error updating collection:', error);
+    }
+  };
+
+  const handleCollectionCreate = async (compoundId: string) => {
+    const name = newCollectionName.trim();
+    if (!name) return;
+    try {
+      const existing = collections.find(c => c.name.toLowerCase() === name.toLowerCase());
+      const collection = existing ?? (await createCollection(name));
+      await addToCollection(collection.id, compoundId);
+      setSelectedCollectionIds(prev => (prev.includes(collection.id) ? prev : [...prev, collection.id]));
+      setNewCollectionName('');
+      loadCollections();
+    } catch (error) {
+      console.error('Error creating collection:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadUserCompounds();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchQuery]);
 
-  const isSelected = (compound: Compound, type: 'absorption' | 'emission') => {
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  useEffect(() => {
+    getSolvents()
+      .then(setSolvents)
+      .catch(error => console.error('Error loading solvents:', error));
+    getCompoundHierarchy()
+      .then(setHierarchy)
+      .catch(error => console.error('Error loading database hierarchy:', error));
+  }, []);
+
+  const activeFilterCount = countActiveFilters(filter);
+  const browseNodes = resolveBrowsePath(hierarchy, browsePath);
+  const browseChildren = browseNodes.length > 0 ? browseNodes[browseNodes.length - 1].children : hierarchy;
+  const browseNodeName = browseNodes.length > 0 ? browseNodes[browseNodes.length - 1].name : null;
+
+  const isSelected = (compound: CompoundListItem, type: 'absorption' | 'emission') => {
     return selectedSpectra.some(
       s => s.compound.id === compound.id && s.type === type
     );
   };
 
-  const renderCompound = ({ item: compound }: { item: Compound }) => {
+  const renderCompound = ({ item: compound }: { item: CompoundListItem }) => {
     const hasAbs = compound.has_absorption_data === '1';
     const hasEm = compound.has_emission_data === '1';
     const absSelected = isSelected(compound, 'absorption');
@@ -60,8 +403,9 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
       <View style={styles.compoundItem}>
         <TouchableOpacity
           style={styles.compoundRowTouchable}
-          onPress={() => setSelectedCompound(compound)}
+          onPress={() => withFullCompound(compound.id, openCompoundDetails)}
           activeOpacity={0.7}
+          disabled={openingCompoundId === compound.id}
         >
           {structureImageSource != null ? (
             <Image
@@ -75,21 +419,35 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
           <View style={styles.compoundInfo}>
             <ThemedText style={styles.compoundName}>{compound.name}</ThemedText>
             <ThemedText style={[styles.compoundId, { color: iconColor }]}>{compound.id}</ThemedText>
+            {sort && (
+              <ThemedText style={[styles.compoundId, { color: iconColor }]}>
+                {getDescriptorField(sort.key).label}: {formatDescriptor(sort.key, compound.sort_value)}
+              </ThemedText>
+            )}
           </View>
+          {openingCompoundId === compound.id && <ActivityIndicator size="small" color="#3b82f6" />}
         </TouchableOpacity>
         <View style={styles.checkboxContainer}>
+          <TouchableOpacity onPress={() => handleFavoriteToggle(compound.id)} hitSlop={6}>
+            <Ionicons
+              name={favoriteIds.has(compound.id) ? 'star' : 'star-outline'}
+              size={18}
+              color={favoriteIds.has(compound.id) ? '#f59e0b' : iconColor}
+            />
+          </TouchableOpacity>
           {hasAbs && (
             <TouchableOpacity
               onPress={() => {
                 if (absSelected) {
                   onSpectrumRemove(compound.id, 'absorption');
                 } else {
-                  onSpectrumAdd({ compound, type: 'absorption' });
+                  withFullCompound(compound.id, c => onSpectrumAdd({ compound: c, type: 'absorption' }));
                 }
               }}
             >
-              <View style={[styles.checkbox, absSelected && styles.checkboxSelected]}>
+              <View style={[styles.checkbox, styles.spectrumToggle, absSelected && styles.checkboxSelected]}>
                 <ThemedText style={styles.checkboxLabel}>Abs</ThemedText>
+                {!!compound.absorption_audit_warnings && <Ionicons name="warning" size={10} color="#f59e0b" />}
               </View>
             </TouchableOpacity>
           )}
@@ -99,12 +457,13 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
                 if (emSelected) {
                   onSpectrumRemove(compound.id, 'emission');
                 } else {
-                  onSpectrumAdd({ compound, type: 'emission' });
+                  withFullCompound(compound.id, c => onSpectrumAdd({ compound: c, type: 'emission' }));
                 }
               }}
             >
-              <View style={[styles.checkbox, emSelected && styles.checkboxSelected]}>
+              <View style={[styles.checkbox, styles.spectrumToggle, emSelected && styles.checkboxSelected]}>
                 <ThemedText style={styles.checkboxLabel}>Em</ThemedText>
+                {!!compound.emission_audit_warnings && <Ionicons name="warning" size={10} color="#f59e0b" />}
               </View>
             </TouchableOpacity>
           )}
@@ -124,15 +483,90 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
       <View style={styles.section}>
         <TextInput
           style={[styles.searchInput, { borderColor: iconColor, color: textColor }]}
-          placeholder="Search compounds..."
+          placeholder={browseNodeName ? `Search in ${browseNodeName}...` : 'Search name, CAS, formula, class, tag, contains Zn...'}
           value={searchQuery}
           onChangeText={setSearchQuery}
           placeholderTextColor={iconColor}
         />
+        <TouchableOpacity
+          style={[styles.filterToggle, activeFilterCount > 0 && styles.checkboxSelected]}
+          onPress={() => setShowFilters(prev => !prev)}
+        >
+          <ThemedText style={[styles.checkboxLabel, activeFilterCount > 0 && styles.filterToggleTextActive]}>
+            {showFilters ? 'Hide filters' : 'Filters'}{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </ThemedText>
+        </TouchableOpacity>
+        {showFilters && (
+          <CompoundFilterPanel
+            filter={filter}
+            onChange={setFilter}
+            sort={sort}
+            onSortChange={setSort}
+            solvents={solvents}
+            collections={collections}
+          />
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText style={[styles.sectionTitle, { color: iconColor }]}>My spectra</ThemedText>
+          <TouchableOpacity onPress={() => openUserEditor(null)} hitSlop={8}>
+            <ThemedText style={styles.addUserText}>+ Add</ThemedText>
+          </TouchableOpacity>
+        </View>
+        {userCompounds.length === 0 ? (
+          <ThemedText style={[styles.userEmptyText, { color: iconColor }]}>
+            {searchQuery.trim()
+              ? 'None of your spectra match the search.'
+              : 'Save your own measured spectra to use them in the chart and calculators.'}
+          </ThemedText>
+        ) : (
+          <View style={[styles.userListContainer, { borderColor: iconColor }]}>
+            {userCompounds.map(compound => (
+              <React.Fragment key={compound.id}>
+                {renderCompound({ item: compound })}
+              </React.Fragment>
+            ))}
+          </View>
+        )}
       </View>
 
       <View style={styles.section}>
         <ThemedText style={[styles.sectionTitle, { color: iconColor }]}>Compounds</ThemedText>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.breadcrumbs}>
+          <TouchableOpacity onPress={() => setBrowsePath([])} disabled={browseNodes.length === 0}>
+            <ThemedText style={[styles.breadcrumb, browseNodes.length > 0 && styles.breadcrumbLink]}>
+              All databases
+            </ThemedText>
+          </TouchableOpacity>
+          {browseNodes.map((node, i) => (
+            <React.Fragment key={`${i}-${node.name}`}>
+              <Ionicons name="chevron-forward" size={12} color={iconColor} />
+              <TouchableOpacity
+                onPress={() => setBrowsePath(browsePath.slice(0, i + 1))}
+                disabled={i === browseNodes.length - 1}
+              >
+                <ThemedText style={[styles.breadcrumb, i < browseNodes.length - 1 && styles.breadcrumbLink]}>
+                  {node.name} ({node.count})
+                </ThemedText>
+              </TouchableOpacity>
+            </React.Fragment>
+          ))}
+        </ScrollView>
+        {browseChildren.length > 0 && (
+          <View style={styles.browseChips}>
+            {browseChildren.map(node => (
+              <TouchableOpacity key={node.name} onPress={() => setBrowsePath([...browsePath.slice(0, browseNodes.length), node.name])}>
+                <View style={styles.checkbox}>
+                  <ThemedText style={styles.checkboxLabel}>
+                    {node.name} ({node.count})
+                  </ThemedText>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
         {isLoading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color="#3b82f6" />
@@ -144,18 +578,27 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
                 <ThemedText style={[styles.emptyText, { color: iconColor }]}>No compounds found</ThemedText>
               </View>
             ) : (
-              <ScrollView
+              <FlatList
                 style={styles.compoundsList}
                 contentContainerStyle={styles.compoundsListContent}
+                data={compounds}
+                keyExtractor={item => item.id}
+                renderItem={renderCompound}
+                extraData={[selectedSpectra, openingCompoundId]}
+                onEndReached={loadMoreResults}
+                onEndReachedThreshold={0.5}
+                initialNumToRender={12}
+                windowSize={5}
                 showsVerticalScrollIndicator={true}
                 nestedScrollEnabled={true}
-              >
-                {compounds.map((compound) => (
-                  <React.Fragment key={compound.id}>
-                    {renderCompound({ item: compound })}
-                  </React.Fragment>
-                ))}
-              </ScrollView>
+                ListFooterComponent={
+                  isLoadingMore ? (
+                    <View style={styles.loadMoreFooter}>
+                      <ActivityIndicator size="small" color="#3b82f6" />
+                    </View>
+                  ) : null
+                }
+              />
             )}
           </View>
         )}
@@ -173,9 +616,22 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
               <>
                 <View style={styles.modalHeader}>
                   <ThemedText type="title" style={styles.modalTitle}>{selectedCompound.name}</ThemedText>
-                  <TouchableOpacity onPress={() => setSelectedCompound(null)} hitSlop={12}>
-                    <ThemedText style={[styles.modalClose, { color: iconColor }]}>Close</ThemedText>
-                  </TouchableOpacity>
+                  <View style={styles.modalHeaderActions}>
+                    {isUserCompoundId(selectedCompound.id) && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          setSelectedCompound(null);
+                          openUserEditor(selectedCompound);
+                        }}
+                        hitSlop={12}
+                      >
+                        <ThemedText style={[styles.addUserText, styles.modalClose]}>Edit</ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity onPress={() => setSelectedCompound(null)} hitSlop={12}>
+                      <ThemedText style={[styles.modalClose, { color: iconColor }]}>Close</ThemedText>
+                    </TouchableOpacity>
+                  </View>
                 </View>
                 <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
                   {(() => {
@@ -189,7 +645,7 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
                   <ThemedText style={[styles.modalId, { color: iconColor }]}>{selectedCompound.id}</ThemedText>
                   {[
                     compoundProperty('Chemical formula', selectedCompound.chemical_formula),
-                    compoundProperty('Molecular weight', selectedCompound.molecular_weight),
+                    ...formulaProperties(selectedCompound),
                     compoundProperty('CAS', selectedCompound.cas),
                     compoundProperty('Category', selectedCompound.category_name),
                     compoundProperty('Class', selectedCompound.class_name),
@@ -199,14 +655,139 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
                     compoundProperty('Absorption λ', selectedCompound.absorption_wavelength),
                     compoundProperty('Emission λ', selectedCompound.emission_wavelength),
                     compoundProperty('Quantum yield', selectedCompound.emission_quantum_yield),
+                    ...descriptorProperties(descriptors),
                   ]
-                    .filter((p): p is { label: string; value: string } => p != null)
+                    .filter((p): p is PropertyRow => p != null)
                     .map(p => (
                       <View key={p.label} style={styles.propertyRow}>
                         <ThemedText style={[styles.propertyLabel, { color: iconColor }]}>{p.label}:</ThemedText>
-                        <ThemedText style={styles.propertyValue}>{p.value}</ThemedText>
+                        <ThemedText style={[styles.propertyValue, p.warning && styles.propertyWarning]}>{p.value}</ThemedText>
                       </View>
                     ))}
+
+                  {auditReports.length > 0 && (
+                    <>
+                      <ThemedText style={[styles.collectionsTitle, { color: iconColor }]}>Data quality</ThemedText>
+                      {auditReports.map(report => (
+                        <View key={report.spectrumType} style={styles.auditReport}>
+                          <ThemedText style={styles.auditSpectrum}>
+                            {report.label}
+                            {report.warnings > 0 ? ` (${report.warnings} ${report.warnings === 1 ? 'warning' : 'warnings'})` : ''}
+                          </ThemedText>
+                          {report.issues.map((issue, i) => (
+                            <View key={`${issue.issue}-${i}`} style={styles.auditIssue}>
+                              <Ionicons
+                                name={issue.severity === 'warning' ? 'warning' : 'information-circle-outline'}
+                                size={12}
+                                color={issue.severity === 'warning' ? '#f59e0b' : iconColor}
+                              />
+                              <ThemedText style={styles.auditText}>
+                                {AUDIT_ISSUE_LABELS[issue.issue] ?? issue.issue}: {issue.detail}
+                              </ThemedText>
+                            </View>
+                          ))}
+                        </View>
+                      ))}
+                    </>
+                  )}
+
+                  {(() => {
+                    const orbitalImages = getMoImagesForCompound(selectedCompound);
+                    if (orbitalImages.length === 0) return null;
+                    return (
+                      <>
+                        <ThemedText style={[styles.collectionsTitle, { color: iconColor }]}>Molecular orbitals</ThemedText>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.orbitalRow}>
+                          {orbitalImages.map(image => (
+                            <TouchableOpacity key={image.key} onPress={() => handleOrbitalOpen(image.key)}>
+                              <Image source={image.source} style={styles.orbitalThumb} contentFit="contain" />
+                              <ThemedText style={[styles.orbitalLabel, { color: iconColor }]} numberOfLines={1}>
+                                {image.name}
+                              </ThemedText>
+                            </TouchableOpacity>
+                          ))}
+                        </ScrollView>
+                      </>
+                    );
+                  })()}
+
+                  <ThemedText style={[styles.collectionsTitle, { color: iconColor }]}>Notes</ThemedText>
+                  <TextInput
+                    style={[styles.noteInput, { borderColor: iconColor, color: textColor }]}
+                    placeholder="e.g. batch 3 had impurity at 410 nm"
+                    placeholderTextColor={iconColor}
+                    multiline
+                    value={noteText}
+                    onChangeText={setNoteText}
+                  />
+                  {noteText.trim() !== savedNote && (
+                    <TouchableOpacity style={styles.noteSave} onPress={() => handleNoteSave(selectedCompound.id)} hitSlop={8}>
+                      <ThemedText style={styles.collectionAddText}>Save note</ThemedText>
+                    </TouchableOpacity>
+                  )}
+
+                  <ThemedText style={[styles.collectionsTitle, { color: iconColor }]}>Tags</ThemedText>
+                  <View style={styles.collectionChips}>
+                    {compoundTags.map(tag => (
+                      <TouchableOpacity key={tag} onPress={() => handleTagRemove(selectedCompound.id, tag)}>
+                        <View style={[styles.checkbox, styles.checkboxSelected]}>
+                          <ThemedText style={[styles.checkboxLabel, styles.filterToggleTextActive]}>{tag} ×</ThemedText>
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                    {allTags
+                      .filter(tag => !compoundTags.some(t => t.toLowerCase() === tag.toLowerCase()))
+                      .slice(0, MAX_TAG_SUGGESTIONS)
+                      .map(tag => (
+                        <TouchableOpacity key={`suggest-${tag}`} onPress={() => handleTagAdd(selectedCompound.id, tag)}>
+                          <View style={styles.checkbox}>
+                            <ThemedText style={styles.checkboxLabel}>+ {tag}</ThemedText>
+                          </View>
+                        </TouchableOpacity>
+                      ))}
+                  </View>
+                  <View style={styles.newCollectionRow}>
+                    <TextInput
+                      style={[styles.newCollectionInput, { borderColor: iconColor, color: textColor }]}
+                      placeholder="New tag, e.g. QY reference"
+                      placeholderTextColor={iconColor}
+                      value={newTag}
+                      onChangeText={setNewTag}
+                      onSubmitEditing={() => handleTagAdd(selectedCompound.id, newTag)}
+                    />
+                    <TouchableOpacity onPress={() => handleTagAdd(selectedCompound.id, newTag)} hitSlop={8}>
+                      <ThemedText style={styles.collectionAddText}>Add</ThemedText>
+                    </TouchableOpacity>
+                  </View>
+
+                  <ThemedText style={[styles.collectionsTitle, { color: iconColor }]}>Collections</ThemedText>
+                  <View style={styles.collectionChips}>
+                    {collections.map(c => {
+                      const isMember = selectedCollectionIds.includes(c.id);
+                      return (
+                        <TouchableOpacity key={c.id} onPress={() => handleCollectionToggle(selectedCompound.id, c.id)}>
+                          <View style={[styles.checkbox, isMember && styles.checkboxSelected]}>
+                            <ThemedText style={[styles.checkboxLabel, isMember && styles.filterToggleTextActive]}>
+                              {c.name}
+                            </ThemedText>
+                          </View>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <View style={styles.newCollectionRow}>
+                    <TextInput
+                      style={[styles.newCollectionInput, { borderColor: iconColor, color: textColor }]}
+                      placeholder="New collection, e.g. FRET dyes"
+                      placeholderTextColor={iconColor}
+                      value={newCollectionName}
+                      onChangeText={setNewCollectionName}
+                      onSubmitEditing={() => handleCollectionCreate(selectedCompound.id)}
+                    />
+                    <TouchableOpacity onPress={() => handleCollectionCreate(selectedCompound.id)} hitSlop={8}>
+                      <ThemedText style={styles.collectionAddText}>Add</ThemedText>
+                    </TouchableOpacity>
+                  </View>
                 </ScrollView>
               </>
             )}
@@ -214,6 +795,14 @@ export function DatabaseBrowser({ onSpectrumAdd, onSpectrumRemove, selectedSpect
         </Pressable>
       </Modal>
 
+      <UserSpectrumModal
+        visible={isUserModalOpen}
+        compound={editingUserCompound}
+        onClose={() => setIsUserModalOpen(false)}
+        onSaved={saved => handleUserCompoundChanged(saved.id)}
+        onDeleted={handleUserCompoundChanged}
+      />
+
     </ThemedView>
   );
 }
@@ -239,6 +828,44 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
+  breadcrumbs: {
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 6,
+  },
+  breadcrumb: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  breadcrumbLink: {
+    color: '#3b82f6',
+  },
+  browseChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addUserText: {
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  userEmptyText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  userListContainer: {
+    borderWidth: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
   searchInput: {
     borderWidth: 1,
     borderRadius: 4,
@@ -246,6 +873,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     backgroundColor: 'transparent',
   },
+  filterToggle: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  filterToggleTextActive: {
+    color: '#fff',
+  },
   compoundsListContainer: {
     height: 250,
     borderWidth: 1,
@@ -320,10 +960,19 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: '#333',
   },
+  spectrumToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
   loadingContainer: {
     padding: 20,
     alignItems: 'center',
   },
+  loadMoreFooter: {
+    padding: 12,
+    alignItems: 'center',
+  },
   emptyText: {
     textAlign: 'center',
     padding: 20,
@@ -373,6 +1022,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     flex: 1,
   },
+  modalHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
   modalClose: {
     fontSize: 16,
   },
@@ -401,6 +1055,83 @@ const styles = StyleSheet.create({
     marginTop: 8,
     marginBottom: 12,
   },
+  auditReport: {
+    marginBottom: 6,
+  },
+  auditSpectrum: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  auditIssue: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginBottom: 2,
+  },
+  auditText: {
+    fontSize: 12,
+    flex: 1,
+  },
+  collectionsTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  collectionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  newCollectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  orbitalRow: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  orbitalThumb: {
+    width: 96,
+    height: 96,
+    borderRadius: 6,
+    backgroundColor: '#f5f5f5',
+  },
+  orbitalLabel: {
+    fontSize: 11,
+    marginTop: 2,
+    maxWidth: 96,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  noteSave: {
+    alignSelf: 'flex-end',
+    marginTop: 6,
+  },
+  collectionAddText: {
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  newCollectionInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+  },
   propertyRow: {
     flexDirection: 'row',
     marginBottom: 6,
@@ -414,4 +1145,7 @@ const styles = StyleSheet.create({
     fontSize: 13,
     flex: 1,
   },
+  propertyWarning: {
+    color: '#ef4444',
+  },
 });
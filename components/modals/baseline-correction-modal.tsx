@@ -0,0 +1,429 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useColorScheme } from '../../hooks/use-color-scheme';
+import { useThemeColor } from '../../hooks/use-theme-color';
+import { BaselineCorrection, BaselineMode, parseWavelengthRanges } from '../../lib/baseline-correction';
+import { deriveSelectedSpectrum, processingError, SpectrumProcessing } from '../../lib/spectrum-processing';
+import { SelectedSpectrum } from '../../lib/types';
+import { ThemedText } from '../themed-text';
+
+const MODES: { id: BaselineMode; label: string; hint: string }[] = [
+  { id: 'offset', label: 'Constant offset', hint: 'Subtracts the mean value over one region where the compound does not absorb.' },
+  { id: 'linear', label: 'Linear (two-point)', hint: 'Subtracts the straight line through the spectrum at two wavelengths.' },
+  { id: 'polynomial', label: 'Polynomial', hint: 'Subtracts a least-squares polynomial fitted to the anchor regions.' },
+  { id: 'rayleigh', label: 'Rayleigh λ⁻⁴', hint: 'Subtracts a + b·λ⁻⁴ fitted to the anchor regions, for scattering tails.' },
+];
+
+const DEFAULT_ORDER = 2;
+
+// Form fields are kept as text so partial input ("250-", "3.") can be typed
+interface BaselineForm {
+  region: string;
+  firstWavelength: string;
+  secondWavelength: string;
+  regions: string;
+  order: string;
+}
+
+/** Starting values from the spectrum's range: its red end as the offset region, its ends for the line. */
+function defaultForm(source: SelectedSpectrum | null): BaselineForm {
+  const w = source?.spectrum.wavelengths;
+  if (!w || w.length === 0) {
+    return { region: '', firstWavelength: '', secondWavelength: '', regions: '', order: String(DEFAULT_ORDER) };
+  }
+  const first = Math.ceil(w[0]);
+  const last = Math.floor(w[w.length - 1]);
+  const edge = Math.max(1, Math.round((last - first) * 0.1));
+  return {
+    region: `${last - edge}-${last}`,
+    firstWavelength: String(first),
+    secondWavelength: String(last),
+    regions: `${first}-${first + edge}, ${last - edge}-${last}`,
+    order: String(DEFAULT_ORDER),
+  };
+}
+
+function toCorrection(mode: BaselineMode, form: BaselineForm): BaselineCorrection | string {
+  switch (mode) {
+    case 'offset': {
+      const ranges = parseWavelengthRanges(form.region);
+      if (!ranges || ranges.length !== 1) return 'Enter one region as low-high, e.g. 700-800.';
+      return { mode, region: ranges[0] };
+    }
+    case 'linear': {
+      const a = parseFloat(form.firstWavelength);
+      const b = parseFloat(form.secondWavelength);
+      if (!Number.isFinite(a) || !Number.isFinite(b)) return 'Enter two baseline wavelengths.';
+      return { mode, wavelengths: [a, b] };
+    }
+    case 'polynomial':
+    case 'rayleigh': {
+      const regions = parseWavelengthRanges(form.regions);
+      if (!regions) return 'Enter anchor regions as low-high pairs separated by commas, e.g. 250-270, 700-800.';
+      if (mode === 'rayleigh') return { mode, regions };
+      const order = Number(form.order);
+      return { mode, regions, order };
+    }
+  }
+}
+
+interface BaselineCorrectionModalProps {
+  visible: boolean;
+  onClose: () => void;
+  selectedSpectra: SelectedSpectrum[];
+  onSpectrumDerived: (spectrum: SelectedSpectrum) => void;
+}
+
+/**
+ * Subtracts a baseline from one of the selected absorption spectra. The corrected
+ * spectrum is added to the selection next to the original, so both can be
+ * compared on the chart and either can be used by the calculation modules.
+ */
+export function BaselineCorrectionModal({
+  visible,
+  onClose,
+  selectedSpectra,
+  onSpectrumDerived,
+}: BaselineCorrectionModalProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const isDark = colorScheme === 'dark';
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  const borderColor = isDark ? 'rgba(255,255,255,0.25)' : 'rgba(128,128,128,0.35)';
+  const tintColor = useThemeColor({}, 'tint');
+  const primaryButtonTextColor = isDark ? '#11181C' : '#ffffff';
+  const inputBg = isDark ? 'rgba(255,255,255,0.06)' : undefined;
+  const cardBg = useThemeColor({}, 'background');
+
+  const absorptionSpectra = useMemo(
+    () => selectedSpectra.filter(s => s.type === 'absorption'),
+    [selectedSpectra]
+  );
+
+  const [selectedCompoundId, setSelectedCompoundId] = useState<string | null>(null);
+  const [mode, setMode] = useState<BaselineMode>('offset');
+  const [form, setForm] = useState<BaselineForm>(() => defaultForm(null));
+
+  const source = useMemo(
+    () => absorptionSpectra.find(s => s.compound.id === selectedCompoundId) ?? null,
+    [absorptionSpectra, selectedCompoundId]
+  );
+
+  const handleCompoundSelect = (compoundId: string) => {
+    setSelectedCompoundId(compoundId);
+    setForm(defaultForm(absorptionSpectra.find(s => s.compound.id === compoundId) ?? null));
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setMode('offset');
+      if (absorptionSpectra.length === 1) {
+        handleCompoundSelect(absorptionSpectra[0].compound.id);
+      } else {
+        setSelectedCompoundId(null);
+        setForm(defaultForm(null));
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const updateForm = <K extends keyof BaselineForm>(key: K, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = () => {
+    if (!source) return;
+    const correction = toCorrection(mode, form);
+    if (typeof correction === 'string') {
+      Alert.alert('Invalid parameters', correction);
+      return;
+    }
+    const processing: SpectrumProcessing = { kind: 'baseline', correction };
+    const error = processingError(processing, source.spectrum);
+    if (error) {
+      Alert.alert('Invalid parameters', error);
+      return;
+    }
+    const derived = deriveSelectedSpectrum(source, processing);
+    if (!derived) {
+      Alert.alert('Baseline correction failed', 'The baseline could not be fitted to the anchor regions.');
+      return;
+    }
+    onSpectrumDerived(derived);
+    onClose();
+  };
+
+  const inputProps = { borderColor, textColor, placeholderTextColor: iconColor, inputBg };
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.card, { backgroundColor: cardBg, borderColor }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: borderColor }]}>
+            <ThemedText type="subtitle" style={styles.title}>
+              Baseline Correction
+            </ThemedText>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={20} color={textColor} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={{ paddingBottom: 16 }}>
+            <ThemedText style={styles.desc}>
+              Remove an offset, sloping background or scattering tail from an absorption spectrum before
+              scaling it to ε. The corrected spectrum is added next to the original.
+            </ThemedText>
+
+            {/* Compound selection */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Compound (absorption)</ThemedText>
+              {absorptionSpectra.length === 0 ? (
+                <ThemedText style={styles.muted}>
+                  No absorption spectra selected. Add absorption spectra to the chart first.
+                </ThemedText>
+              ) : (
+                <View style={styles.optionList}>
+                  {absorptionSpectra.map(s => (
+                    <Pressable
+                      key={s.compound.id}
+                      style={[
+                        styles.optionRow,
+                        { borderColor },
+                        selectedCompoundId === s.compound.id && {
+                          borderColor: tintColor,
+                          backgroundColor: 'rgba(128,128,128,0.12)',
+                        },
+                      ]}
+                      onPress={() => handleCompoundSelect(s.compound.id)}
+                    >
+                      <ThemedText style={styles.optionLabel} numberOfLines={1}>
+                        {s.compound.name}
+                        {s.compound.database_name ? ` (${s.compound.database_name})` : ''}
+                      </ThemedText>
+                      {selectedCompoundId === s.compound.id && (
+                        <Ionicons name="checkmark-circle" size={20} color={tintColor} />
+                      )}
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            {source && (
+              <>
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>Baseline model</ThemedText>
+                  <View style={styles.typeRow}>
+                    {MODES.map(m => (
+                      <Pressable
+                        key={m.id}
+                        style={[
+                          styles.typeChip,
+                          { borderColor },
+                          mode === m.id && { backgroundColor: tintColor, borderColor: tintColor },
+                        ]}
+                        onPress={() => setMode(m.id)}
+                      >
+                        <ThemedText style={[styles.typeChipText, mode === m.id && { color: primaryButtonTextColor }]}>
+                          {m.label}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <ThemedText style={[styles.muted, { marginBottom: 12 }]}>
+                    {MODES.find(m => m.id === mode)?.hint}
+                  </ThemedText>
+
+                  {mode === 'offset' && (
+                    <ParamInput
+                      label="Region (nm)"
+                      value={form.region}
+                      onChange={v => updateForm('region', v)}
+                      placeholder="700-800"
+                      numeric={false}
+                      {...inputProps}
+                    />
+                  )}
+                  {mode === 'linear' && (
+                    <>
+                      <ParamInput
+                        label="First wavelength (nm)"
+                        value={form.firstWavelength}
+                        onChange={v => updateForm('firstWavelength', v)}
+                        {...inputProps}
+                      />
+                      <ParamInput
+                        label="Second wavelength (nm)"
+                        value={form.secondWavelength}
+                        onChange={v => updateForm('secondWavelength', v)}
+                        {...inputProps}
+                      />
+                    </>
+                  )}
+                  {(mode === 'polynomial' || mode === 'rayleigh') && (
+                    <ParamInput
+                      label="Anchor regions (nm)"
+                      value={form.regions}
+                      onChange={v => updateForm('regions', v)}
+                      placeholder="250-270, 700-800"
+                      numeric={false}
+                      {...inputProps}
+                    />
+                  )}
+                  {mode === 'polynomial' && (
+                    <ParamInput
+                      label="Polynomial order"
+                      value={form.order}
+                      onChange={v => updateForm('order', v)}
+                      {...inputProps}
+                    />
+                  )}
+                </View>
+
+                <View style={styles.actionsRow}>
+                  <Pressable style={[styles.primaryButton, { backgroundColor: tintColor }]} onPress={handleApply}>
+                    <ThemedText style={[styles.primaryButtonText, { color: primaryButtonTextColor }]}>
+                      Add corrected spectrum
+                    </ThemedText>
+                  </Pressable>
+                  <Pressable style={[styles.secondaryButton, { borderColor: tintColor }]} onPress={onClose}>
+                    <ThemedText style={[styles.secondaryButtonText, { color: tintColor }]}>Close</ThemedText>
+                  </Pressable>
+                </View>
+
+                <ThemedText style={styles.footnote}>
+                  * Anchor regions should cover wavelengths where the compound does not absorb. The
+                  modules scale the corrected spectrum to the compound ε at λ* like the original.
+                </ThemedText>
+              </>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function ParamInput({
+  label,
+  value,
+  onChange,
+  borderColor,
+  textColor,
+  placeholderTextColor,
+  inputBg,
+  placeholder,
+  numeric = true,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+  numeric?: boolean;
+  borderColor: string;
+  textColor: string;
+  placeholderTextColor: string;
+  inputBg: string | undefined;
+}) {
+  return (
+    <View style={styles.paramRow}>
+      <ThemedText style={styles.paramLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, { borderColor, color: textColor, backgroundColor: inputBg }]}
+        placeholderTextColor={placeholderTextColor}
+        placeholder={placeholder}
+        keyboardType={numeric ? 'numeric' : 'default'}
+        value={value}
+        onChangeText={onChange}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  desc: { fontSize: 13, opacity: 0.8, marginBottom: 12 },
+  body: { paddingHorizontal: 16, paddingTop: 12 },
+  section: { marginTop: 16 },
+  sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
+  muted: { fontSize: 13, opacity: 0.7 },
+  optionList: { flexDirection: 'column', gap: 8 },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  optionLabel: { fontSize: 14, flex: 1 },
+  typeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  typeChipText: { fontSize: 13, fontWeight: '600' },
+  paramRow: { marginBottom: 10 },
+  paramLabel: { fontSize: 13, opacity: 0.85, marginBottom: 4 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 16 },
+  primaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: { fontSize: 14, fontWeight: '600' },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+  secondaryButtonText: { fontSize: 14, fontWeight: '500' },
+  footnote: { fontSize: 12, opacity: 0.7, marginTop: 12 },
+});
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import {
+  ActivityIndicator,
   Modal,
   Pressable,
   ScrollView,
@@ -10,6 +11,7 @@ import {
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useColorScheme } from '../../hooks/use-color-scheme';
 import { useThemeColor } from '../../hooks/use-theme-color';
+import { getLightSources, getLightSourceSpectrum, LightSource } from '../../lib/database';
 import { DistributionParams } from '../../lib/types';
 import { ThemedText } from '../themed-text';
 
@@ -30,8 +32,13 @@ const TYPES: { id: DistributionParams['type']; label: string }[] = [
   { id: 'blackbody', label: 'Blackbody' },
   { id: 'gaussian', label: 'Gaussian' },
   { id: 'lorentzian', label: 'Lorentzian' },
+  { id: 'light-source', label: 'Solar spectrum' },
 ];
 
+function lightSourceDetails(source: LightSource): string {
+  return [source.source, source.description].filter(Boolean).join(' · ');
+}
+
 export function DistributionModal({
   visible,
   onClose,
@@ -50,6 +57,8 @@ export function DistributionModal({
 
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [form, setForm] = useState<DistributionParams>({ ...DEFAULT });
+  const [lightSources, setLightSources] = useState<LightSource[] | null>(null);
+  const [loadingSourceId, setLoadingSourceId] = useState<string | null>(null);
 
   const resetForm = () => {
     setForm({ type: 'gaussian', lowWavelength: 200, highWavelength: 800 });
@@ -60,12 +69,49 @@ export function DistributionModal({
     if (!visible) resetForm();
   }, [visible]);
 
+  useEffect(() => {
+    if (!visible || form.type !== 'light-source' || lightSources !== null) return;
+    getLightSources()
+      .then(setLightSources)
+      .catch(error => {
+        console.error('Error loading light sources:', error);
+        setLightSources([]);
+      });
+  }, [visible, form.type, lightSources]);
+
   const updateForm = <K extends keyof DistributionParams>(key: K, value: DistributionParams[K]) => {
     setForm(prev => ({ ...prev, [key]: value }));
   };
 
+  const handleLightSourceSelect = async (source: LightSource) => {
+    setLoadingSourceId(source.id);
+    try {
+      const points = await getLightSourceSpectrum(source.id);
+      setForm(prev => ({
+        ...prev,
+        lowWavelength: source.wavelength_min,
+        highWavelength: source.wavelength_max,
+        lightSourceId: source.id,
+        lightSourceName: source.name,
+        lightSourcePoints: points,
+      }));
+    } catch (error) {
+      console.error('Error loading light source spectrum:', error);
+    } finally {
+      setLoadingSourceId(null);
+    }
+  };
+
   const buildParams = (): DistributionParams => {
     const base = { type: form.type, lowWavelength: form.lowWavelength, highWavelength: form.highWavelength };
+    if (form.type === 'light-source') {
+      return {
+        ...base,
+        lightSourceId: form.lightSourceId,
+        lightSourceName: form.lightSourceName,
+        lightSourcePoints: form.lightSourcePoints,
+      };
+    }
     if (form.type === 'blackbody') {
       return { ...base, temperature: form.temperature ?? 5776 };
     }
@@ -85,6 +131,8 @@ export function DistributionModal({
     };
   };
 
+  const canSubmit = form.type !== 'light-source' || !!form.lightSourcePoints?.length;
+
   const handleAddOrUpdate = () => {
     const built = buildParams();
     if (editingIndex !== null) {
@@ -138,8 +186,11 @@ export function DistributionModal({
                       key={i}
                       style={[styles.listItem, { borderColor }]}
                     >
-                      <ThemedText style={styles.listItemLabel} numberOfLines={1}>
-                        {d.type} ({d.lowWavelength}–{d.highWavelength} nm)
+                      <ThemedText
+                        style={[styles.listItemLabel, d.type === 'light-source' && styles.noTransform]}
+                        numberOfLines={1}
+                      >
+                        {d.type === 'light-source' ? d.lightSourceName : d.type} ({d.lowWavelength}–{d.highWavelength} nm)
                       </ThemedText>
                       <View style={styles.listItemActions}>
                         <Pressable
@@ -279,14 +330,58 @@ export function DistributionModal({
                 </>
               )}
 
+              {form.type === 'light-source' && (
+                <View style={styles.section}>
+                  <ThemedText style={styles.label}>Measured spectrum</ThemedText>
+                  {lightSources === null ? (
+                    <ActivityIndicator size="small" color={tintColor} />
+                  ) : lightSources.length === 0 ? (
+                    <ThemedText style={styles.muted}>No light source spectra in the database.</ThemedText>
+                  ) : (
+                    <View style={styles.list}>
+                      {lightSources.map(source => {
+                        const selected = form.lightSourceId === source.id;
+                        return (
+                          <Pressable
+                            key={source.id}
+                            style={[styles.sourceItem, { borderColor }, selected && { borderColor: tintColor }]}
+                            onPress={() => handleLightSourceSelect(source)}
+                          >
+                            <View style={styles.sourceText}>
+                              <ThemedText style={styles.sourceName} numberOfLines={1}>
+                                {source.name}
+                              </ThemedText>
+                              <ThemedText style={styles.sourceDetails} numberOfLines={1}>
+                                {lightSourceDetails(source)}
+                              </ThemedText>
+                            </View>
+                            {loadingSourceId === source.id ? (
+                              <ActivityIndicator size="small" color={tintColor} />
+                            ) : selected ? (
+                              <Ionicons name="checkmark" size={18} color={tintColor} />
+                            ) : null}
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+              )}
+
               {form.type === 'blackbody' && (
                 <ThemedText style={styles.hint}>Sun photosphere ≈ 5776 K</ThemedText>
               )}
+              {form.type === 'light-source' && (
+                <ThemedText style={styles.hint}>
+                  Spectral irradiance (W/m²/nm), scaled to its maximum within the wavelength range
+                </ThemedText>
+              )}
 
               <View style={styles.formActions}>
                 <Pressable
-                  style={[styles.primaryBtn, { backgroundColor: tintColor }]}
+                  style={[styles.primaryBtn, { backgroundColor: tintColor }, !canSubmit && styles.disabled]}
                   onPress={handleAddOrUpdate}
+                  disabled={!canSubmit}
                 >
                   <Ionicons name="add" size={18} color={primaryButtonTextColor} />
                   <ThemedText style={[styles.primaryBtnText, { color: primaryButtonTextColor }]}>
@@ -379,6 +474,7 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
   listItemLabel: { fontSize: 14, flex: 1, textTransform: 'capitalize' },
+  noTransform: { textTransform: 'none' },
   listItemActions: { flexDirection: 'row', gap: 8 },
   smBtn: {
     paddingHorizontal: 10,
@@ -403,7 +499,7 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     fontSize: 14,
   },
-  typeRow: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  typeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
   typeChip: {
     paddingHorizontal: 12,
     paddingVertical: 8,
@@ -411,6 +507,19 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
   typeChipText: { fontSize: 13, fontWeight: '600' },
+  sourceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  sourceText: { flex: 1 },
+  sourceName: { fontSize: 14, fontWeight: '600' },
+  sourceDetails: { fontSize: 12, opacity: 0.7 },
+  disabled: { opacity: 0.5 },
   hint: { fontSize: 12, opacity: 0.7, marginTop: -4, marginBottom: 8 },
   formActions: { flexDirection: 'row', gap: 10, marginTop: 16 },
   primaryBtn: {
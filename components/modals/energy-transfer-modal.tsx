@@ -17,6 +17,7 @@ import {
   calcEnergyTransferReverse,
   clamp01,
 } from '../../lib/energy-transfer';
+import { peakWavelengths } from '../../lib/peaks';
 import { ThemedText } from '../themed-text';
 import { ThemedView } from '../themed-view';
 
@@ -88,11 +89,8 @@ export function EnergyTransferModal({
 
     if (simulationMode === 'reverse' && emissionSpectra.length > 1) {
       spectraToUse = emissionSpectra.slice(1);
-      setSelectedWavelengths(
-        selectedSpectra
-          .map(s => Number((s.compound as any).emission_wavelength))
-          .filter(v => !isNaN(v))
-      );
+      // Emission band maxima found in the spectra themselves
+      setSelectedWavelengths(peakWavelengths(emissionSpectra.map(s => s.spectrum)));
     }
 
     const newComponents: EnergyTransferComponent[] = spectraToUse.map((spectrum, index) => ({
@@ -10,6 +10,7 @@ import {
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useColorScheme } from '../../hooks/use-color-scheme';
 import { useThemeColor } from '../../hooks/use-theme-color';
+import { CompoundSolventMatch, findCompoundSolvent } from '../../lib/solvents';
 import { SelectedSpectrum } from '../../lib/types';
 import {
   calculateForsterEnergyTransfer,
@@ -55,6 +56,9 @@ export function ForsterEnergyTransferModal({
   const [acceptorId, setAcceptorId] = useState<string | null>(null);
   const [params, setParams] = useState<ForsterEnergyTransferParams>(DEFAULT_PARAMS);
   const [results, setResults] = useState<ForsterEnergyTransferResults | null>(null);
+  const [refractiveIndexSource, setRefractiveIndexSource] = useState<
+    (CompoundSolventMatch & { role: 'donor' | 'acceptor' }) | null
+  >(null);
 
   const emissionSpectra = useMemo(
     () => selectedSpectra.filter(s => s.type === 'emission'),
@@ -80,13 +84,34 @@ export function ForsterEnergyTransferModal({
       setAcceptorId(null);
       setParams({ ...DEFAULT_PARAMS });
       setResults(null);
+      setRefractiveIndexSource(null);
     }
   }, [visible]);
 
+  // n of the medium: the donor's solvent, else the acceptor's; never overrides a value typed in by hand
+  const fillRefractiveIndex = (
+    compound: SelectedSpectrum['compound'],
+    role: 'donor' | 'acceptor'
+  ) => {
+    if (role === 'acceptor' && refractiveIndexSource?.role === 'donor') return;
+    if (refractiveIndexSource == null && params.refractiveIndex !== DEFAULT_PARAMS.refractiveIndex) return;
+    const match = findCompoundSolvent(compound, role === 'donor' ? 'emission' : 'absorption');
+    if (!match) return;
+    setRefractiveIndexSource({ ...match, role });
+    setParams(prev => ({ ...prev, refractiveIndex: match.solvent.refractiveIndex }));
+  };
+
+  const handleDonorSelect = (compoundId: string) => {
+    const spectrum = emissionSpectra.find(s => s.compound.id === compoundId);
+    setDonorId(compoundId);
+    if (spectrum) fillRefractiveIndex(spectrum.compound, 'donor');
+  };
+
   const handleAcceptorSelect = (compoundId: string) => {
     const spectrum = absorptionSpectra.find(s => s.compound.id === compoundId);
     setAcceptorId(compoundId);
     if (spectrum) {
+      fillRefractiveIndex(spectrum.compound, 'acceptor');
       const c = spectrum.compound as any;
       const w = parseFloat(c?.absorption_wavelength);
       const e = parseFloat(c?.absorption_epsilon);
@@ -101,13 +126,13 @@ export function ForsterEnergyTransferModal({
   };
 
   const handleCalculate = () => {
-    if (!donorSpectrum?.data?.length || !acceptorSpectrum?.data?.length) {
+    if (!donorSpectrum?.spectrum.wavelengths.length || !acceptorSpectrum?.spectrum.wavelengths.length) {
       console.warn('Select both donor (emission) and acceptor (absorption) spectra.');
       return;
     }
     const res = calculateForsterEnergyTransfer(
-      donorSpectrum.data,
-      acceptorSpectrum.data,
+      donorSpectrum.spectrum,
+      acceptorSpectrum.spectrum,
       params
     );
     if (!res) {
@@ -160,7 +185,7 @@ export function ForsterEnergyTransferModal({
                         { borderColor },
                         donorId === s.compound.id && { borderColor: tintColor, backgroundColor: 'rgba(128,128,128,0.12)' },
                       ]}
-                      onPress={() => setDonorId(s.compound.id)}
+                      onPress={() => handleDonorSelect(s.compound.id)}
                     >
                       <ThemedText style={styles.optionLabel} numberOfLines={1}>
                         {s.compound.name}
@@ -213,12 +238,21 @@ export function ForsterEnergyTransferModal({
                   <ParamInput
                     label="Refractive index (1–4)"
                     value={params.refractiveIndex}
-                    onChange={v => updateParam('refractiveIndex', v)}
+                    onChange={v => {
+                      setRefractiveIndexSource(null);
+                      updateParam('refractiveIndex', v);
+                    }}
                     borderColor={borderColor}
                     textColor={textColor}
                     placeholderTextColor={iconColor}
                     inputBg={inputBg}
                   />
+                  {refractiveIndexSource && (
+                    <ThemedText style={styles.hint}>
+                      {refractiveIndexSource.solvent.name} ({refractiveIndexSource.role} solvent)
+                      {refractiveIndexSource.exact ? '' : `, matched from "${refractiveIndexSource.label}"`}
+                    </ThemedText>
+                  )}
                   <ParamInput
                     label="Orientation factor κ² (0–4)"
                     value={params.orientationFactor}
@@ -425,6 +459,7 @@ const styles = StyleSheet.create({
   section: { marginTop: 16 },
   sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
   muted: { fontSize: 13, opacity: 0.7 },
+  hint: { fontSize: 12, opacity: 0.7, marginTop: -6, marginBottom: 10 },
   optionList: { flexDirection: 'column', gap: 8 },
   optionRow: {
     flexDirection: 'row',
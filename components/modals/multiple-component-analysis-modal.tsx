@@ -14,6 +14,7 @@ import { useColorScheme } from '../../hooks/use-color-scheme';
 import { useThemeColor } from '../../hooks/use-theme-color';
 import { getConcentration } from '../../lib/helpers';
 import { calculateMultipleComponentAnalysisSimplex, type MCAResults } from '../../lib/mca';
+import { peakWavelengths } from '../../lib/peaks';
 import { SelectedSpectrum } from '../../lib/types';
 import { ThemedText } from '../themed-text';
 
@@ -87,20 +88,23 @@ export function MultipleComponentAnalysisModal({
 
   useEffect(() => {
     if (visible) {
-      const fromSpectra = selectedSpectra
-        .map(s => Number((s.compound as { absorption_wavelength?: string })?.absorption_wavelength))
-        .filter(Number.isFinite);
-      setSelectedWavelengths(
-        fromSpectra.length > 0 ? [...new Set(fromSpectra)].sort((a, b) => a - b) : [...DEFAULT_WAVELENGTHS]
-      );
-      setMinWavelength(220);
-      setMaxWavelength(300);
+      // Band maxima of the mixture and component spectra, widening the range to include them
+      const fromPeaks = peakWavelengths(validSpectra.map(s => s.spectrum));
+      if (fromPeaks.length > 0) {
+        setSelectedWavelengths(fromPeaks);
+        setMinWavelength(Math.min(220, fromPeaks[0]));
+        setMaxWavelength(Math.max(300, fromPeaks[fromPeaks.length - 1]));
+      } else {
+        setSelectedWavelengths([...DEFAULT_WAVELENGTHS]);
+        setMinWavelength(220);
+        setMaxWavelength(300);
+      }
       setComponents([]);
       setResults(null);
       setNewWavelength('');
       autoPopulateComponents();
     }
-  }, [visible, selectedSpectra, autoPopulateComponents]);
+  }, [visible, validSpectra, autoPopulateComponents]);
 
   const handleAddWavelength = () => {
     const w = parseFloat(newWavelength);
@@ -10,6 +10,7 @@ import {
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useColorScheme } from '../../hooks/use-color-scheme';
 import { useThemeColor } from '../../hooks/use-theme-color';
+import { CompoundSolventMatch, findCompoundSolvent } from '../../lib/solvents';
 import { SelectedSpectrum } from '../../lib/types';
 import {
   calculateNaturalRadiativeLifetime,
@@ -51,6 +52,7 @@ export function NaturalRadiativeLifetimeModal({
   const [selectedCompoundId, setSelectedCompoundId] = useState<string | null>(null);
   const [params, setParams] = useState<NaturalRadiativeLifetimeParams>(DEFAULT_PARAMS);
   const [results, setResults] = useState<NaturalRadiativeLifetimeResults | null>(null);
+  const [refractiveIndexSource, setRefractiveIndexSource] = useState<CompoundSolventMatch | null>(null);
 
   const validCompounds = useMemo(() => {
     const byId: Record<
@@ -72,14 +74,14 @@ export function NaturalRadiativeLifetimeModal({
     if (!selectedCompoundId) return null;
     return selectedSpectra.find(
       s => s.compound.id === selectedCompoundId && s.type === 'emission'
-    )?.data ?? null;
+    )?.spectrum ?? null;
   }, [selectedSpectra, selectedCompoundId]);
 
   const absorptionSpectrum = useMemo(() => {
     if (!selectedCompoundId) return null;
     return selectedSpectra.find(
       s => s.compound.id === selectedCompoundId && s.type === 'absorption'
-    )?.data ?? null;
+    )?.spectrum ?? null;
   }, [selectedSpectra, selectedCompoundId]);
 
   const selectedCompound = useMemo(
@@ -92,6 +94,7 @@ export function NaturalRadiativeLifetimeModal({
       setSelectedCompoundId(null);
       setParams({ ...DEFAULT_PARAMS });
       setResults(null);
+      setRefractiveIndexSource(null);
     }
   }, [visible]);
 
@@ -101,6 +104,12 @@ export function NaturalRadiativeLifetimeModal({
       s => s.compound.id === compoundId && s.type === 'absorption'
     );
     if (absorption) {
+      // Strickler–Berg uses n of the emission solvent
+      const solvent = findCompoundSolvent(absorption.compound, 'emission');
+      setRefractiveIndexSource(solvent);
+      if (solvent) {
+        setParams(prev => ({ ...prev, refractiveIndex: solvent.solvent.refractiveIndex }));
+      }
       const c = absorption.compound as any;
       const w = parseFloat(c?.absorption_wavelength);
       const e = parseFloat(c?.absorption_epsilon);
@@ -115,7 +124,7 @@ export function NaturalRadiativeLifetimeModal({
   };
 
   const handleCalculate = () => {
-    if (!emissionSpectrum?.length || !absorptionSpectrum?.length) {
+    if (!emissionSpectrum?.wavelengths.length || !absorptionSpectrum?.wavelengths.length) {
       console.warn('Select a compound with both emission and absorption spectra.');
       return;
     }
@@ -225,12 +234,21 @@ export function NaturalRadiativeLifetimeModal({
                   <ParamInput
                     label="Refractive index, n"
                     value={params.refractiveIndex}
-                    onChange={v => updateParam('refractiveIndex', v)}
+                    onChange={v => {
+                      setRefractiveIndexSource(null);
+                      updateParam('refractiveIndex', v);
+                    }}
                     borderColor={borderColor}
                     textColor={textColor}
                     placeholderTextColor={iconColor}
                     inputBg={inputBg}
                   />
+                  {refractiveIndexSource && (
+                    <ThemedText style={styles.hint}>
+                      {refractiveIndexSource.solvent.name} (emission solvent)
+                      {refractiveIndexSource.exact ? '' : `, matched from "${refractiveIndexSource.label}"`}
+                    </ThemedText>
+                  )}
                 </View>
 
                 {/* Database Parameters */}
@@ -391,6 +409,7 @@ const styles = StyleSheet.create({
   section: { marginTop: 16 },
   sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
   muted: { fontSize: 13, opacity: 0.7 },
+  hint: { fontSize: 12, opacity: 0.7, marginTop: -6, marginBottom: 10 },
   optionList: { flexDirection: 'column', gap: 8 },
   optionRow: {
     flexDirection: 'row',
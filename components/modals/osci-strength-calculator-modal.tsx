@@ -109,8 +109,8 @@ export function OscillatorStrengthCalculatorModal({
   };
 
   const handleCalculate = () => {
-    if (!selectedSpectrum?.data?.length) return;
-    const res = calculateOscillatorStrength(selectedSpectrum.data, params);
+    if (!selectedSpectrum?.spectrum.wavelengths.length) return;
+    const res = calculateOscillatorStrength(selectedSpectrum.spectrum, params);
     if (!res) {
       Alert.alert(
         'Calculation failed',
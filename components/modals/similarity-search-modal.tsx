@@ -0,0 +1,421 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useColorScheme } from '../../hooks/use-color-scheme';
+import { useThemeColor } from '../../hooks/use-theme-color';
+import { Compound, getCompoundById, getSpectrumIndex, SpectrumIndexEntry } from '../../lib/database';
+import {
+  rankBySimilarity,
+  resampleSpectrum,
+  type SimilarityMatch,
+  type SimilarityMetric,
+} from '../../lib/similarity';
+import { Spectrum, spectrumFromData } from '../../lib/spectrum';
+import { parseSpectrumText } from '../../lib/spectrum-import';
+import { SelectedSpectrum } from '../../lib/types';
+import { ThemedText } from '../themed-text';
+
+type SpectrumType = 'absorption' | 'emission';
+
+// Query source: one of the selected spectra ("<compoundId>:<type>") or pasted data
+const MEASURED_SOURCE = 'measured';
+
+const METRICS: { id: SimilarityMetric; label: string }[] = [
+  { id: 'pearson', label: 'Pearson' },
+  { id: 'cosine', label: 'Cosine' },
+];
+
+const SPECTRUM_TYPES: { id: SpectrumType; label: string }[] = [
+  { id: 'absorption', label: 'Absorption' },
+  { id: 'emission', label: 'Emission' },
+];
+
+const DEFAULT_MAX_SHIFT_NM = 10;
+const RESULT_LIMIT = 25;
+
+interface SimilaritySearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  selectedSpectra: SelectedSpectrum[];
+  onSpectrumAdd: (spectrum: { compound: Compound; type: SpectrumType }) => void;
+}
+
+function sourceKey(s: SelectedSpectrum): string {
+  return `${s.compound.id}:${s.type}`;
+}
+
+export function SimilaritySearchModal({
+  visible,
+  onClose,
+  selectedSpectra,
+  onSpectrumAdd,
+}: SimilaritySearchModalProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const isDark = colorScheme === 'dark';
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  const borderColor = isDark ? 'rgba(255,255,255,0.25)' : 'rgba(128,128,128,0.35)';
+  const tintColor = useThemeColor({}, 'tint');
+  const primaryButtonTextColor = isDark ? '#11181C' : '#ffffff';
+  const inputBg = isDark ? 'rgba(255,255,255,0.06)' : undefined;
+  const cardBg = useThemeColor({}, 'background');
+
+  const [source, setSource] = useState<string | null>(null);
+  const [measuredText, setMeasuredText] = useState('');
+  const [measuredType, setMeasuredType] = useState<SpectrumType>('absorption');
+  const [libraryType, setLibraryType] = useState<SpectrumType>('absorption');
+  const [metric, setMetric] = useState<SimilarityMetric>('pearson');
+  const [maxShiftNm, setMaxShiftNm] = useState(DEFAULT_MAX_SHIFT_NM);
+  const [results, setResults] = useState<SimilarityMatch<SpectrumIndexEntry>[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setSource(selectedSpectra.length > 0 ? sourceKey(selectedSpectra[0]) : MEASURED_SOURCE);
+      setLibraryType(selectedSpectra[0]?.type ?? 'absorption');
+      setResults(null);
+      setMessage(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const handleSourceSelect = (key: string) => {
+    setSource(key);
+    setResults(null);
+    const spectrum = selectedSpectra.find(s => sourceKey(s) === key);
+    setLibraryType(spectrum ? spectrum.type : measuredType);
+  };
+
+  const getQuery = (): { spectrum: Spectrum; type: SpectrumType; excludeId?: string } | null => {
+    if (source === MEASURED_SOURCE) {
+      return { spectrum: spectrumFromData(parseSpectrumText(measuredText, measuredType), measuredType), type: measuredType };
+    }
+    const spectrum = selectedSpectra.find(s => sourceKey(s) === source);
+    return spectrum ? { spectrum: spectrum.spectrum, type: spectrum.type, excludeId: spectrum.compound.id } : null;
+  };
+
+  const handleSearch = async () => {
+    const query = getQuery();
+    if (!query || query.spectrum.wavelengths.length < 2) {
+      setMessage('Select a spectrum or paste at least two "wavelength value" lines.');
+      return;
+    }
+    setIsSearching(true);
+    setMessage(null);
+    try {
+      const index = await getSpectrumIndex(libraryType);
+      if (index.length === 0) {
+        setMessage('The bundled database has no similarity index.');
+        setResults([]);
+        return;
+      }
+      const resampled = resampleSpectrum(
+        query.spectrum,
+        index[0].gridStart,
+        index[0].gridStep
+      );
+      if (!resampled) {
+        setMessage('The query spectrum does not cover enough of the comparison grid.');
+        setResults([]);
+        return;
+      }
+      const candidates = index.filter(e => e.compound_id !== query.excludeId);
+      setResults(rankBySimilarity(resampled, candidates, { metric, maxShiftNm }, RESULT_LIMIT));
+    } catch (error) {
+      console.error('Similarity search failed:', error);
+      setMessage('Similarity search failed.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleAdd = async (entry: SpectrumIndexEntry) => {
+    try {
+      const compound = await getCompoundById(entry.compound_id);
+      if (compound) onSpectrumAdd({ compound, type: entry.type });
+    } catch (error) {
+      console.error('Error loading compound:', error);
+    }
+  };
+
+  const renderChoice = (label: string, active: boolean, onPress: () => void, key: string) => (
+    <Pressable
+      key={key}
+      style={[styles.choice, { borderColor }, active && { borderColor: tintColor, backgroundColor: 'rgba(128,128,128,0.12)' }]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.choiceText, active && { color: tintColor, fontWeight: '600' }]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: cardBg, borderColor }]}
+          onPress={() => {}}
+        >
+          <View style={[styles.header, { borderBottomColor: borderColor }]}>
+            <ThemedText type="subtitle" style={styles.title}>
+              Spectral Similarity Search
+            </ThemedText>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={20} color={textColor} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={{ paddingBottom: 16 }}>
+            <ThemedText style={styles.desc}>
+              Rank database compounds by how closely their spectrum matches a selected or measured spectrum.
+            </ThemedText>
+
+            {/* Query spectrum */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Query spectrum</ThemedText>
+              <View style={styles.optionList}>
+                {selectedSpectra.map(s => {
+                  const key = sourceKey(s);
+                  return (
+                    <Pressable
+                      key={key}
+                      style={[
+                        styles.optionRow,
+                        { borderColor },
+                        source === key && { borderColor: tintColor, backgroundColor: 'rgba(128,128,128,0.12)' },
+                      ]}
+                      onPress={() => handleSourceSelect(key)}
+                    >
+                      <ThemedText style={styles.optionLabel} numberOfLines={1}>
+                        {s.compound.name} ({s.type === 'absorption' ? 'Abs' : 'Em'})
+                      </ThemedText>
+                      {source === key && <Ionicons name="checkmark-circle" size={20} color={tintColor} />}
+                    </Pressable>
+                  );
+                })}
+                <Pressable
+                  style={[
+                    styles.optionRow,
+                    { borderColor },
+                    source === MEASURED_SOURCE && { borderColor: tintColor, backgroundColor: 'rgba(128,128,128,0.12)' },
+                  ]}
+                  onPress={() => handleSourceSelect(MEASURED_SOURCE)}
+                >
+                  <ThemedText style={styles.optionLabel}>Measured spectrum (paste data)</ThemedText>
+                  {source === MEASURED_SOURCE && <Ionicons name="checkmark-circle" size={20} color={tintColor} />}
+                </Pressable>
+              </View>
+
+              {source === MEASURED_SOURCE && (
+                <View style={styles.measured}>
+                  <View style={styles.choiceRow}>
+                    {SPECTRUM_TYPES.map(t =>
+                      renderChoice(t.label, measuredType === t.id, () => {
+                        setMeasuredType(t.id);
+                        setLibraryType(t.id);
+                      }, t.id)
+                    )}
+                  </View>
+                  <TextInput
+                    style={[styles.input, styles.pasteInput, { borderColor, color: textColor, backgroundColor: inputBg }]}
+                    placeholder={'wavelength (nm)  value\n400  0.012\n402  0.015\n...'}
+                    placeholderTextColor={iconColor}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    value={measuredText}
+                    onChangeText={setMeasuredText}
+                  />
+                </View>
+              )}
+            </View>
+
+            {/* Search settings */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Compare against</ThemedText>
+              <View style={styles.choiceRow}>
+                {SPECTRUM_TYPES.map(t => renderChoice(`${t.label} spectra`, libraryType === t.id, () => setLibraryType(t.id), t.id))}
+              </View>
+              <ThemedText style={styles.sectionTitle}>Score</ThemedText>
+              <View style={styles.choiceRow}>
+                {METRICS.map(m => renderChoice(m.label, metric === m.id, () => setMetric(m.id), m.id))}
+              </View>
+              <View style={styles.paramRow}>
+                <ThemedText style={styles.paramLabel}>Allowed shift (± nm, 0 = none)</ThemedText>
+                <TextInput
+                  style={[styles.input, { borderColor, color: textColor, backgroundColor: inputBg }]}
+                  placeholderTextColor={iconColor}
+                  keyboardType="numeric"
+                  value={String(maxShiftNm)}
+                  onChangeText={t => setMaxShiftNm(Math.max(0, parseFloat(t) || 0))}
+                />
+              </View>
+            </View>
+
+            <View style={styles.actionsRow}>
+              <Pressable
+                style={[styles.primaryButton, { backgroundColor: tintColor }]}
+                onPress={handleSearch}
+                disabled={isSearching}
+              >
+                {isSearching ? (
+                  <ActivityIndicator size="small" color={primaryButtonTextColor} />
+                ) : (
+                  <ThemedText style={[styles.primaryButtonText, { color: primaryButtonTextColor }]}>
+                    Search
+                  </ThemedText>
+                )}
+              </Pressable>
+              <Pressable style={[styles.secondaryButton, { borderColor: tintColor }]} onPress={onClose}>
+                <ThemedText style={[styles.secondaryButtonText, { color: tintColor }]}>
+                  Close
+                </ThemedText>
+              </Pressable>
+            </View>
+
+            {message && <ThemedText style={[styles.muted, styles.message]}>{message}</ThemedText>}
+
+            {/* Results */}
+            {results && results.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Best matches</ThemedText>
+                {results.map((r, i) => (
+                  <View key={r.entry.compound_id} style={styles.resultRow}>
+                    <ThemedText style={styles.resultRank}>{i + 1}</ThemedText>
+                    <View style={styles.resultInfo}>
+                      <ThemedText style={styles.resultName} numberOfLines={1}>{r.entry.name}</ThemedText>
+                      <ThemedText style={styles.resultMeta} numberOfLines={1}>
+                        {r.entry.database_name}
+                        {r.shiftNm !== 0 ? ` · shift ${r.shiftNm > 0 ? '+' : ''}${r.shiftNm} nm` : ''}
+                      </ThemedText>
+                    </View>
+                    <ThemedText style={styles.resultValue}>{r.score.toFixed(3)}</ThemedText>
+                    <Pressable onPress={() => handleAdd(r.entry)} hitSlop={8}>
+                      <Ionicons name="add-circle-outline" size={22} color={tintColor} />
+                    </Pressable>
+                  </View>
+                ))}
+              </View>
+            )}
+            {results && results.length === 0 && !message && (
+              <ThemedText style={[styles.muted, styles.message]}>No compound overlaps the query spectrum.</ThemedText>
+            )}
+
+            <ThemedText style={styles.footnote}>
+              * Spectra are compared on a common wavelength grid after scaling to a maximum of 1.
+              With a shift window, each compound is scored at its best-matching shift.
+            </ThemedText>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  desc: { fontSize: 13, opacity: 0.8, marginBottom: 12 },
+  body: { paddingHorizontal: 16, paddingTop: 12 },
+  section: { marginTop: 16 },
+  sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
+  muted: { fontSize: 13, opacity: 0.7 },
+  message: { marginTop: 12 },
+  optionList: { flexDirection: 'column', gap: 8 },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  optionLabel: { fontSize: 14, flex: 1 },
+  measured: { marginTop: 10 },
+  choiceRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 10 },
+  choice: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  choiceText: { fontSize: 13 },
+  paramRow: { marginBottom: 10 },
+  paramLabel: { fontSize: 13, opacity: 0.85, marginBottom: 4 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  pasteInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 16 },
+  primaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: { fontSize: 14, fontWeight: '600' },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+  secondaryButtonText: { fontSize: 14, fontWeight: '500' },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  resultRank: { fontSize: 12, opacity: 0.6, width: 20 },
+  resultInfo: { flex: 1 },
+  resultName: { fontSize: 13, fontWeight: '600' },
+  resultMeta: { fontSize: 11, opacity: 0.7 },
+  resultValue: { fontSize: 13, fontWeight: '600' },
+  footnote: { fontSize: 12, opacity: 0.7, marginTop: 12 },
+});
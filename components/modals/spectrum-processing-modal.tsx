@@ -0,0 +1,347 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useColorScheme } from '../../hooks/use-color-scheme';
+import { useThemeColor } from '../../hooks/use-theme-color';
+import {
+  deriveSelectedSpectrum,
+  processingError,
+  processingLabel,
+  SpectrumProcessing,
+} from '../../lib/spectrum-processing';
+import { SelectedSpectrum } from '../../lib/types';
+import { ThemedText } from '../themed-text';
+
+type OperationId = 'savitzky-golay' | 'moving-average' | 'first-derivative' | 'second-derivative';
+
+const OPERATIONS: { id: OperationId; label: string }[] = [
+  { id: 'savitzky-golay', label: 'Savitzky–Golay' },
+  { id: 'moving-average', label: 'Moving average' },
+  { id: 'first-derivative', label: '1st derivative' },
+  { id: 'second-derivative', label: '2nd derivative' },
+];
+
+const DEFAULT_WINDOW = 11;
+const DEFAULT_ORDER = 3;
+
+function toProcessing(operation: OperationId, window: number, order: number): SpectrumProcessing {
+  switch (operation) {
+    case 'savitzky-golay':
+      return { kind: 'savitzky-golay', window, order };
+    case 'moving-average':
+      return { kind: 'moving-average', window };
+    case 'first-derivative':
+      return { kind: 'derivative', derivative: 1, window, order };
+    case 'second-derivative':
+      return { kind: 'derivative', derivative: 2, window, order };
+  }
+}
+
+interface SpectrumProcessingModalProps {
+  visible: boolean;
+  onClose: () => void;
+  selectedSpectra: SelectedSpectrum[];
+  onSpectrumDerived: (spectrum: SelectedSpectrum) => void;
+}
+
+/**
+ * Smooths or differentiates one of the selected spectra. The result is added to
+ * the selection as a new spectrum, so it can be plotted and used by the other
+ * calculation modules like the original.
+ */
+export function SpectrumProcessingModal({
+  visible,
+  onClose,
+  selectedSpectra,
+  onSpectrumDerived,
+}: SpectrumProcessingModalProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const isDark = colorScheme === 'dark';
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  const borderColor = isDark ? 'rgba(255,255,255,0.25)' : 'rgba(128,128,128,0.35)';
+  const tintColor = useThemeColor({}, 'tint');
+  const primaryButtonTextColor = isDark ? '#11181C' : '#ffffff';
+  const inputBg = isDark ? 'rgba(255,255,255,0.06)' : undefined;
+  const cardBg = useThemeColor({}, 'background');
+
+  const [sourceKey, setSourceKey] = useState<string | null>(null);
+  const [operation, setOperation] = useState<OperationId>('savitzky-golay');
+  const [windowSize, setWindowSize] = useState(DEFAULT_WINDOW);
+  const [order, setOrder] = useState(DEFAULT_ORDER);
+
+  const spectrumKey = (s: SelectedSpectrum) => `${s.compound.id}-${s.type}`;
+
+  const source = useMemo(
+    () => selectedSpectra.find(s => spectrumKey(s) === sourceKey) ?? null,
+    [selectedSpectra, sourceKey]
+  );
+
+  useEffect(() => {
+    if (visible) {
+      setSourceKey(selectedSpectra.length === 1 ? spectrumKey(selectedSpectra[0]) : null);
+      setOperation('savitzky-golay');
+      setWindowSize(DEFAULT_WINDOW);
+      setOrder(DEFAULT_ORDER);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const handleApply = () => {
+    if (!source) return;
+    const processing = toProcessing(operation, windowSize, order);
+    const error = processingError(processing, source.spectrum);
+    if (error) {
+      Alert.alert('Invalid parameters', error);
+      return;
+    }
+    const derived = deriveSelectedSpectrum(source, processing);
+    if (!derived) {
+      Alert.alert('Processing failed', `Could not apply ${processingLabel(processing)} to this spectrum.`);
+      return;
+    }
+    onSpectrumDerived(derived);
+    onClose();
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.card, { backgroundColor: cardBg, borderColor }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: borderColor }]}>
+            <ThemedText type="subtitle" style={styles.title}>
+              Smoothing and Derivatives
+            </ThemedText>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={20} color={textColor} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={{ paddingBottom: 16 }}>
+            <ThemedText style={styles.desc}>
+              Smooth a noisy spectrum or take its derivative to resolve overlapping bands. The result is
+              added to the selected spectra.
+            </ThemedText>
+
+            {/* Spectrum selection */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Spectrum</ThemedText>
+              {selectedSpectra.length === 0 ? (
+                <ThemedText style={styles.muted}>
+                  No spectra selected. Add spectra to the chart first.
+                </ThemedText>
+              ) : (
+                <View style={styles.optionList}>
+                  {selectedSpectra.map(s => {
+                    const key = spectrumKey(s);
+                    return (
+                      <Pressable
+                        key={key}
+                        style={[
+                          styles.optionRow,
+                          { borderColor },
+                          sourceKey === key && {
+                            borderColor: tintColor,
+                            backgroundColor: 'rgba(128,128,128,0.12)',
+                          },
+                        ]}
+                        onPress={() => setSourceKey(key)}
+                      >
+                        <ThemedText style={styles.optionLabel} numberOfLines={1}>
+                          {s.compound.name} ({s.type === 'absorption' ? 'Abs' : 'Em'})
+                        </ThemedText>
+                        {sourceKey === key && <Ionicons name="checkmark-circle" size={20} color={tintColor} />}
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            {source && (
+              <>
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>Operation</ThemedText>
+                  <View style={styles.typeRow}>
+                    {OPERATIONS.map(o => (
+                      <Pressable
+                        key={o.id}
+                        style={[
+                          styles.typeChip,
+                          { borderColor },
+                          operation === o.id && { backgroundColor: tintColor, borderColor: tintColor },
+                        ]}
+                        onPress={() => setOperation(o.id)}
+                      >
+                        <ThemedText
+                          style={[styles.typeChipText, operation === o.id && { color: primaryButtonTextColor }]}
+                        >
+                          {o.label}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+
+                  <ParamInput
+                    label="Window (points, odd)"
+                    value={windowSize}
+                    onChange={setWindowSize}
+                    borderColor={borderColor}
+                    textColor={textColor}
+                    placeholderTextColor={iconColor}
+                    inputBg={inputBg}
+                  />
+                  {operation !== 'moving-average' && (
+                    <ParamInput
+                      label="Polynomial order"
+                      value={order}
+                      onChange={setOrder}
+                      borderColor={borderColor}
+                      textColor={textColor}
+                      placeholderTextColor={iconColor}
+                      inputBg={inputBg}
+                    />
+                  )}
+                </View>
+
+                <View style={styles.actionsRow}>
+                  <Pressable style={[styles.primaryButton, { backgroundColor: tintColor }]} onPress={handleApply}>
+                    <ThemedText style={[styles.primaryButtonText, { color: primaryButtonTextColor }]}>
+                      Add spectrum
+                    </ThemedText>
+                  </Pressable>
+                  <Pressable style={[styles.secondaryButton, { borderColor: tintColor }]} onPress={onClose}>
+                    <ThemedText style={[styles.secondaryButtonText, { color: tintColor }]}>Close</ThemedText>
+                  </Pressable>
+                </View>
+
+                <ThemedText style={styles.footnote}>
+                  * Spectra are first resampled to even spacing at their typical point spacing; the window
+                  counts points of that grid. Derivatives are per nm (per nm² for the second).
+                </ThemedText>
+              </>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function ParamInput({
+  label,
+  value,
+  onChange,
+  borderColor,
+  textColor,
+  placeholderTextColor,
+  inputBg,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  borderColor: string;
+  textColor: string;
+  placeholderTextColor: string;
+  inputBg: string | undefined;
+}) {
+  return (
+    <View style={styles.paramRow}>
+      <ThemedText style={styles.paramLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, { borderColor, color: textColor, backgroundColor: inputBg }]}
+        placeholderTextColor={placeholderTextColor}
+        keyboardType="numeric"
+        value={String(value)}
+        onChangeText={t => onChange(parseInt(t, 10) || 0)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  desc: { fontSize: 13, opacity: 0.8, marginBottom: 12 },
+  body: { paddingHorizontal: 16, paddingTop: 12 },
+  section: { marginTop: 16 },
+  sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
+  muted: { fontSize: 13, opacity: 0.7 },
+  optionList: { flexDirection: 'column', gap: 8 },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  optionLabel: { fontSize: 14, flex: 1 },
+  typeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  typeChipText: { fontSize: 13, fontWeight: '600' },
+  paramRow: { marginBottom: 10 },
+  paramLabel: { fontSize: 13, opacity: 0.85, marginBottom: 4 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 16 },
+  primaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: { fontSize: 14, fontWeight: '600' },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+  secondaryButtonText: { fontSize: 14, fontWeight: '500' },
+  footnote: { fontSize: 12, opacity: 0.7, marginTop: 12 },
+});
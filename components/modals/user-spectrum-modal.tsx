@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useColorScheme } from '../../hooks/use-color-scheme';
+import { useThemeColor } from '../../hooks/use-theme-color';
+import { confirmDelete } from '../../lib/confirm';
+import {
+  Compound,
+  createUserCompound,
+  deleteUserCompound,
+  getAbsorptionData,
+  getEmissionData,
+  updateUserCompound,
+  type UserCompoundInput,
+} from '../../lib/database';
+import { parseSpectrumText } from '../../lib/spectrum-import';
+import { ThemedText } from '../themed-text';
+
+interface UserSpectrumModalProps {
+  visible: boolean;
+  /** Compound to edit; null creates a new one. */
+  compound: Compound | null;
+  onClose: () => void;
+  onSaved: (compound: Compound) => void;
+  onDeleted: (compoundId: string) => void;
+}
+
+interface FormState {
+  name: string;
+  absorptionSolvent: string;
+  absorptionWavelength: string;
+  absorptionEpsilon: string;
+  emissionSolvent: string;
+  emissionWavelength: string;
+  quantumYield: string;
+  absorptionText: string;
+  emissionText: string;
+}
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  absorptionSolvent: '',
+  absorptionWavelength: '',
+  absorptionEpsilon: '',
+  emissionSolvent: '',
+  emissionWavelength: '',
+  quantumYield: '',
+  absorptionText: '',
+  emissionText: '',
+};
+
+const SPECTRUM_PLACEHOLDER = 'wavelength (nm)  value\n400  0.012\n402  0.015\n...';
+
+function toText(points: { wavelength: number; value: number }[]): string {
+  return points.map(p => `${p.wavelength}\t${p.value}`).join('\n');
+}
+
+function optionalText(text: string): string | null {
+  return text.trim() === '' ? null : text.trim();
+}
+
+function optionalNumber(text: string): number | null {
+  const n = parseFloat(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function UserSpectrumModal({ visible, compound, onClose, onSaved, onDeleted }: UserSpectrumModalProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const isDark = colorScheme === 'dark';
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  const borderColor = isDark ? 'rgba(255,255,255,0.25)' : 'rgba(128,128,128,0.35)';
+  const tintColor = useThemeColor({}, 'tint');
+  const primaryButtonTextColor = isDark ? '#11181C' : '#ffffff';
+  const inputBg = isDark ? 'rgba(255,255,255,0.06)' : undefined;
+  const cardBg = useThemeColor({}, 'background');
+
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (!compound) {
+      setForm(EMPTY_FORM);
+      return;
+    }
+    setForm({
+      ...EMPTY_FORM,
+      name: compound.name,
+      absorptionSolvent: compound.absorption_solvent ?? '',
+      absorptionWavelength: compound.absorption_wavelength ?? '',
+      absorptionEpsilon: compound.absorption_epsilon ?? '',
+      emissionSolvent: compound.emission_solvent ?? '',
+      emissionWavelength: compound.emission_wavelength ?? '',
+      quantumYield: compound.emission_quantum_yield != null ? String(compound.emission_quantum_yield) : '',
+    });
+    setIsLoading(true);
+    Promise.all([getAbsorptionData(compound.id), getEmissionData(compound.id)])
+      .then(([abs, em]) => {
+        setForm(prev => ({
+          ...prev,
+          absorptionText: toText(abs.map(p => ({ wavelength: p.wavelength, value: p.coefficient }))),
+          emissionText: toText(em.map(p => ({ wavelength: p.wavelength, value: p.normalized }))),
+        }));
+      })
+      .catch(error => console.error('Error loading user spectra:', error))
+      .finally(() => setIsLoading(false));
+  }, [visible, compound]);
+
+  const update = (key: keyof FormState, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      Alert.alert('Name required', 'Enter a name for this compound.');
+      return;
+    }
+    const absorption = parseSpectrumText(form.absorptionText, 'absorption');
+    const emission = parseSpectrumText(form.emissionText, 'emission');
+    if (absorption.length < 2 && emission.length < 2) {
+      Alert.alert(
+        'No spectrum data',
+        'Paste an absorption or emission spectrum with at least two "wavelength value" lines.'
+      );
+      return;
+    }
+
+    const input: UserCompoundInput = {
+      name: form.name.trim(),
+      absorption_solvent: optionalText(form.absorptionSolvent),
+      absorption_wavelength: optionalText(form.absorptionWavelength),
+      absorption_epsilon: optionalText(form.absorptionEpsilon),
+      emission_solvent: optionalText(form.emissionSolvent),
+      emission_wavelength: optionalText(form.emissionWavelength),
+      emission_quantum_yield: optionalNumber(form.quantumYield),
+    };
+    const spectra = {
+      absorption: absorption.length >= 2
+        ? absorption.map(p => ({ wavelength: p.wavelength, coefficient: p.coefficient ?? 0 }))
+        : [],
+      emission: emission.length >= 2
+        ? emission.map(p => ({ wavelength: p.wavelength, normalized: p.normalized ?? 0 }))
+        : [],
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = compound
+        ? await updateUserCompound(compound.id, input, spectra)
+        : await createUserCompound(input, spectra);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving user compound:', error);
+      Alert.alert('Save failed', 'The spectrum could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!compound) return;
+    if (!(await confirmDelete('Delete spectrum', `Remove "${compound.name}" from your library?`))) return;
+    try {
+      await deleteUserCompound(compound.id);
+      onDeleted(compound.id);
+    } catch (error) {
+      console.error('Error deleting user compound:', error);
+    }
+  };
+
+  const renderInput = (label: string, key: keyof FormState, numeric: boolean = false) => (
+    <View style={styles.paramRow}>
+      <ThemedText style={styles.paramLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, { borderColor, color: textColor, backgroundColor: inputBg }]}
+        placeholderTextColor={iconColor}
+        keyboardType={numeric ? 'numeric' : 'default'}
+        value={form[key]}
+        onChangeText={t => update(key, t)}
+      />
+    </View>
+  );
+
+  const renderSpectrumInput = (label: string, key: 'absorptionText' | 'emissionText') => (
+    <View style={styles.paramRow}>
+      <ThemedText style={styles.paramLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, styles.pasteInput, { borderColor, color: textColor, backgroundColor: inputBg }]}
+        placeholder={SPECTRUM_PLACEHOLDER}
+        placeholderTextColor={iconColor}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        value={form[key]}
+        onChangeText={t => update(key, t)}
+      />
+    </View>
+  );
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.card, { backgroundColor: cardBg, borderColor }]} onPress={() => {}}>
+          <View style={[styles.header, { borderBottomColor: borderColor }]}>
+            <ThemedText type="subtitle" style={styles.title}>
+              {compound ? 'Edit My Spectrum' : 'New My Spectrum'}
+            </ThemedText>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={20} color={textColor} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={{ paddingBottom: 16 }}>
+            <ThemedText style={styles.desc}>
+              Save a measured spectrum to use it in the chart and every calculation module.
+            </ThemedText>
+
+            {renderInput('Name', 'name')}
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Absorption</ThemedText>
+              {renderInput('Solvent', 'absorptionSolvent')}
+              {renderInput('λmax (nm)', 'absorptionWavelength', true)}
+              {renderInput('ε at λmax (M⁻¹cm⁻¹)', 'absorptionEpsilon', true)}
+              {isLoading ? (
+                <ActivityIndicator size="small" color={tintColor} />
+              ) : (
+                renderSpectrumInput('Spectrum (wavelength, absorbance or ε)', 'absorptionText')
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Emission</ThemedText>
+              {renderInput('Solvent', 'emissionSolvent')}
+              {renderInput('λmax (nm)', 'emissionWavelength', true)}
+              {renderInput('Quantum yield Φf (0–1)', 'quantumYield', true)}
+              {isLoading ? (
+                <ActivityIndicator size="small" color={tintColor} />
+              ) : (
+                renderSpectrumInput('Spectrum (wavelength, intensity)', 'emissionText')
+              )}
+            </View>
+
+            <View style={styles.actionsRow}>
+              <Pressable
+                style={[styles.primaryButton, { backgroundColor: tintColor }]}
+                onPress={handleSave}
+                disabled={isSaving || isLoading}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color={primaryButtonTextColor} />
+                ) : (
+                  <ThemedText style={[styles.primaryButtonText, { color: primaryButtonTextColor }]}>Save</ThemedText>
+                )}
+              </Pressable>
+              <Pressable style={[styles.secondaryButton, { borderColor: tintColor }]} onPress={onClose}>
+                <ThemedText style={[styles.secondaryButtonText, { color: tintColor }]}>Cancel</ThemedText>
+              </Pressable>
+            </View>
+
+            {compound && (
+              <Pressable style={styles.deleteButton} onPress={handleDelete}>
+                <ThemedText style={styles.deleteText}>Delete from My spectra</ThemedText>
+              </Pressable>
+            )}
+
+            <ThemedText style={styles.footnote}>
+              * One point per line: wavelength in nm, then the value, separated by tabs, spaces, commas or semicolons.
+            </ThemedText>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  desc: { fontSize: 13, opacity: 0.8, marginBottom: 12 },
+  body: { paddingHorizontal: 16, paddingTop: 12 },
+  section: { marginTop: 16 },
+  sectionTitle: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
+  paramRow: { marginBottom: 10 },
+  paramLabel: { fontSize: 13, opacity: 0.85, marginBottom: 4 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  pasteInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 16 },
+  primaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: { fontSize: 14, fontWeight: '600' },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+  secondaryButtonText: { fontSize: 14, fontWeight: '500' },
+  deleteButton: { alignSelf: 'center', paddingVertical: 10, marginTop: 8 },
+  deleteText: { fontSize: 13, color: '#ef4444', fontWeight: '600' },
+  footnote: { fontSize: 12, opacity: 0.7, marginTop: 12 },
+});
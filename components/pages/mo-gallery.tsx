@@ -0,0 +1,301 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Image } from 'expo-image';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useThemeColor } from '../../hooks/use-theme-color';
+import { CompoundListItem, getCompoundsForMoImage } from '../../lib/database';
+import { getMoImage, getMoImageSets, MO_IMAGE_SET_LABELS, MoImageEntry, searchMoImages } from '../../lib/mo-images';
+import { ThemedText } from '../themed-text';
+
+/** Images shown side by side in the comparison panel. */
+const MAX_COMPARE = 3;
+const GRID_COLUMNS = 3;
+
+export function MoGallery() {
+  const params = useLocalSearchParams<{ image?: string }>();
+  const backgroundColor = useThemeColor({}, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+
+  const [query, setQuery] = useState('');
+  const [activeSet, setActiveSet] = useState<string | null>(null);
+  const [compareKeys, setCompareKeys] = useState<string[]>(() =>
+    params.image && getMoImage(params.image) ? [params.image] : []
+  );
+  const [linkedCompounds, setLinkedCompounds] = useState<Record<string, CompoundListItem[]>>({});
+
+  const sets = useMemo(() => getMoImageSets(), []);
+  const images = useMemo(() => searchMoImages(query, activeSet), [query, activeSet]);
+  const compared = compareKeys.map(getMoImage).filter((image): image is MoImageEntry => image != null);
+
+  // Linked compounds are looked up once per base ID
+  useEffect(() => {
+    const baseIds = compareKeys.map(key => getMoImage(key)?.baseId).filter((id): id is string => id != null);
+    const missing = Array.from(new Set(baseIds)).filter(id => !(id in linkedCompounds));
+    if (missing.length === 0) return;
+    Promise.all(missing.map(async id => [id, await getCompoundsForMoImage(id)] as const))
+      .then(entries => setLinkedCompounds(prev => ({ ...prev, ...Object.fromEntries(entries) })))
+      .catch(error => console.error('Error loading compounds for orbital images:', error));
+  }, [compareKeys, linkedCompounds]);
+
+  const toggleCompare = (key: string) => {
+    if (compareKeys.includes(key)) {
+      setCompareKeys(prev => prev.filter(k => k !== key));
+      return;
+    }
+    if (compareKeys.length >= MAX_COMPARE) {
+      Alert.alert('Compare', `Up to ${MAX_COMPARE} images can be compared. Remove one first.`);
+      return;
+    }
+    setCompareKeys(prev => [...prev, key]);
+  };
+
+  const renderImage = ({ item }: { item: MoImageEntry }) => {
+    const isCompared = compareKeys.includes(item.key);
+    return (
+      <TouchableOpacity
+        style={[styles.gridItem, { borderColor: isCompared ? '#3b82f6' : 'rgba(128, 128, 128, 0.3)' }]}
+        onPress={() => toggleCompare(item.key)}
+        activeOpacity={0.8}
+      >
+        <Image source={item.source} style={styles.gridImage} contentFit="contain" />
+        <ThemedText style={styles.gridName} numberOfLines={1}>{item.name}</ThemedText>
+        <ThemedText style={[styles.gridSet, { color: iconColor }]} numberOfLines={1}>
+          {MO_IMAGE_SET_LABELS[item.set] ?? item.set}
+        </ThemedText>
+        {isCompared && (
+          <View style={styles.compareBadge}>
+            <Ionicons name="checkmark" size={12} color="#fff" />
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const header = (
+    <View>
+      <View style={styles.section}>
+        <TextInput
+          style={[styles.searchInput, { borderColor: iconColor, color: textColor }]}
+          placeholder="Search orbital images, e.g. B-169, ZnC E3, BChl"
+          placeholderTextColor={iconColor}
+          value={query}
+          onChangeText={setQuery}
+        />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {[{ set: null, label: 'All', count: sets.reduce((n, s) => n + s.count, 0) }, ...sets].map(s => {
+            const isActive = activeSet === s.set;
+            return (
+              <TouchableOpacity key={s.set ?? 'all'} onPress={() => setActiveSet(s.set)}>
+                <View style={[styles.chip, isActive && styles.chipActive]}>
+                  <ThemedText style={[styles.chipLabel, isActive && styles.chipLabelActive]}>
+                    {s.label} ({s.count})
+                  </ThemedText>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Compare ({compared.length}/{MAX_COMPARE})
+          </ThemedText>
+          {compared.length > 0 && (
+            <TouchableOpacity onPress={() => setCompareKeys([])} hitSlop={8}>
+              <ThemedText style={styles.linkText}>Clear</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+        {compared.length === 0 ? (
+          <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+            Tap images below to compare them side by side.
+          </ThemedText>
+        ) : (
+          <View style={styles.compareRow}>
+            {compared.map(image => {
+              const compounds = linkedCompounds[image.baseId];
+              return (
+                <View key={image.key} style={styles.compareItem}>
+                  <Image source={image.source} style={styles.compareImage} contentFit="contain" />
+                  <View style={styles.compareTitleRow}>
+                    <ThemedText style={styles.compareName} numberOfLines={1}>{image.name}</ThemedText>
+                    <TouchableOpacity onPress={() => toggleCompare(image.key)} hitSlop={8}>
+                      <Ionicons name="close" size={16} color={iconColor} />
+                    </TouchableOpacity>
+                  </View>
+                  <ThemedText style={[styles.compareMeta, { color: iconColor }]} numberOfLines={1}>
+                    {MO_IMAGE_SET_LABELS[image.set] ?? image.set}
+                    {image.variant ? ` · ${image.variant} variant of ${image.baseId}` : ''}
+                  </ThemedText>
+                  {compounds && compounds.length > 0 && (
+                    <ThemedText style={styles.compareMeta} numberOfLines={2}>
+                      {compounds.map(c => `${c.name} (${c.id})`).join(', ')}
+                    </ThemedText>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </View>
+
+      <ThemedText style={[styles.resultCount, { color: iconColor }]}>
+        {images.length} {images.length === 1 ? 'image' : 'images'}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]} edges={['bottom']}>
+      <FlatList
+        data={images}
+        keyExtractor={item => item.key}
+        renderItem={renderImage}
+        numColumns={GRID_COLUMNS}
+        columnWrapperStyle={styles.gridRow}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          <ThemedText style={[styles.emptyText, { color: iconColor }]}>No orbital images match.</ThemedText>
+        }
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        extraData={compareKeys}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: 'transparent',
+  },
+  chips: {
+    gap: 6,
+    paddingTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipLabel: {
+    fontSize: 12,
+    color: '#333',
+  },
+  chipLabelActive: {
+    color: '#fff',
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
+  compareRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compareItem: {
+    flex: 1,
+    minWidth: 0,
+  },
+  compareImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  compareTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    gap: 4,
+  },
+  compareName: {
+    fontSize: 13,
+    fontWeight: '600',
+    flex: 1,
+  },
+  compareMeta: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  resultCount: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  gridRow: {
+    gap: 8,
+  },
+  gridItem: {
+    flex: 1 / GRID_COLUMNS,
+    marginBottom: 8,
+    padding: 4,
+    borderWidth: 1,
+    borderRadius: 6,
+  },
+  gridImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 4,
+    backgroundColor: '#f5f5f5',
+  },
+  gridName: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  gridSet: {
+    fontSize: 10,
+  },
+  compareBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -1,20 +1,36 @@
 import Ionicons from '@expo/vector-icons/Ionicons';
+import { useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
 import { ActivityIndicator, FlatList, Modal, Pressable, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useThemeColor } from '../../hooks/use-theme-color';
-import { Compound, getAbsorptionData, getEmissionData } from '../../lib/database';
+import { CollectionRef } from '../../lib/compound-filter';
+import { confirmDelete } from '../../lib/confirm';
+import {
+  Compound,
+  CompoundCollection,
+  deleteCollection,
+  getCollectionCompounds,
+  getCollections,
+  getFavoriteIds,
+  getSpectrum,
+} from '../../lib/database';
 import { DistributionParams, SelectedSpectrum } from '../../lib/types';
 import { BrandFooter } from '../brand/brand-footer';
 import { BrandHeader } from '../brand/brand-header';
+import { CitationExportButton } from '../citation-export-button';
 import { CompoundComparisonTable } from '../compound-comparison-table';
 import { DatabaseBrowser } from '../database-browser';
+import { BaselineCorrectionModal } from '../modals/baseline-correction-modal';
 import { DistributionModal } from '../modals/distribution-modal';
 import { EnergyTransferModal } from '../modals/energy-transfer-modal';
 import { ForsterEnergyTransferModal } from '../modals/forster-energy-transfer-modal';
 import { MultipleComponentAnalysisModal } from '../modals/multiple-component-analysis-modal';
 import { NaturalRadiativeLifetimeModal } from '../modals/natural-radiative-lifetime-modal';
 import { OscillatorStrengthCalculatorModal } from '../modals/osci-strength-calculator-modal';
+import { SimilaritySearchModal } from '../modals/similarity-search-modal';
+import { SpectrumProcessingModal } from '../modals/spectrum-processing-modal';
+import { PeakTable } from '../peak-table';
 import { SpectrumChart } from '../spectrum-chart';
 import { ThemedText } from '../themed-text';
 import { ThemedView } from '../themed-view';
@@ -25,7 +41,10 @@ type CalculationModuleId =
   | 'forster-energy-transfer'
   | 'energy-transfer-simulation'
   | 'natural-radiative-lifetime'
-  | 'multiple-component-analysis';
+  | 'multiple-component-analysis'
+  | 'spectral-similarity'
+  | 'spectrum-processing'
+  | 'baseline-correction';
 
 const CALCULATION_MODULES: { id: CalculationModuleId; title: string }[] = [
   { id: 'oscillator-strength', title: 'Oscillator Strength Calculator' },
@@ -33,9 +52,13 @@ const CALCULATION_MODULES: { id: CalculationModuleId; title: string }[] = [
   { id: 'energy-transfer-simulation', title: 'Energy Transfer Simulation' },
   { id: 'natural-radiative-lifetime', title: 'Natural Radiative Lifetime Calculator' },
   { id: 'multiple-component-analysis', title: 'Multiple Component Analysis' },
+  { id: 'spectral-similarity', title: 'Spectral Similarity Search' },
+  { id: 'spectrum-processing', title: 'Smoothing and Derivatives' },
+  { id: 'baseline-correction', title: 'Baseline Correction' },
 ];
 
 export function SpectrumDashboard() {
+  const router = useRouter();
   const [selectedSpectra, setSelectedSpectra] = useState<SelectedSpectrum[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const backgroundColor = useThemeColor({}, 'background');
@@ -47,6 +70,13 @@ export function SpectrumDashboard() {
   const [activeModuleId, setActiveModuleId] = useState<CalculationModuleId | null>(null);
   const [isDistributionModalOpen, setIsDistributionModalOpen] = useState(false);
   const [distributions, setDistributions] = useState<DistributionParams[]>([]);
+  const [isCollectionPickerOpen, setIsCollectionPickerOpen] = useState(false);
+  const [collections, setCollections] = useState<CompoundCollection[]>([]);
+  const [favoriteCount, setFavoriteCount] = useState(0);
+  const [annotationsVersion, setAnnotationsVersion] = useState(0);
+
+  // Spectra as loaded, without smoothed or derivative copies (citations, compound table)
+  const sourceSpectra = useMemo(() => selectedSpectra.filter(s => !s.processing), [selectedSpectra]);
 
   const activeModule = useMemo(
     () => (activeModuleId ? CALCULATION_MODULES.find(m => m.id === activeModuleId) ?? null : null),
@@ -66,29 +96,12 @@ export function SpectrumDashboard() {
     console.log('Adding spectrum:', spectrum.compound.name, spectrum.type);
     setIsLoading(true);
     try {
-      // Fetch spectrum data
-      let data;
-      if (spectrum.type === 'absorption') {
-        data = await getAbsorptionData(spectrum.compound.id);
-        console.log('Absorption data fetched:', data?.length, 'points');
-      } else {
-        data = await getEmissionData(spectrum.compound.id);
-        console.log('Emission data fetched:', data?.length, 'points');
-      }
-
-      if (data && data.length > 0) {
-        // Transform data to match SpectrumData interface
-        const spectrumData = data.map((point: any) => ({
-          compound_id: point.compound_id,
-          wavelength: point.wavelength,
-          coefficient: 'coefficient' in point ? point.coefficient : undefined,
-          normalized: 'normalized' in point ? point.normalized : undefined,
-        }));
-
+      const packed = await getSpectrum(spectrum.compound.id, spectrum.type);
+      if (packed && packed.wavelengths.length > 0) {
         const newSpectrum = {
           compound: spectrum.compound,
           type: spectrum.type,
-          data: spectrumData,
+          spectrum: packed,
         };
 
         setSelectedSpectra(prev => {
@@ -106,6 +119,54 @@ export function SpectrumDashboard() {
     }
   };
 
+  // Smoothed, derivative and baseline-corrected spectra; applying the same operation twice replaces the earlier result
+  const handleSpectrumDerived = (derived: SelectedSpectrum) => {
+    setSelectedSpectra(prev => [
+      ...prev.filter(s => !(s.compound.id === derived.compound.id && s.type === derived.type)),
+      derived,
+    ]);
+  };
+
+  const refreshCollections = async () => {
+    try {
+      const [favorites, named] = await Promise.all([getFavoriteIds(), getCollections()]);
+      setFavoriteCount(favorites.length);
+      setCollections(named);
+    } catch (error) {
+      console.error('Error loading collections:', error);
+    }
+  };
+
+  const openCollectionPicker = () => {
+    setIsCollectionPickerOpen(true);
+    refreshCollections();
+  };
+
+  // Adds every available absorption and emission spectrum of the collection's compounds
+  const handleCollectionLoad = async (collection: CollectionRef) => {
+    setIsCollectionPickerOpen(false);
+    try {
+      const compounds = await getCollectionCompounds(collection);
+      for (const compound of compounds) {
+        if (compound.has_absorption_data === '1') await handleSpectrumAdd({ compound, type: 'absorption' });
+        if (compound.has_emission_data === '1') await handleSpectrumAdd({ compound, type: 'emission' });
+      }
+    } catch (error) {
+      console.error('Error loading collection:', error);
+    }
+  };
+
+  const handleCollectionDelete = async (collection: CompoundCollection) => {
+    const message = `Delete "${collection.name}"? Its compounds stay in the database.`;
+    if (!(await confirmDelete('Delete collection', message))) return;
+    try {
+      await deleteCollection(collection.id);
+      refreshCollections();
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+    }
+  };
+
   const handleSpectrumRemove = (compoundId: string, type: 'absorption' | 'emission') => {
     setSelectedSpectra(prev =>
       prev.filter(
@@ -149,6 +210,7 @@ export function SpectrumDashboard() {
             onSpectrumAdd={handleSpectrumAdd}
             onSpectrumRemove={handleSpectrumRemove}
             selectedSpectra={selectedSpectra}
+            onAnnotationsChange={() => setAnnotationsVersion(v => v + 1)}
           />
         </View>
       );
@@ -157,9 +219,18 @@ export function SpectrumDashboard() {
     if (item.type === 'selected') {
       return (
         <View style={styles.selectedContainer}>
-          <ThemedText type="subtitle" style={styles.selectedTitle}>
-            Selected Spectra ({selectedSpectra.length}) 
-          </ThemedText>
+          <View style={styles.selectedHeader}>
+            <ThemedText type="subtitle" style={styles.selectedTitle}>
+              Selected Spectra ({selectedSpectra.length}) 
+            </ThemedText>
+            <View style={styles.selectedActions}>
+              {sourceSpectra.length > 0 && <CitationExportButton spectra={sourceSpectra} />}
+              <TouchableOpacity activeOpacity={0.8} onPress={openCollectionPicker} style={styles.loadCollectionButton}>
+                <Ionicons name="albums-outline" size={16} color={textColor} />
+                <ThemedText style={styles.loadCollectionText}>Load collection</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
           {selectedSpectra.length === 0 ? (
             <ThemedText style={styles.emptySelectedText}>
               No spectra selected. Click Abs or Em buttons to add spectra.
@@ -205,6 +276,15 @@ export function SpectrumDashboard() {
               </ThemedText>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPress={() => router.push('/orbitals')}
+              style={styles.manageButton}
+            >
+              <Ionicons name="images-outline" size={18} color={textColor} />
+              <ThemedText style={styles.manageButtonText}>Orbitals</ThemedText>
+            </TouchableOpacity>
+
             <TouchableOpacity
               activeOpacity={0.8}
               onPress={() => setIsModulePickerOpen(true)}
@@ -220,7 +300,7 @@ export function SpectrumDashboard() {
 
     if (item.type === 'chart') {
       const uniqueCompounds = Array.from(
-        new Map(selectedSpectra.map((s) => [s.compound.id, s.compound])).values()
+        new Map(sourceSpectra.map((s) => [s.compound.id, s.compound])).values()
       );
       return (
         <View style={styles.chartContainer}>
@@ -234,7 +314,8 @@ export function SpectrumDashboard() {
             isLoading={isLoading}
             distributions={distributions}
           />
-          <CompoundComparisonTable compounds={uniqueCompounds} />
+          <PeakTable spectra={selectedSpectra} />
+          <CompoundComparisonTable compounds={uniqueCompounds} annotationsVersion={annotationsVersion} />
         </View>
       );
     }
@@ -255,7 +336,7 @@ export function SpectrumDashboard() {
         style={{ backgroundColor }}
         scrollEnabled={true}
         removeClippedSubviews={false}
-        extraData={[selectedSpectra.length, distributions.length]}
+        extraData={[selectedSpectra.length, distributions.length, annotationsVersion]}
       />
 
       {/* Module picker (UI only) */}
@@ -288,6 +369,50 @@ export function SpectrumDashboard() {
         </Pressable>
       </Modal>
 
+      {/* Collection picker */}
+      <Modal
+        transparent
+        visible={isCollectionPickerOpen}
+        animationType="fade"
+        onRequestClose={() => setIsCollectionPickerOpen(false)}
+      >
+        <Pressable style={styles.modalBackdrop} onPress={() => setIsCollectionPickerOpen(false)}>
+          <Pressable style={[styles.pickerCard, { backgroundColor }]} onPress={() => {}}>
+            <ThemedText style={styles.pickerTitle}>Load collection</ThemedText>
+            <View style={styles.pickerList}>
+              <TouchableOpacity
+                activeOpacity={0.85}
+                style={styles.pickerItem}
+                disabled={favoriteCount === 0}
+                onPress={() => handleCollectionLoad('favorites')}
+              >
+                <ThemedText style={styles.pickerItemText}>★ Favorites ({favoriteCount})</ThemedText>
+                <Ionicons name="chevron-forward" size={18} color={iconColor} />
+              </TouchableOpacity>
+              {collections.map((c) => (
+                <TouchableOpacity
+                  key={c.id}
+                  activeOpacity={0.85}
+                  style={styles.pickerItem}
+                  onPress={() => handleCollectionLoad(c.id)}
+                >
+                  <ThemedText style={styles.pickerItemText}>{c.name} ({c.count})</ThemedText>
+                  <TouchableOpacity onPress={() => handleCollectionDelete(c)} hitSlop={8} style={styles.collectionDelete}>
+                    <Ionicons name="trash-outline" size={18} color={iconColor} />
+                  </TouchableOpacity>
+                  <Ionicons name="chevron-forward" size={18} color={iconColor} />
+                </TouchableOpacity>
+              ))}
+              {collections.length === 0 && (
+                <ThemedText style={styles.pickerEmptyText}>
+                  Create collections from a compound&apos;s details in the database browser.
+                </ThemedText>
+              )}
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       {/* Distribution modal */}
       <DistributionModal
         visible={isDistributionModalOpen}
@@ -330,6 +455,30 @@ export function SpectrumDashboard() {
         onClose={() => setActiveModuleId(null)}
         selectedSpectra={selectedSpectra}
       />
+
+      {/* Spectral Similarity Search modal */}
+      <SimilaritySearchModal
+        visible={activeModuleId === 'spectral-similarity'}
+        onClose={() => setActiveModuleId(null)}
+        selectedSpectra={selectedSpectra}
+        onSpectrumAdd={handleSpectrumAdd}
+      />
+
+      {/* Smoothing and derivatives modal */}
+      <SpectrumProcessingModal
+        visible={activeModuleId === 'spectrum-processing'}
+        onClose={() => setActiveModuleId(null)}
+        selectedSpectra={selectedSpectra}
+        onSpectrumDerived={handleSpectrumDerived}
+      />
+
+      {/* Baseline correction modal */}
+      <BaselineCorrectionModal
+        visible={activeModuleId === 'baseline-correction'}
+        onClose={() => setActiveModuleId(null)}
+        selectedSpectra={selectedSpectra}
+        onSpectrumDerived={handleSpectrumDerived}
+      />
     </SafeAreaView>
   );
 }
@@ -449,6 +598,15 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingRight: 12,
   },
+  collectionDelete: {
+    marginRight: 12,
+  },
+  pickerEmptyText: {
+    fontSize: 13,
+    opacity: 0.7,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
   moduleHeader: {
     paddingHorizontal: 12,
     paddingTop: 6,
@@ -495,11 +653,38 @@ const styles = StyleSheet.create({
     opacity: 0.85,
     lineHeight: 18,
   },
+  selectedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   selectedTitle: {
     marginBottom: 8,
     fontSize: 16,
     fontWeight: '600',
   },
+  selectedActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  loadCollectionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    height: 32,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.35)',
+    backgroundColor: 'rgba(128, 128, 128, 0.10)',
+  },
+  loadCollectionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   selectedList: {
     flexDirection: 'row',
     flexWrap: 'wrap',
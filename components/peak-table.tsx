@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { findPeaks, SpectralPeak } from '@/lib/peaks';
+import { SelectedSpectrum } from '@/lib/types';
+
+import { ThemedText } from './themed-text';
+import { ThemedView } from './themed-view';
+
+type Column = {
+  key: string;
+  label: string;
+  width: number;
+  getValue: (p: SpectralPeak) => string;
+};
+
+function fmtNumber(v: number | null, digits: number): string {
+  return v == null || !Number.isFinite(v) ? '—' : v.toFixed(digits);
+}
+
+// Prominence and area are in the spectrum's own units (ε or normalized intensity)
+function fmtSignificant(v: number | null): string {
+  if (v == null || !Number.isFinite(v)) return '—';
+  const abs = Math.abs(v);
+  return abs !== 0 && (abs >= 1e5 || abs < 0.01) ? v.toExponential(2) : v.toPrecision(3);
+}
+
+const COLUMNS: Column[] = [
+  { key: 'kind', label: 'Band', width: 80, getValue: (p) => (p.kind === 'maximum' ? 'Maximum' : 'Shoulder') },
+  { key: 'wavelength', label: 'λ (nm)', width: 80, getValue: (p) => fmtNumber(p.wavelength, 1) },
+  { key: 'fwhm-nm', label: 'FWHM (nm)', width: 90, getValue: (p) => fmtNumber(p.fwhmNm, 1) },
+  { key: 'fwhm-cm', label: 'FWHM (cm⁻¹)', width: 100, getValue: (p) => fmtNumber(p.fwhmWavenumber, 0) },
+  { key: 'prominence', label: 'Prominence', width: 100, getValue: (p) => fmtSignificant(p.prominence) },
+  { key: 'area', label: 'Area (·nm)', width: 100, getValue: (p) => fmtSignificant(p.area) },
+];
+
+/**
+ * Detected maxima and shoulders of each selected spectrum (lib/peaks.ts). Shoulders
+ * have no prominence or area of their own; their width is estimated from the
+ * second derivative.
+ */
+export function PeakTable({ spectra }: { spectra: SelectedSpectrum[] }) {
+  const borderColor = useThemeColor({}, 'icon');
+
+  const peaksBySpectrum = useMemo(
+    () => spectra.map((s) => ({ spectrum: s, peaks: findPeaks(s.spectrum) })),
+    [spectra]
+  );
+
+  if (spectra.length === 0) return null;
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedText style={styles.title}>Peaks</ThemedText>
+
+      {peaksBySpectrum.map(({ spectrum, peaks }) => (
+        <View key={`${spectrum.compound.id}-${spectrum.type}`} style={styles.section}>
+          <ThemedText style={styles.sectionTitle} numberOfLines={1}>
+            {spectrum.compound.name} ({spectrum.type === 'absorption' ? 'Abs' : 'Em'})
+          </ThemedText>
+          {peaks.length === 0 ? (
+            <ThemedText style={styles.muted}>No peaks found.</ThemedText>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator>
+              <View style={styles.table}>
+                <View style={[styles.row, styles.headerRow, { borderBottomColor: borderColor }]}>
+                  {COLUMNS.map((col) => (
+                    <View key={col.key} style={[styles.cell, { width: col.width }]}>
+                      <ThemedText style={styles.headerText}>{col.label}</ThemedText>
+                    </View>
+                  ))}
+                </View>
+                {peaks.map((p) => (
+                  <View
+                    key={`${p.kind}-${p.wavelength}`}
+                    style={[styles.row, { borderBottomColor: 'rgba(128,128,128,0.2)' }]}
+                  >
+                    {COLUMNS.map((col) => (
+                      <View key={col.key} style={[styles.cell, { width: col.width }]}>
+                        <ThemedText style={styles.cellText}>{col.getValue(p)}</ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+          )}
+        </View>
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 14,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(128,128,128,0.18)',
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  section: {
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  muted: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  table: {
+    flexDirection: 'column',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerRow: {
+    borderBottomWidth: 1,
+  },
+  cell: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '700',
+    opacity: 0.9,
+  },
+  cellText: {
+    fontSize: 12,
+    opacity: 0.9,
+  },
+});
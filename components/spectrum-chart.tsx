@@ -5,6 +5,15 @@ import { CartesianAxis, CartesianChart, Line, useChartPressState, type PointsArr
 import Mono from '../assets/fonts/Mono.ttf';
 import { useThemeColor } from '../hooks/use-theme-color';
 import { calculateDistribution } from '../lib/distributions';
+import { findPeaks } from '../lib/peaks';
+import {
+  AXIS_UNITS,
+  createSpectrum,
+  interpolateOnAxis,
+  SpectralAxis,
+  spectrumOnAxis,
+  valueRange,
+} from '../lib/spectrum';
 import { DistributionParams, SelectedSpectrum } from '../lib/types';
 
 interface SpectrumChartProps {
@@ -26,47 +35,20 @@ const COLORS = [
 
 const CHART_HEIGHT = 400;
 
-function interpDist(points: { wavelength: number; intensity: number }[], w: number): number {
-  if (points.length === 0) return 0;
-  const first = points[0].wavelength;
-  const last = points[points.length - 1].wavelength;
-  if (w < first || w > last) return 0;
-  if (points.length === 1) return points[0].intensity;
-  let lo = 0;
-  let hi = points.length - 1;
-  while (lo <= hi) {
-    const mid = (lo + hi) >> 1;
-    if (points[mid].wavelength === w) return points[mid].intensity;
-    if (points[mid].wavelength > w) hi = mid - 1;
-    else lo = mid + 1;
-  }
-  const M = points[hi];
-  const N = points[lo];
-  if (N.wavelength === M.wavelength) return M.intensity;
-  const t = (w - M.wavelength) / (N.wavelength - M.wavelength);
-  return M.intensity + t * (N.intensity - M.intensity);
-}
+const AXES: SpectralAxis[] = ['wavelength', 'wavenumber', 'energy'];
 
-/** Interpolate spectrum (w, v) at wavelength w. Returns 0 outside range. */
-function interpSpectrum(points: { w: number; v: number }[], wavelength: number): number {
-  if (points.length === 0) return 0;
-  const first = points[0].w;
-  const last = points[points.length - 1].w;
-  if (wavelength < first || wavelength > last) return 0;
-  if (points.length === 1) return points[0].v;
-  let lo = 0;
-  let hi = points.length - 1;
-  while (lo <= hi) {
-    const mid = (lo + hi) >> 1;
-    if (points[mid].w === wavelength) return points[mid].v;
-    if (points[mid].w > wavelength) hi = mid - 1;
-    else lo = mid + 1;
-  }
-  const M = points[hi];
-  const N = points[lo];
-  if (N.w === M.w) return M.v;
-  const t = (wavelength - M.w) / (N.w - M.w);
-  return M.v + t * (N.v - M.v);
+// Tooltip readout of the pressed x position
+const AXIS_READOUT: Record<SpectralAxis, { symbol: string; digits: number }> = {
+  wavelength: { symbol: 'λ', digits: 0 },
+  wavenumber: { symbol: 'ν', digits: 0 },
+  energy: { symbol: 'E', digits: 3 },
+};
+
+/** Min-max normalization of a value when the Normalize toggle supplies the spectrum's range. */
+function scaleToRange(range: { min: number; max: number } | null, value: number): number {
+  if (!range) return value;
+  if (range.max === range.min) return 0.5;
+  return (value - range.min) / (range.max - range.min);
 }
 
 /** Draws a dashed series using Skia Line segments (avoids Path+DashPathEffect so compound lines stay solid). */
@@ -91,6 +73,8 @@ function DistributionLine({ points, color }: { points: PointsArray; color: strin
 
 export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumChartProps) {
   const [isNormalized, setIsNormalized] = useState(false);
+  const [axis, setAxis] = useState<SpectralAxis>('wavelength');
+  const [showPeaks, setShowPeaks] = useState(false);
 
   const backgroundColor = useThemeColor({}, 'background');
   const textColor = useThemeColor({}, 'text');
@@ -99,111 +83,79 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
   const font = useFont(Mono, 12);
   const tooltipFont = useFont(Mono, 11);
 
-  const normalizeValue = (value: number, min: number, max: number): number => {
-    if (max === min) return 0.5;
-    return (value - min) / (max - min);
-  };
-
-  const chartData = useMemo(() => {
-    if (data.length === 0) return [];
+  // Emission is an intensity per unit of the axis and takes the Jacobian; ε is a value at each point
+  const series = useMemo(
+    () =>
+      data.map(({ compound, type, spectrum }) => {
+        const onAxis = spectrumOnAxis(spectrum, axis, type === 'emission');
+        return {
+          key: `${compound.id}-${type}`,
+          spectrum: onAxis,
+          range: isNormalized && onAxis.values.length > 0 ? valueRange(onAxis) : null,
+        };
+      }),
+    [data, axis, isNormalized]
+  );
 
-    const specKeys = data.map(({ compound, type }) => `${compound.id}-${type}`);
-    const allWavelengths = new Set<number>();
-    for (const s of data) {
-      for (const p of s.data) allWavelengths.add(p.wavelength);
-    }
+  // Found on the spectra as plotted: with the Jacobian, an emission band's maximum in cm⁻¹ or eV
+  // is not at the position of its nm maximum. findPeaks reads the axis x values as "wavelengths".
+  const peaks = useMemo(
+    () => (showPeaks ? series.map(({ spectrum }) => findPeaks({ wavelengths: spectrum.x, values: spectrum.values })) : []),
+    [series, showPeaks]
+  );
 
-    const spectrumValueByWL: Record<string, Map<number, number>> = {};
-    const spectrumRanges: Record<string, { min: number; max: number }> = {};
-
-    for (const { compound, type, data: spectrumData } of data) {
-      const key = `${compound.id}-${type}`;
-      const m = new Map<number, number>();
-      const values: number[] = [];
-      for (const p of spectrumData) {
-        const raw = type === 'absorption' ? p.coefficient : p.normalized;
-        if (raw === null || raw === undefined || Number.isNaN(raw)) continue;
-        m.set(p.wavelength, raw);
-        values.push(raw);
-      }
-      spectrumValueByWL[key] = m;
-      if (isNormalized && values.length > 0) {
-        spectrumRanges[key] = { min: Math.min(...values), max: Math.max(...values) };
+  const chartData = useMemo(() => {
+    if (series.length === 0) return [];
+
+    // y range of the spectra at their own points, for scaling distributions
+    let yMin = Infinity;
+    let yMax = -Infinity;
+    const allXs = new Set<number>();
+    for (const s of series) {
+      const { x, values } = s.spectrum;
+      for (let i = 0; i < x.length; i++) {
+        allXs.add(x[i]);
+        const y = scaleToRange(s.range, values[i]);
+        if (!Number.isFinite(y)) continue;
+        if (y < yMin) yMin = y;
+        if (y > yMax) yMax = y;
       }
     }
-
-    // Ordered (w, v) per spectrum for interpolation at distribution-added wavelengths
-    const spectrumOrdered: Record<string, { w: number; v: number }[]> = {};
-    for (const key of Object.keys(spectrumValueByWL)) {
-      spectrumOrdered[key] = Array.from(spectrumValueByWL[key].entries())
-        .map(([w, v]) => ({ w, v }))
-        .sort((a, b) => a.w - b.w);
-    }
-
-    // Build spectrum-only rows to get y range for scaling distributions
-    const specRows = Array.from(allWavelengths).sort((a, b) => a - b).map((wavelength) => {
-      const row: Record<string, number> = { wavelength };
-      for (const { compound, type } of data) {
-        const key = `${compound.id}-${type}`;
-        const v = spectrumValueByWL[key]?.get(wavelength);
-        if (v === undefined) continue;
-        if (isNormalized) {
-          const r = spectrumRanges[key];
-          row[key] = r ? normalizeValue(v, r.min, r.max) : v;
-        } else {
-          row[key] = v;
-        }
-      }
-      return row;
-    });
-
-    let specYVals: number[] = [];
-    for (const r of specRows) {
-      for (const k of specKeys) {
-        const v = r[k];
-        if (v != null && Number.isFinite(v)) specYVals.push(v);
-      }
+    if (yMin > yMax) {
+      yMin = 0;
+      yMax = 1;
     }
-    let yMin = specYVals.length > 0 ? Math.min(...specYVals) : 0;
-    let yMax = specYVals.length > 0 ? Math.max(...specYVals) : 1;
     if (yMax === yMin) {
       yMin -= 0.5;
       yMax += 0.5;
     }
 
-    // Add distribution wavelengths and compute scaled intensities
-    const distPoints: { wavelength: number; intensity: number }[][] = [];
-    for (const p of distributions) {
-      const pts = calculateDistribution(p);
-      distPoints.push(pts);
-      for (const pt of pts) allWavelengths.add(pt.wavelength);
+    // Add distribution x values; distributions are irradiances (per unit of the axis),
+    // rescaled to a peak of 1 on the axis and then to the spectra's y range
+    const distSpectra = distributions.map(p => {
+      const points = calculateDistribution(p).map(pt => ({ wavelength: pt.wavelength, value: pt.intensity }));
+      const onAxis = spectrumOnAxis(createSpectrum(points), axis, true);
+      const { max } = valueRange(onAxis);
+      return { spectrum: onAxis, peak: max > 0 ? max : 1 };
+    });
+    for (const d of distSpectra) {
+      for (const x of d.spectrum.x) allXs.add(x);
     }
 
-    const sortedWavelengths = Array.from(allWavelengths).sort((a, b) => a - b);
-
-    return sortedWavelengths.map((wavelength) => {
-      const row: Record<string, any> = { wavelength };
-
-      for (const { compound, type } of data) {
-        const key = `${compound.id}-${type}`;
-        let v = spectrumValueByWL[key]?.get(wavelength);
-        if (v === undefined) v = interpSpectrum(spectrumOrdered[key] ?? [], wavelength);
-        if (isNormalized) {
-          const r = spectrumRanges[key];
-          row[key] = r ? normalizeValue(v, r.min, r.max) : v;
-        } else {
-          row[key] = v;
-        }
-      }
+    const sortedXs = Array.from(allXs).sort((a, b) => a - b);
 
-      for (let i = 0; i < distPoints.length; i++) {
-        const intensity = interpDist(distPoints[i], wavelength);
-        row[`dist-${i}`] = yMin + intensity * (yMax - yMin);
+    return sortedXs.map((x) => {
+      const row: Record<string, any> = { x };
+      for (const s of series) {
+        row[s.key] = scaleToRange(s.range, interpolateOnAxis(s.spectrum, x));
+      }
+      for (let i = 0; i < distSpectra.length; i++) {
+        const { spectrum, peak } = distSpectra[i];
+        row[`dist-${i}`] = yMin + (interpolateOnAxis(spectrum, x) / peak) * (yMax - yMin);
       }
-
       return row;
     });
-  }, [data, isNormalized, distributions]);
+  }, [series, distributions, axis]);
 
   const yKeys = useMemo(
     () => [
@@ -227,7 +179,7 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
   const domain = useMemo(() => {
     if (validData.length === 0) return undefined;
 
-    const allXValues = validData.map((p) => p.wavelength).filter(Number.isFinite);
+    const allXValues = validData.map((p) => p.x).filter(Number.isFinite);
     const allYValues = validData.flatMap((p) =>
       yKeys.map((k) => p[k]).filter((v) => v !== null && v !== undefined && Number.isFinite(v)),
     );
@@ -263,7 +215,7 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
 
   // Chart press state for tooltips
   const { state: chartPressState, isActive: isPressActive } = useChartPressState({
-    x: validData.length > 0 ? validData[0].wavelength : 0,
+    x: validData.length > 0 ? validData[0].x : 0,
     y: yKeys.reduce((acc, key) => {
       acc[key] = 0;
       return acc;
@@ -313,20 +265,39 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
     <View style={[{ backgroundColor }]}>
       <View style={styles.header}>
         <Text style={[styles.title, { color: textColor }]}>Spectrum Comparison</Text>
-        <TouchableOpacity
-          style={[styles.button, { borderColor: iconColor }, isNormalized && styles.buttonActive]}
-          onPress={() => setIsNormalized((prev) => !prev)}
-        >
-          <Text style={[styles.buttonText, { color: textColor }, isNormalized && styles.buttonTextActive]}>
-            {isNormalized ? 'Raw Data' : 'Normalize'}
-          </Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          {AXES.map((a) => (
+            <TouchableOpacity
+              key={a}
+              style={[styles.button, styles.axisButton, { borderColor: iconColor }, axis === a && styles.buttonActive]}
+              onPress={() => setAxis(a)}
+            >
+              <Text style={[styles.buttonText, { color: textColor }, axis === a && styles.buttonTextActive]}>
+                {AXIS_UNITS[a]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.button, styles.axisButton, { borderColor: iconColor }, showPeaks && styles.buttonActive]}
+            onPress={() => setShowPeaks((prev) => !prev)}
+          >
+            <Text style={[styles.buttonText, { color: textColor }, showPeaks && styles.buttonTextActive]}>Peaks</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, { borderColor: iconColor }, isNormalized && styles.buttonActive]}
+            onPress={() => setIsNormalized((prev) => !prev)}
+          >
+            <Text style={[styles.buttonText, { color: textColor }, isNormalized && styles.buttonTextActive]}>
+              {isNormalized ? 'Raw Data' : 'Normalize'}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.chartContainer}>
         <CartesianChart
           data={validData}
-          xKey="wavelength"
+          xKey="x"
           yKeys={yKeys}
           domain={domain}
           chartPressState={chartPressState}
@@ -386,6 +357,25 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
                   );
                 })}
 
+                {/* Peak markers: filled for maxima, open for shoulders */}
+                {peaks.map((spectrumPeaks, index) =>
+                  spectrumPeaks.map((p) => {
+                    const s = series[index];
+                    if (!s) return null;
+                    return (
+                      <Circle
+                        key={`peak-${s.key}-${p.kind}-${p.wavelength}`}
+                        cx={xScale(p.wavelength)}
+                        cy={yScale(scaleToRange(s.range, p.value))}
+                        r={p.kind === 'maximum' ? 4 : 5}
+                        color={COLORS[index % COLORS.length]}
+                        style={p.kind === 'maximum' ? 'fill' : 'stroke'}
+                        strokeWidth={1.5}
+                      />
+                    );
+                  })
+                )}
+
                 {/* Tooltip - rendered inside chart bounds */}
                 {isPressActive && tooltipFont && (
                   <Group>
@@ -422,7 +412,7 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
                           ? chartBounds.right - 115 
                           : Math.max(chartBounds.left + 15, chartPressState.x.position.value + 5)}
                         y={chartBounds.top + 20}
-                        text={`λ: ${Number(chartPressState.x.value.value).toFixed(0)} nm`}
+                        text={`${AXIS_READOUT[axis].symbol}: ${Number(chartPressState.x.value.value).toFixed(AXIS_READOUT[axis].digits)} ${AXIS_UNITS[axis]}`}
                         font={tooltipFont}
                         color={textColor}
                       />
@@ -486,7 +476,8 @@ export function SpectrumChart({ data, isLoading, distributions = [] }: SpectrumC
           })}
           {distributions.map((d, i) => {
             const color = COLORS[(data.length + i) % COLORS.length];
-            const label = `${d.type} (${d.lowWavelength}–${d.highWavelength})`;
+            const name = d.type === 'light-source' ? d.lightSourceName ?? 'Light source' : d.type;
+            const label = `${name} (${d.lowWavelength}–${d.highWavelength})`;
             return (
               <View key={`legend-dist-${i}`} style={styles.legendItem}>
                 <View style={[styles.legendLine, { backgroundColor: color }]} />
@@ -521,6 +512,9 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     borderWidth: 1,
   },
+  axisButton: {
+    marginRight: 6,
+  },
   buttonActive: {
     backgroundColor: '#3b82f6',
     borderColor: '#3b82f6',
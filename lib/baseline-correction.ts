@@ -0,0 +1,162 @@
+import { solveLinearSystem } from './helpers';
+import { interpolate, Spectrum } from './spectrum';
+
+// Baseline correction for absorption spectra: a baseline fitted to parts of the
+// spectrum where the compound does not absorb (offsets, sloping backgrounds,
+// scattering tails) is subtracted at every point. The spectrum keeps its own
+// wavelengths; nothing is resampled.
+
+export interface WavelengthRange {
+  low: number;   // nm
+  high: number;  // nm
+}
+
+export type BaselineCorrection =
+  /** Mean value over one region, e.g. a flat stretch to the red of the last band. */
+  | { mode: 'offset'; region: WavelengthRange }
+  /** Straight line through the spectrum's values at two wavelengths. */
+  | { mode: 'linear'; wavelengths: [number, number] }
+  /** Least-squares polynomial over the points in the anchor regions. */
+  | { mode: 'polynomial'; regions: WavelengthRange[]; order: number }
+  /** Least-squares a + b·λ⁻⁴ (Rayleigh scattering) over the points in the anchor regions. */
+  | { mode: 'rayleigh'; regions: WavelengthRange[] };
+
+export type BaselineMode = BaselineCorrection['mode'];
+
+export const MAX_BASELINE_ORDER = 5;
+
+/** Short label for legends and pickers, e.g. "offset 700–800", "λ⁻⁴ baseline". */
+export function baselineLabel(c: BaselineCorrection): string {
+  switch (c.mode) {
+    case 'offset':
+      return `offset ${c.region.low}–${c.region.high}`;
+    case 'linear':
+      return `linear ${c.wavelengths[0]}/${c.wavelengths[1]}`;
+    case 'polynomial':
+      return `polynomial ${c.order} baseline`;
+    case 'rayleigh':
+      return 'λ⁻⁴ baseline';
+  }
+}
+
+/**
+ * "250-260, 700-800" → ranges, or null if any part is not a "low-high" pair with
+ * low < high. En dashes are accepted as separators.
+ */
+export function parseWavelengthRanges(text: string): WavelengthRange[] | null {
+  const parts = text.split(/[,;]/).map(p => p.trim()).filter(p => p.length > 0);
+  if (parts.length === 0) return null;
+  const ranges: WavelengthRange[] = [];
+  for (const part of parts) {
+    const m = part.match(/^(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)$/);
+    if (!m) return null;
+    const low = parseFloat(m[1]);
+    const high = parseFloat(m[2]);
+    if (!(low < high)) return null;
+    ranges.push({ low, high });
+  }
+  return ranges;
+}
+
+function pointsInRanges(spectrum: Spectrum, ranges: WavelengthRange[]): number[] {
+  const indices: number[] = [];
+  const { wavelengths } = spectrum;
+  for (let i = 0; i < wavelengths.length; i++) {
+    if (ranges.some(r => wavelengths[i] >= r.low && wavelengths[i] <= r.high)) indices.push(i);
+  }
+  return indices;
+}
+
+/** Why the correction cannot be applied to the spectrum, or null if it can. */
+export function baselineError(spectrum: Spectrum, c: BaselineCorrection): string | null {
+  const { wavelengths } = spectrum;
+  const first = wavelengths[0];
+  const last = wavelengths[wavelengths.length - 1];
+  switch (c.mode) {
+    case 'offset':
+      return pointsInRanges(spectrum, [c.region]).length === 0
+        ? `The spectrum has no points between ${c.region.low} and ${c.region.high} nm.`
+        : null;
+    case 'linear': {
+      const [a, b] = c.wavelengths;
+      if (a === b) return 'The two baseline wavelengths must differ.';
+      if ([a, b].some(w => !(w >= first && w <= last))) {
+        return `Both baseline wavelengths must lie within the spectrum (${first}–${last} nm).`;
+      }
+      return null;
+    }
+    case 'polynomial': {
+      if (!Number.isInteger(c.order) || c.order < 0 || c.order > MAX_BASELINE_ORDER) {
+        return `The polynomial order must be a whole number from 0 to ${MAX_BASELINE_ORDER}.`;
+      }
+      const count = pointsInRanges(spectrum, c.regions).length;
+      return count <= c.order
+        ? `An order ${c.order} polynomial needs more than ${c.order} points in the anchor regions (found ${count}).`
+        : null;
+    }
+    case 'rayleigh': {
+      const count = pointsInRanges(spectrum, c.regions).length;
+      return count < 2 ? `The λ⁻⁴ model needs at least 2 points in the anchor regions (found ${count}).` : null;
+    }
+  }
+}
+
+/** The baseline at each of the spectrum's wavelengths, or null if it cannot be fitted (see baselineError). */
+export function fitBaseline(spectrum: Spectrum, c: BaselineCorrection): Float64Array | null {
+  if (spectrum.wavelengths.length === 0 || baselineError(spectrum, c) !== null) return null;
+  const { wavelengths, values } = spectrum;
+  switch (c.mode) {
+    case 'offset': {
+      const indices = pointsInRanges(spectrum, [c.region]);
+      const mean = indices.reduce((sum, i) => sum + values[i], 0) / indices.length;
+      return new Float64Array(wavelengths.length).fill(mean);
+    }
+    case 'linear': {
+      const [a, b] = c.wavelengths;
+      const ya = interpolate(spectrum, a);
+      const slope = (interpolate(spectrum, b) - ya) / (b - a);
+      return Float64Array.from(wavelengths, w => ya + slope * (w - a));
+    }
+    case 'polynomial': {
+      // Fit in a scaled variable u ∈ [-1, 1] over the spectrum to keep the normal equations well conditioned
+      const mid = (wavelengths[0] + wavelengths[wavelengths.length - 1]) / 2;
+      const span = Math.max((wavelengths[wavelengths.length - 1] - wavelengths[0]) / 2, 1);
+      const basis = Array.from({ length: c.order + 1 }, (_, j) => (w: number) => ((w - mid) / span) ** j);
+      return evaluateFit(spectrum, pointsInRanges(spectrum, c.regions), basis);
+    }
+    case 'rayleigh': {
+      // λ⁻⁴ relative to the shortest wavelength, so both basis functions are of order 1
+      const ref = wavelengths[0];
+      return evaluateFit(spectrum, pointsInRanges(spectrum, c.regions), [() => 1, w => (ref / w) ** 4]);
+    }
+  }
+}
+
+// Least-squares fit of Σ c_j f_j(λ) to the given points, evaluated at every wavelength
+function evaluateFit(spectrum: Spectrum, indices: number[], basis: ((w: number) => number)[]): Float64Array | null {
+  const { wavelengths, values } = spectrum;
+  const size = basis.length;
+  const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const rhs = new Array<number>(size).fill(0);
+  for (const i of indices) {
+    const f = basis.map(b => b(wavelengths[i]));
+    for (let r = 0; r < size; r++) {
+      rhs[r] += f[r] * values[i];
+      for (let k = 0; k < size; k++) normal[r][k] += f[r] * f[k];
+    }
+  }
+  const coefficients = solveLinearSystem(normal, rhs);
+  // Singular when the anchor points cannot pin down every term (e.g. all at one wavelength)
+  if (!coefficients.every(Number.isFinite)) return null;
+  return Float64Array.from(wavelengths, w => basis.reduce((sum, b, j) => sum + coefficients[j] * b(w), 0));
+}
+
+/** The spectrum minus its fitted baseline, or null if it cannot be fitted. */
+export function correctBaseline(spectrum: Spectrum, c: BaselineCorrection): Spectrum | null {
+  const baseline = fitBaseline(spectrum, c);
+  if (!baseline) return null;
+  return {
+    wavelengths: spectrum.wavelengths,
+    values: Float64Array.from(spectrum.values, (v, i) => v - baseline[i]),
+  };
+}
@@ -0,0 +1,106 @@
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as SQLite from 'expo-sqlite';
+
+import { BUNDLED_DATABASE_VERSION } from './database-version.generated';
+import { copyUserTables, DB_NAME, getDatabaseVersion } from './database-upgrade';
+
+// iOS / Android: the bundled database is copied into the app's SQLite directory
+// (see lib/bundled-database.web.ts for the web build).
+
+// The installed copy is moved here while a newer bundled database replaces it
+const PREVIOUS_DB_NAME = 'photochemcad_bundle.previous.db';
+
+/**
+ * Opens the installed database. If the file does not exist in the document
+ * directory, it is copied from the app bundle (assets). If the installed copy is
+ * older than the bundled one (PRAGMA user_version), it is replaced and the
+ * user's tables are copied into the new database.
+ */
+export async function openBundledDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const sqlDir = `${FileSystem.documentDirectory}SQLite/`;
+  const dbUri = `${sqlDir}${DB_NAME}`;
+  const fileInfo = await FileSystem.getInfoAsync(dbUri);
+
+  if (!fileInfo.exists) {
+    console.log('[DB] Database not found, copying from assets...');
+    await copyBundledDatabase(sqlDir, dbUri);
+  }
+
+  let database: SQLite.SQLiteDatabase;
+  try {
+    database = await SQLite.openDatabaseAsync(DB_NAME, { useNewConnection: true });
+  } catch (error) {
+    console.error('[DB] Error opening database:', error);
+    throw new Error('Failed to open database connection.');
+  }
+
+  const installedVersion = await getDatabaseVersion(database);
+  if (installedVersion < BUNDLED_DATABASE_VERSION) {
+    console.log(`[DB] Upgrading database from version ${installedVersion} to ${BUNDLED_DATABASE_VERSION}...`);
+    database = await upgradeDatabase(database, sqlDir);
+  }
+  return database;
+}
+
+async function copyBundledDatabase(sqlDir: string, dbUri: string): Promise<void> {
+  try {
+    // Create SQLite directory if it doesn't exist
+    await FileSystem.makeDirectoryAsync(sqlDir, { intermediates: true });
+
+    // Load the database asset
+    const dbAsset = require('@/assets/data/photochemcad_bundle.db');
+    const asset = Asset.fromModule(dbAsset);
+
+    // Download the asset to get its local URI
+    await asset.downloadAsync();
+
+    if (!asset.uri) {
+      throw new Error('Failed to download asset: uri is missing');
+    }
+
+    // Download/copy the database file to the SQLite directory
+    await FileSystem.downloadAsync(asset.uri, dbUri);
+
+    console.log('[DB] Database copied successfully.');
+  } catch (error) {
+    console.error('[DB] Error copying database:', error);
+    throw new Error('Failed to initialize database file.');
+  }
+}
+
+/**
+ * Replace the installed database with the bundled one, keeping the user's tables.
+ * If anything fails, the previous database is restored (and the upgrade is
+ * retried on the next launch) rather than losing user data.
+ */
+async function upgradeDatabase(current: SQLite.SQLiteDatabase, sqlDir: string): Promise<SQLite.SQLiteDatabase> {
+  const dbUri = `${sqlDir}${DB_NAME}`;
+  const previousUri = `${sqlDir}${PREVIOUS_DB_NAME}`;
+
+  await current.closeAsync();
+  await FileSystem.deleteAsync(previousUri, { idempotent: true });
+  await FileSystem.moveAsync({ from: dbUri, to: previousUri });
+
+  let database: SQLite.SQLiteDatabase | null = null;
+  try {
+    await copyBundledDatabase(sqlDir, dbUri);
+    database = await SQLite.openDatabaseAsync(DB_NAME, { useNewConnection: true });
+    const previous = await SQLite.openDatabaseAsync(PREVIOUS_DB_NAME, { useNewConnection: true });
+    try {
+      await copyUserTables(previous, database);
+    } finally {
+      await previous.closeAsync();
+    }
+  } catch (error) {
+    console.error('[DB] Error upgrading database, keeping the previous version:', error);
+    await database?.closeAsync();
+    await FileSystem.deleteAsync(dbUri, { idempotent: true });
+    await FileSystem.moveAsync({ from: previousUri, to: dbUri });
+    return await SQLite.openDatabaseAsync(DB_NAME, { useNewConnection: true });
+  }
+
+  await FileSystem.deleteAsync(previousUri, { idempotent: true });
+  console.log('[DB] Database upgraded successfully.');
+  return database;
+}
@@ -0,0 +1,70 @@
+import { Asset } from 'expo-asset';
+import * as SQLite from 'expo-sqlite';
+
+import { BUNDLED_DATABASE_VERSION } from './database-version.generated';
+import { copyUserTables, DB_NAME, getDatabaseVersion } from './database-upgrade';
+
+// Web: expo-sqlite runs SQLite compiled to WebAssembly in a worker and keeps
+// databases in the origin private file system (OPFS), so the installed copy and
+// the user's tables persist across visits. There is no document directory to
+// copy files into; the bundled database is fetched and imported with SQLite's
+// backup API instead. The WASM build has no FTS5: searches use the postings
+// tables instead (see hasFullTextSearch in lib/repository.ts).
+
+/**
+ * Opens the installed database, importing the bundled one on the first visit
+ * or when the installed copy is older (PRAGMA user_version). The user's tables
+ * are carried over into the new version.
+ */
+export async function openBundledDatabase(): Promise<SQLite.SQLiteDatabase> {
+  let database: SQLite.SQLiteDatabase;
+  try {
+    database = await SQLite.openDatabaseAsync(DB_NAME, { useNewConnection: true });
+  } catch (error) {
+    console.error('[DB] Error opening database:', error);
+    throw new Error('Failed to open database connection.');
+  }
+
+  const installedVersion = await getDatabaseVersion(database);
+  if (installedVersion < BUNDLED_DATABASE_VERSION) {
+    console.log(`[DB] Importing database version ${BUNDLED_DATABASE_VERSION} (installed: ${installedVersion})...`);
+    await importBundledDatabase(database, installedVersion);
+  }
+  return database;
+}
+
+async function fetchBundledDatabase(): Promise<Uint8Array> {
+  const asset = Asset.fromModule(require('@/assets/data/photochemcad_bundle.db'));
+  await asset.downloadAsync();
+  const response = await fetch(asset.localUri ?? asset.uri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch the bundled database: HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Overwrite `database` with the bundled database plus its user tables. The
+ * bundled copy is loaded in memory and the user tables are copied into it
+ * first, so a failure before the backup leaves the installed database as it was.
+ */
+async function importBundledDatabase(database: SQLite.SQLiteDatabase, installedVersion: number): Promise<void> {
+  try {
+    const bundled = await SQLite.deserializeDatabaseAsync(await fetchBundledDatabase());
+    try {
+      await copyUserTables(database, bundled);
+      await SQLite.backupDatabaseAsync({ sourceDatabase: bundled, destDatabase: database });
+    } finally {
+      await bundled.closeAsync();
+    }
+  } catch (error) {
+    // Nothing to fall back to on the first visit
+    if (installedVersion === 0) {
+      console.error('[DB] Error importing database:', error);
+      throw new Error('Failed to initialize database file.');
+    }
+    console.error('[DB] Error upgrading database, keeping the previous version:', error);
+    return;
+  }
+  console.log('[DB] Database imported successfully.');
+}
@@ -0,0 +1,218 @@
+import { Compound, isUserCompoundId } from './database';
+
+// BibTeX / RIS citations for spectra: the PhotochemCAD papers, one record per
+// spectrum (who measured it, when, in which database) and the literature
+// references stored with the compounds. Reference texts are free-form, so they
+// are exported as notes with whatever DOI and year can be picked out of them.
+// Spectra from the user's own library are not PhotochemCAD data: they are cited
+// as unpublished measurements, without the PhotochemCAD publisher or papers.
+
+export type CitationFormat = 'bibtex' | 'ris';
+
+export interface CitedSpectrum {
+  compound: Compound;
+  type: 'absorption' | 'emission';
+}
+
+export interface CitationEntry {
+  key: string;
+  kind: 'article' | 'dataset' | 'misc';
+  title?: string;
+  authors?: string[];
+  journal?: string;
+  year?: string;
+  volume?: string;
+  pages?: string;
+  doi?: string;
+  url?: string;
+  publisher?: string;
+  note?: string;
+}
+
+const PHOTOCHEMCAD_ARTICLES: CitationEntry[] = [
+  {
+    key: 'Taniguchi2018PhotochemCAD3',
+    kind: 'article',
+    title: 'PhotochemCAD 3: Diverse Modules for Photophysical Calculations with Multiple Spectral Databases',
+    authors: ['Taniguchi, Masahiko', 'Du, Hai', 'Lindsey, Jonathan S.'],
+    journal: 'Photochemistry and Photobiology',
+    year: '2018',
+    volume: '94',
+    pages: '277--289',
+    doi: '10.1111/php.12862',
+  },
+  {
+    key: 'Taniguchi2018Database',
+    kind: 'article',
+    title: 'Database of Absorption and Fluorescence Spectra of >300 Common Compounds for use in PhotochemCAD',
+    authors: ['Taniguchi, Masahiko', 'Lindsey, Jonathan S.'],
+    journal: 'Photochemistry and Photobiology',
+    year: '2018',
+    volume: '94',
+    pages: '290--327',
+    doi: '10.1111/php.12860',
+  },
+];
+
+const DOI_RE = /\b10\.\d{4,9}\/[^\s"<>]+/i;
+const YEAR_RE = /\b(?:19|20)\d{2}\b/;
+
+function clean(value: string | null | undefined): string | undefined {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/** ASCII-only key fragment, e.g. "Rhodamine 6G" → "Rhodamine6G". */
+function keyPart(text: string): string {
+  return text.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '');
+}
+
+/** "J. Li; H. Du" / "J. Li & H. Du" → ["J. Li", "H. Du"] (commas are kept: they may be "Last, First"). */
+function splitPeople(text: string | undefined): string[] | undefined {
+  if (!text) return undefined;
+  const people = text.split(/\s*(?:;|&|\band\b)\s*/).map(p => p.trim()).filter(Boolean);
+  return people.length > 0 ? people : undefined;
+}
+
+function literatureEntry(reference: string, citedFor: string[]): CitationEntry {
+  const doi = reference.match(DOI_RE)?.[0].replace(/[.,;)\]]+$/, '');
+  const year = reference.match(YEAR_RE)?.[0];
+  const firstWord = keyPart(reference.split(/[\s,;.]+/)[0] ?? '') || 'Ref';
+  return {
+    key: `${firstWord}${year ?? ''}`,
+    kind: 'misc',
+    doi,
+    year,
+    url: doi ? `https://doi.org/${doi}` : undefined,
+    note: `${reference} [cited for ${citedFor.join('; ')}]`,
+  };
+}
+
+function databaseLabel(databaseName: string): string {
+  return /photochemcad/i.test(databaseName) ? databaseName : `PhotochemCAD ${databaseName} database`;
+}
+
+function spectrumEntry({ compound, type }: CitedSpectrum): CitationEntry {
+  const isAbsorption = type === 'absorption';
+  const solvent = clean(isAbsorption ? compound.absorption_solvent : compound.emission_solvent);
+  const instrument = clean(isAbsorption ? compound.absorption_instrument : compound.emission_instrument);
+  const date = clean(isAbsorption ? compound.absorption_date : compound.emission_date);
+  const measuredBy = clean(isAbsorption ? compound.absorption_by : compound.emission_by);
+  const isUserSpectrum = isUserCompoundId(compound.id);
+  const details = [
+    isUserSpectrum ? "Unpublished measurement from the user's own spectrum library" : `PhotochemCAD compound ${compound.id}`,
+    instrument ? `instrument: ${instrument}` : null,
+    date ? `measured ${date}` : null,
+  ].filter(Boolean);
+  return {
+    key: `${isUserSpectrum ? 'Unpublished' : 'PhotochemCAD'}-${keyPart(compound.id)}-${isAbsorption ? 'abs' : 'em'}`,
+    kind: 'dataset',
+    title: `${isAbsorption ? 'Absorption' : 'Fluorescence emission'} spectrum of ${compound.name}${solvent ? ` in ${solvent}` : ''}`,
+    authors: splitPeople(measuredBy),
+    year: date?.match(YEAR_RE)?.[0],
+    publisher: isUserSpectrum ? undefined : clean(compound.source_name) ?? databaseLabel(compound.database_name),
+    url: clean(compound.source_url),
+    note: details.join(', '),
+  };
+}
+
+/**
+ * Entries for a set of spectra: the PhotochemCAD papers first (unless every spectrum is
+ * the user's own), then one record per spectrum, then each distinct literature
+ * reference (listing the spectra citing it).
+ */
+export function buildCitations(spectra: CitedSpectrum[]): CitationEntry[] {
+  const spectrumEntries: CitationEntry[] = [];
+  const references = new Map<string, { text: string; citedFor: string[] }>();
+
+  for (const spectrum of spectra) {
+    spectrumEntries.push(spectrumEntry(spectrum));
+    const text = clean(spectrum.type === 'absorption' ? spectrum.compound.absorption_reference : spectrum.compound.emission_reference);
+    if (!text) continue;
+    const label = `${spectrum.compound.name} (${spectrum.type})`;
+    const existing = references.get(text.toLowerCase());
+    if (existing) existing.citedFor.push(label);
+    else references.set(text.toLowerCase(), { text, citedFor: [label] });
+  }
+
+  const citesPhotochemCAD = spectra.some(s => !isUserCompoundId(s.compound.id));
+  const entries = [
+    ...(citesPhotochemCAD ? PHOTOCHEMCAD_ARTICLES : []),
+    ...spectrumEntries,
+    ...Array.from(references.values(), r => literatureEntry(r.text, r.citedFor)),
+  ];
+
+  // Keys must be unique within one export: "Du1998", "Du1998b", ...
+  const seen = new Map<string, number>();
+  return entries.map(entry => {
+    const n = seen.get(entry.key) ?? 0;
+    seen.set(entry.key, n + 1);
+    return n === 0 ? entry : { ...entry, key: `${entry.key}${String.fromCharCode(97 + Math.min(n, 25))}` };
+  });
+}
+
+/** Spectra of a compound list: every absorption and emission spectrum the compounds have (user spectra included, cited as unpublished). */
+export function spectraOfCompounds(compounds: Compound[]): CitedSpectrum[] {
+  return compounds.flatMap(compound => [
+    ...(compound.has_absorption_data === '1' ? [{ compound, type: 'absorption' as const }] : []),
+    ...(compound.has_emission_data === '1' ? [{ compound, type: 'emission' as const }] : []),
+  ]);
+}
+
+// --- BibTeX ---
+
+function bibtexEscape(value: string): string {
+  return value.replace(/([\\{}])/g, '\\$1').replace(/([&%$#_])/g, '\\$1');
+}
+
+function formatBibtexEntry(entry: CitationEntry): string {
+  const type = entry.kind === 'article' ? 'article' : 'misc';
+  const fields: [string, string | undefined][] = [
+    ['author', entry.authors?.map(bibtexEscape).join(' and ')],
+    ['title', entry.title && `{${bibtexEscape(entry.title)}}`],
+    ['journal', entry.journal && bibtexEscape(entry.journal)],
+    ['year', entry.year],
+    ['volume', entry.volume],
+    ['pages', entry.pages],
+    ['publisher', entry.publisher && bibtexEscape(entry.publisher)],
+    ['howpublished', entry.kind === 'dataset' ? 'Spectral data' : undefined],
+    ['doi', entry.doi],
+    ['url', entry.url],
+    ['note', entry.note && bibtexEscape(entry.note)],
+  ];
+  const body = fields
+    .filter((f): f is [string, string] => !!f[1])
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+  return `@${type}{${entry.key},\n${body}\n}`;
+}
+
+// --- RIS ---
+
+function formatRisEntry(entry: CitationEntry): string {
+  const lines: [string, string | undefined][] = [
+    ['TY', entry.kind === 'article' ? 'JOUR' : entry.kind === 'dataset' ? 'DATA' : 'GEN'],
+    ['ID', entry.key],
+    ...(entry.authors ?? []).map((author): [string, string] => ['AU', author]),
+    ['TI', entry.title],
+    ['JO', entry.journal],
+    ['PY', entry.year],
+    ['VL', entry.volume],
+    ['SP', entry.pages?.split('--')[0]],
+    ['EP', entry.pages?.split('--')[1]],
+    ['PB', entry.publisher],
+    ['DO', entry.doi],
+    ['UR', entry.url],
+    ['N1', entry.note],
+    ['ER', ''],
+  ];
+  return lines
+    .filter((l): l is [string, string] => l[1] != null)
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n');
+}
+
+export function formatCitations(entries: CitationEntry[], format: CitationFormat): string {
+  const formatted = entries.map(format === 'bibtex' ? formatBibtexEntry : formatRisEntry);
+  return formatted.join('\n\n') + '\n';
+}
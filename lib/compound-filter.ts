@@ -0,0 +1,244 @@
+// Property-range filters for the compound queries in lib/repository.ts.
+// Numeric values come from compound_properties, which the build script fills by
+// parsing the string-typed metadata columns (absorption_wavelength, absorption_epsilon, ...),
+// and from compound_descriptors, computed from the spectra (see lib/descriptors.ts).
+// Element conditions use compound_elements, parsed from chemical_formula the same way.
+
+import { isElementSymbol, parseFormula } from './formula';
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type DataAvailability = 'any' | 'absorption-only' | 'emission-only' | 'both';
+
+/** Atoms of one element per formula unit; elements missing from the formula count as 0. */
+export interface ElementCondition {
+  element: string;  // symbol, e.g. "Zn"
+  min?: number;
+  max?: number;
+}
+
+/** The user's favorites, or a named collection by its user_collections.id. */
+export type CollectionRef = 'favorites' | number;
+
+export interface CompoundFilter {
+  absorptionWavelength?: NumericRange; // nm
+  emissionWavelength?: NumericRange;   // nm
+  epsilon?: NumericRange;              // M⁻¹cm⁻¹
+  quantumYield?: NumericRange;         // ΦF (0–1)
+  molecularWeight?: NumericRange;      // g/mol
+  stokesShift?: NumericRange;          // cm⁻¹
+  brightness?: NumericRange;           // ε·ΦF, M⁻¹cm⁻¹
+  radiativeRate?: NumericRange;        // s⁻¹
+  absorptionFwhm?: NumericRange;       // nm
+  emissionFwhm?: NumericRange;         // nm
+  /** Matches absorption or emission solvent, case-insensitive substring. */
+  solvent?: string;
+  dataAvailability?: DataAvailability;
+  /** Only compounds in favorites or a collection. */
+  collection?: CollectionRef;
+  /** Composition conditions; compounds without a parsable formula never match. */
+  elements?: ElementCondition[];
+}
+
+export interface FilterClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+export type RangeFilterKey =
+  | 'absorptionWavelength'
+  | 'emissionWavelength'
+  | 'epsilon'
+  | 'quantumYield'
+  | 'molecularWeight'
+  | 'stokesShift'
+  | 'brightness'
+  | 'radiativeRate'
+  | 'absorptionFwhm'
+  | 'emissionFwhm';
+
+// CompoundFilter range key -> compound_properties (p) / compound_descriptors (d) column
+const RANGE_COLUMNS: Record<RangeFilterKey, string> = {
+  absorptionWavelength: 'p.absorption_wavelength',
+  emissionWavelength: 'p.emission_wavelength',
+  epsilon: 'p.absorption_epsilon',
+  quantumYield: 'p.quantum_yield',
+  molecularWeight: 'p.molecular_weight',
+  stokesShift: 'd.stokes_shift',
+  brightness: 'd.brightness',
+  radiativeRate: 'd.radiative_rate',
+  absorptionFwhm: 'd.absorption_fwhm',
+  emissionFwhm: 'd.emission_fwhm',
+};
+
+function isSet(v: number | undefined): v is number {
+  return v != null && Number.isFinite(v);
+}
+
+export function isRangeActive(range: NumericRange | undefined): boolean {
+  return !!range && (isSet(range.min) || isSet(range.max));
+}
+
+/** Number of filter fields that restrict results (for the "Filters (n)" badge). */
+export function countActiveFilters(filter: CompoundFilter): number {
+  let n = 0;
+  for (const key of Object.keys(RANGE_COLUMNS) as RangeFilterKey[]) {
+    if (isRangeActive(filter[key])) n++;
+  }
+  if (filter.solvent?.trim()) n++;
+  if (filter.dataAvailability && filter.dataAvailability !== 'any') n++;
+  if (filter.collection != null) n++;
+  n += filter.elements?.length ?? 0;
+  return n;
+}
+
+export function isFilterActive(filter: CompoundFilter | undefined): boolean {
+  return !!filter && countActiveFilters(filter) > 0;
+}
+
+/**
+ * SQL WHERE fragment (joined with AND, without the leading AND) for a filter.
+ * Expects the query to alias compounds as `c`, compound_properties as `p` and
+ * compound_descriptors as `d`.
+ * Returns an always-true clause when nothing is set.
+ */
+export function buildCompoundFilterClause(filter: CompoundFilter | undefined): FilterClause {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (!filter) return { sql: '1 = 1', params };
+
+  for (const key of Object.keys(RANGE_COLUMNS) as RangeFilterKey[]) {
+    const { min, max } = filter[key] ?? {};
+    const column = RANGE_COLUMNS[key];
+    if (isSet(min)) {
+      conditions.push(`${column} >= ?`);
+      params.push(min);
+    }
+    if (isSet(max)) {
+      conditions.push(`${column} <= ?`);
+      params.push(max);
+    }
+  }
+
+  const solvent = filter.solvent?.trim();
+  if (solvent) {
+    conditions.push(`(c.absorption_solvent LIKE ? OR c.emission_solvent LIKE ?)`);
+    params.push(`%${solvent}%`, `%${solvent}%`);
+  }
+
+  switch (filter.dataAvailability) {
+    case 'absorption-only':
+      conditions.push(`c.has_absorption_data = '1' AND c.has_emission_data <> '1'`);
+      break;
+    case 'emission-only':
+      conditions.push(`c.has_emission_data = '1' AND c.has_absorption_data <> '1'`);
+      break;
+    case 'both':
+      conditions.push(`c.has_absorption_data = '1' AND c.has_emission_data = '1'`);
+      break;
+  }
+
+  if (filter.collection === 'favorites') {
+    conditions.push(`c.id IN (SELECT compound_id FROM user_favorites)`);
+  } else if (filter.collection != null) {
+    conditions.push(`c.id IN (SELECT compound_id FROM user_collection_items WHERE collection_id = ?)`);
+    params.push(filter.collection);
+  }
+
+  if (filter.elements?.length) {
+    conditions.push(`c.id IN (SELECT compound_id FROM compound_elements)`);
+  }
+  for (const { element, min, max } of filter.elements ?? []) {
+    const count = `(SELECT COALESCE(SUM(e.count), 0) FROM compound_elements e WHERE e.compound_id = c.id AND e.element = ?)`;
+    if (isSet(min)) {
+      conditions.push(`${count} >= ?`);
+      params.push(element, min);
+    }
+    if (isSet(max)) {
+      conditions.push(`${count} <= ?`);
+      params.push(element, max);
+    }
+  }
+
+  return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', params };
+}
+
+/**
+ * Element conditions checked against a formula directly, for compounds that have no
+ * compound_elements rows (the user's own spectra). Same rule: no parsable formula, no match.
+ */
+export function matchesElementConditions(formula: string | null | undefined, conditions: ElementCondition[]): boolean {
+  if (conditions.length === 0) return true;
+  const parsed = parseFormula(formula);
+  if (!parsed) return false;
+  return conditions.every(({ element, min, max }) => {
+    const count = parsed.counts[element] ?? 0;
+    return (!isSet(min) || count >= min) && (!isSet(max) || count <= max);
+  });
+}
+
+export interface CompositionQuery {
+  /** The query with the composition phrases removed (may be empty). */
+  text: string;
+  elements: ElementCondition[];
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const SYMBOL = String.raw`([A-Za-z][a-z]?)`;
+
+function elementSymbol(word: string): string | null {
+  const symbol = word[0].toUpperCase() + word.slice(1).toLowerCase();
+  return isElementSymbol(symbol) ? symbol : null;
+}
+
+/**
+ * Pull composition phrases out of a search query: "contains Zn", "without Cl",
+ * "C between 30 and 40", "N >= 4", "O < 3", "Mg = 1". After "contains" or
+ * "without" the symbol may be in any case; in comparisons it must be written as
+ * a symbol ("C", "Zn") so ordinary words are left alone.
+ */
+export function parseCompositionQuery(query: string): CompositionQuery {
+  const elements: ElementCondition[] = [];
+  let text = query;
+
+  text = text.replace(
+    new RegExp(String.raw`\b${SYMBOL}\s+between\s+${NUMBER}\s+and\s+${NUMBER}\b`, 'g'),
+    (phrase, symbol: string, a: string, b: string) => {
+      if (!isElementSymbol(symbol)) return phrase;
+      const [min, max] = [parseFloat(a), parseFloat(b)].sort((x, y) => x - y);
+      elements.push({ element: symbol, min, max });
+      return ' ';
+    }
+  );
+
+  text = text.replace(
+    new RegExp(String.raw`\b${SYMBOL}\s*(>=|<=|=|>|<)\s*${NUMBER}`, 'g'),
+    (phrase, symbol: string, op: string, value: string) => {
+      if (!isElementSymbol(symbol)) return phrase;
+      const n = parseFloat(value);
+      switch (op) {
+        case '>': elements.push({ element: symbol, min: Math.floor(n) + 1 }); break;
+        case '>=': elements.push({ element: symbol, min: n }); break;
+        case '<': elements.push({ element: symbol, max: Math.ceil(n) - 1 }); break;
+        case '<=': elements.push({ element: symbol, max: n }); break;
+        default: elements.push({ element: symbol, min: n, max: n });
+      }
+      return ' ';
+    }
+  );
+
+  text = text.replace(
+    new RegExp(String.raw`\b(contains|containing|without)\s+${SYMBOL}\b`, 'gi'),
+    (phrase, keyword: string, word: string) => {
+      const symbol = elementSymbol(word);
+      if (!symbol) return phrase;
+      elements.push(keyword.toLowerCase() === 'without' ? { element: symbol, max: 0 } : { element: symbol, min: 1 });
+      return ' ';
+    }
+  );
+
+  return { text: text.replace(/\s+/g, ' ').trim(), elements };
+}
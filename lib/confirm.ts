@@ -0,0 +1,19 @@
+import { Alert } from 'react-native';
+
+// Native: a two-button alert. Alert.alert buttons do nothing on web, where
+// confirm.web.ts uses the browser's dialog instead.
+
+/** Ask before deleting something; resolves true when the user confirms. */
+export function confirmDelete(title: string, message: string): Promise<boolean> {
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Delete', style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
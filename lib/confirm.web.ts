@@ -0,0 +1,7 @@
+// Web: react-native-web's Alert shows nothing, so deletions are confirmed with
+// the browser's own dialog.
+
+/** Ask before deleting something; resolves true when the user confirms. */
+export function confirmDelete(title: string, message: string): Promise<boolean> {
+  return Promise.resolve(window.confirm(`${title}\n\n${message}`));
+}
@@ -0,0 +1,63 @@
+import * as SQLite from 'expo-sqlite';
+
+// Pieces shared by the native and web ways of installing the bundled database
+// (lib/bundled-database.ts, lib/bundled-database.web.ts).
+
+// Built by scripts/build_photochemcad_db.py from every assets/database/<db>/ spectra set
+export const DB_NAME = 'photochemcad_bundle.db';
+
+/**
+ * Tables named with this prefix hold the user's own data (favorites, imported
+ * spectra, notes). They are never shipped in the bundled database and are
+ * carried over when an app update replaces it.
+ */
+export const USER_TABLE_PREFIX = 'user_';
+
+export async function getDatabaseVersion(database: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Copy every user-owned table (see USER_TABLE_PREFIX) with its indexes and rows.
+ * Tables the new database already defines keep the new schema; only columns
+ * present in both versions are copied.
+ */
+export async function copyUserTables(from: SQLite.SQLiteDatabase, to: SQLite.SQLiteDatabase): Promise<void> {
+  const tables = await from.getAllAsync<{ name: string; sql: string }>(`
+    SELECT name, sql FROM sqlite_master
+    WHERE type = 'table' AND substr(name, 1, ?) = ?
+  `, [USER_TABLE_PREFIX.length, USER_TABLE_PREFIX]);
+
+  await to.withTransactionAsync(async () => {
+    for (const table of tables) {
+      const exists = await to.getFirstAsync(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`, [table.name]);
+      if (!exists) {
+        await to.execAsync(table.sql);
+        const indexes = await from.getAllAsync<{ sql: string }>(`
+          SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL
+        `, [table.name]);
+        for (const index of indexes) await to.execAsync(index.sql);
+      }
+
+      const quoted = `"${table.name.replace(/"/g, '""')}"`;
+      const newColumns = new Set(
+        (await to.getAllAsync<{ name: string }>(`PRAGMA table_info(${quoted})`)).map(c => c.name)
+      );
+      const columns = (await from.getAllAsync<{ name: string }>(`PRAGMA table_info(${quoted})`))
+        .map(c => c.name)
+        .filter(name => newColumns.has(name));
+      if (columns.length === 0) continue;
+
+      const columnList = columns.map(c => `"${c.replace(/"/g, '""')}"`).join(', ');
+      const placeholders = columns.map(() => '?').join(', ');
+      const rows = await from.getAllAsync<Record<string, SQLite.SQLiteBindValue>>(`SELECT ${columnList} FROM ${quoted}`);
+      for (const row of rows) {
+        await to.runAsync(
+          `INSERT OR REPLACE INTO ${quoted} (${columnList}) VALUES (${placeholders})`,
+          columns.map(c => row[c])
+        );
+      }
+    }
+  });
+}
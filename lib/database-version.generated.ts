@@ -0,0 +1,4 @@
+// Generated by scripts/build_photochemcad_db.py – do not edit by hand
+
+/** PRAGMA user_version of assets/data/photochemcad_bundle.db */
+export const BUNDLED_DATABASE_VERSION = 2026101916;
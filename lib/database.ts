@@ -1,242 +1,457 @@
-import { Asset } from 'expo-asset';
-import * as FileSystem from 'expo-file-system/legacy';
 import * as SQLite from 'expo-sqlite';
+import { openBundledDatabase } from './bundled-database';
+import { CollectionRef } from './compound-filter';
+import { moImageMatchKey } from './mo-images';
+import {
+  Compound,
+  CompoundListItem,
+  createSqlRepository,
+  isUserCompoundId,
+  LIST_COLUMNS,
+  USER_COMPOUND_ID_PREFIX,
+  USER_COMPOUND_SELECT,
+  USER_SCHEMA,
+} from './repository';
+import { tokenizeSearchQuery } from './search';
 
-// --- Interfaces ---
+export type {
+  AbsorptionData,
+  Compound,
+  CompoundHierarchyNode,
+  CompoundListItem,
+  CompoundRepository,
+  DatabaseCategory,
+  EmissionData,
+  LightSource,
+  ListOptions,
+  SearchOptions,
+  SpectrumIndexEntry,
+} from './repository';
+export type { CompoundDescriptors, DescriptorSort } from './descriptors';
+export { USER_TABLE_PREFIX } from './database-upgrade';
+export { isUserCompoundId, SEARCH_PAGE_SIZE, UNSPECIFIED_GROUP_NAME, USER_LIBRARY_NAME } from './repository';
 
-export interface AbsorptionData {
-  compound_id: string;
-  wavelength: number;
-  coefficient: number;
+// --- Database Configuration ---
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Initializes and opens the database: the bundled database installed on this
+ * device (lib/bundled-database.ts, or .web.ts in the browser), with the user's
+ * tables created if missing.
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  // Shared promise so concurrent callers at startup don't copy or upgrade twice
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
 }
 
-export interface EmissionData {
-  compound_id: string;
-  wavelength: number;
-  normalized: number;
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const database = await openBundledDatabase();
+  await database.execAsync(USER_SCHEMA);
+  return database;
 }
 
-export interface Compound {
-  id: string;
-  id_prefix?: string | null;
-  numeric_id?: number | null;
+// --- Compound Repository ---
+
+/** The bundled database (plus the user's tables) on this device. */
+export const repository = createSqlRepository(getDatabase);
+
+export const {
+  listCompounds,
+  getCompoundById,
+  getCompoundDescriptors,
+  getCompoundsByDatabase,
+  getAbsorptionData,
+  getEmissionData,
+  getSpectrum,
+  getSpectrumIndex,
+  getSpectrumAudit,
+  getLightSources,
+  getLightSourceSpectrum,
+  getDatabaseCategories,
+  getCompoundHierarchy,
+  getSolvents,
+  searchCompounds,
+  searchCompoundsInDatabase,
+} = repository;
+
+// --- Molecular Orbital Images ---
+
+// SQL version of moImageMatchKey (lib/mo-images.ts) applied to a column
+const moMatchKey = (column: string) =>
+  `LOWER(REPLACE(REPLACE(REPLACE(REPLACE(${column}, ' ', ''), ',', ''), '_', ''), '-', ''))`;
+
+/**
+ * Bundled compounds an orbital image belongs to: its base ID (e.g. "SE-367") is the
+ * compound's name or synonym, or appears in parentheses in it ("202 ZnC (SE197)").
+ */
+export async function getCompoundsForMoImage(baseId: string): Promise<CompoundListItem[]> {
+  const key = moImageMatchKey(baseId);
+  if (!key) return [];
+  const database = await getDatabase();
+  return database.getAllAsync<CompoundListItem>(
+    `SELECT ${LIST_COLUMNS}
+     FROM compounds c
+     WHERE ${moMatchKey('c.name')} = ?1
+        OR ${moMatchKey('c.synonym')} = ?1
+        OR ${moMatchKey('c.name')} LIKE '%(' || ?1 || ')%'
+        OR ${moMatchKey('c.synonym')} LIKE '%(' || ?1 || ')%'
+     ORDER BY c.id`,
+    [key]
+  );
+}
+
+// --- User Spectrum Library ---
+
+/** Editable metadata of a user compound; values are optional except the name. */
+export interface UserCompoundInput {
   name: string;
-  slug: string;
-  cas?: string | null;
-  database_id?: number | null;
-  category_id?: string | null;
-  database_name: string;
-  database_slug?: string | null;
-  category_name: string;
-  class_name?: string | null;
   synonym?: string | null;
+  cas?: string | null;
   chemical_formula?: string | null;
   molecular_weight?: number | null;
-  source_name?: string | null;
-  source_url?: string | null;
   absorption_wavelength?: string | null;
   absorption_epsilon?: string | null;
-  absorption_coefficient?: string | null;
   absorption_solvent?: string | null;
-  absorption_instrument?: string | null;
-  absorption_reference_epsilon?: string | null;
-  absorption_reference?: string | null;
-  absorption_date?: string | null;
-  absorption_by?: string | null;
   emission_wavelength?: string | null;
-  emission_fluorescence_peaks?: string | null;
   emission_quantum_yield?: number | null;
-  emission_reference_quantum_yield?: number | null;
   emission_solvent?: string | null;
-  emission_instrument?: string | null;
-  emission_reference?: string | null;
-  emission_date?: string | null;
-  emission_by?: string | null;
-  has_structure_tif?: string | null;
-  has_structure_png?: string | null;
-  has_absorption_data: string; // '0' or '1'
-  has_absorption_tif?: string | null;
-  has_emission_data: string;   // '0' or '1'
-  has_emission_tif?: string | null;
-  has_structure_labeled_tif?: string | null;
-  has_structure_labeled_png?: string | null;
-  has_structure_cdx?: string | null;
-}
-
-export interface DatabaseCategory {
-  name: string;
-  count: number;
 }
 
-// --- Database Configuration ---
+export interface UserSpectrumPoints {
+  /** Replaces the stored absorption spectrum; `[]` removes it, undefined keeps it. */
+  absorption?: { wavelength: number; coefficient: number }[];
+  /** Replaces the stored emission spectrum; `[]` removes it, undefined keeps it. */
+  emission?: { wavelength: number; normalized: number }[];
+}
 
-const DB_NAME = 'photochemcad_common_compounds.db';
-let db: SQLite.SQLiteDatabase | null = null;
+const USER_INPUT_COLUMNS = [
+  'name',
+  'synonym',
+  'cas',
+  'chemical_formula',
+  'molecular_weight',
+  'absorption_wavelength',
+  'absorption_epsilon',
+  'absorption_solvent',
+  'emission_wavelength',
+  'emission_quantum_yield',
+  'emission_solvent',
+] as const;
 
 /**
- * Initializes and opens the database.
- * If the database file does not exist in the document directory,
- * it copies it from the app bundle (assets).
+ * All compounds in the user's library, most recently edited first.
  */
-export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
-  if (db) {
-    return db;
-  }
+export async function getUserCompounds(): Promise<Compound[]> {
+  const database = await getDatabase();
+  return await database.getAllAsync<Compound>(`${USER_COMPOUND_SELECT} ORDER BY u.updated_at DESC, u.name ASC`);
+}
+
+// Text a user compound is searched by; tokens are lower-case and LIKE ignores ASCII case
+const USER_SEARCH_TEXT = `COALESCE(u.name, '') || ' ' || COALESCE(u.synonym, '') || ' ' || COALESCE(u.cas, '') || ' ' || COALESCE(u.chemical_formula, '')`;
 
-  const sqlDir = `${FileSystem.documentDirectory}SQLite/`;
-  const dbUri = `${sqlDir}${DB_NAME}`;
-  const fileInfo = await FileSystem.getInfoAsync(dbUri);
-
-  if (!fileInfo.exists) {
-    console.log('[DB] Database not found, copying from assets...');
-    try {
-      // Create SQLite directory if it doesn't exist
-      await FileSystem.makeDirectoryAsync(sqlDir, { intermediates: true });
-      
-      // Load the database asset
-      const dbAsset = require('@/assets/data/photochemcad_common_compounds.db');
-      const asset = Asset.fromModule(dbAsset);
-      
-      // Download the asset to get its local URI
-      await asset.downloadAsync();
-      
-      if (!asset.uri) {
-        throw new Error('Failed to download asset: uri is missing');
-      }
-
-      // Download/copy the database file to the SQLite directory
-      await FileSystem.downloadAsync(asset.uri, dbUri);
-
-      console.log('[DB] Database copied successfully.');
-    } catch (error) {
-      console.error('[DB] Error copying database:', error);
-      throw new Error('Failed to initialize database file.');
+/**
+ * User compounds where every word of the query appears in the name, synonym,
+ * CAS, chemical formula or one of the compound's tags, most recently edited
+ * first. The bundled search (searchCompounds) does not cover the user's library.
+ */
+export async function searchUserCompounds(query: string): Promise<Compound[]> {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return getUserCompounds();
+  const database = await getDatabase();
+  return await database.getAllAsync<Compound>(`
+    ${USER_COMPOUND_SELECT}
+    WHERE ${tokens.map(() => `(${USER_SEARCH_TEXT} LIKE ? OR EXISTS (
+      SELECT 1 FROM user_tags t WHERE t.compound_id = u.id AND t.tag LIKE ?
+    ))`).join(' AND ')}
+    ORDER BY u.updated_at DESC, u.name ASC
+  `, tokens.flatMap(token => [`%${token}%`, `%${token}%`]));
+}
+
+/**
+ * Get a single user compound by its ID.
+ */
+export async function getUserCompound(id: string): Promise<Compound | null> {
+  const database = await getDatabase();
+  return await database.getFirstAsync<Compound>(`${USER_COMPOUND_SELECT} WHERE u.id = ?`, [id]);
+}
+
+async function replaceUserSpectra(
+  database: SQLite.SQLiteDatabase,
+  compoundId: string,
+  spectra: UserSpectrumPoints
+): Promise<void> {
+  if (spectra.absorption) {
+    await database.runAsync('DELETE FROM user_absorptions WHERE compound_id = ?', [compoundId]);
+    for (const p of spectra.absorption) {
+      await database.runAsync(
+        'INSERT INTO user_absorptions (compound_id, wavelength, coefficient) VALUES (?, ?, ?)',
+        [compoundId, p.wavelength, p.coefficient]
+      );
     }
   }
-
-  try {
-    db = await SQLite.openDatabaseAsync(DB_NAME, { useNewConnection: true });
-    return db;
-  } catch (error) {
-    console.error('[DB] Error opening database:', error);
-    throw new Error('Failed to open database connection.');
+  if (spectra.emission) {
+    await database.runAsync('DELETE FROM user_emissions WHERE compound_id = ?', [compoundId]);
+    for (const p of spectra.emission) {
+      await database.runAsync(
+        'INSERT INTO user_emissions (compound_id, wavelength, normalized) VALUES (?, ?, ?)',
+        [compoundId, p.wavelength, p.normalized]
+      );
+    }
   }
 }
 
-// --- Query Functions ---
+/**
+ * Add a compound with its measured spectra to the user's library.
+ */
+export async function createUserCompound(input: UserCompoundInput, spectra: UserSpectrumPoints = {}): Promise<Compound> {
+  const database = await getDatabase();
+  const id = `${USER_COMPOUND_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  const placeholders = USER_INPUT_COLUMNS.map(() => '?').join(', ');
+  await database.withTransactionAsync(async () => {
+    await database.runAsync(
+      `INSERT INTO user_compounds (id, ${USER_INPUT_COLUMNS.join(', ')}) VALUES (?, ${placeholders})`,
+      [id, ...USER_INPUT_COLUMNS.map(c => input[c] ?? null)]
+    );
+    await replaceUserSpectra(database, id, spectra);
+  });
+  const compound = await getUserCompound(id);
+  if (!compound) throw new Error('Failed to save user compound.');
+  return compound;
+}
 
 /**
- * Get all compounds that have valid data (Absorption or Emission).
+ * Update a user compound's metadata and, if given, replace its spectra.
  */
-export async function getCompounds(): Promise<Compound[]> {
+export async function updateUserCompound(
+  id: string,
+  input: UserCompoundInput,
+  spectra: UserSpectrumPoints = {}
+): Promise<Compound> {
   const database = await getDatabase();
-  return await database.getAllAsync<Compound>(`
-    SELECT *
-    FROM compounds 
-    WHERE has_absorption_data = '1' OR has_emission_data = '1'
-    ORDER BY id ASC
+  const assignments = USER_INPUT_COLUMNS.map(c => `${c} = ?`).join(', ');
+  await database.withTransactionAsync(async () => {
+    await database.runAsync(
+      `UPDATE user_compounds SET ${assignments}, updated_at = datetime('now') WHERE id = ?`,
+      [...USER_INPUT_COLUMNS.map(c => input[c] ?? null), id]
+    );
+    await replaceUserSpectra(database, id, spectra);
+  });
+  const compound = await getUserCompound(id);
+  if (!compound) throw new Error(`User compound ${id} not found.`);
+  return compound;
+}
+
+/**
+ * Remove a user compound with its spectra, notes and tags, and take it out of
+ * favorites and collections.
+ */
+export async function deleteUserCompound(id: string): Promise<void> {
+  const database = await getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync('DELETE FROM user_absorptions WHERE compound_id = ?', [id]);
+    await database.runAsync('DELETE FROM user_emissions WHERE compound_id = ?', [id]);
+    await database.runAsync('DELETE FROM user_compounds WHERE id = ?', [id]);
+    await database.runAsync('DELETE FROM user_notes WHERE compound_id = ?', [id]);
+    await database.runAsync('DELETE FROM user_tags WHERE compound_id = ?', [id]);
+    await database.runAsync('DELETE FROM user_favorites WHERE compound_id = ?', [id]);
+    await database.runAsync('DELETE FROM user_collection_items WHERE compound_id = ?', [id]);
+  });
+}
+
+// --- Favorites and Collections ---
+
+export interface CompoundCollection {
+  id: number;
+  name: string;
+  count: number;
+}
+
+/**
+ * IDs of the user's favorite compounds (bundled or user library).
+ */
+export async function getFavoriteIds(): Promise<string[]> {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ compound_id: string }>(`
+    SELECT compound_id FROM user_favorites ORDER BY added_at ASC
   `);
+  return rows.map(r => r.compound_id);
 }
 
 /**
- * Get a single compound by its ID.
+ * Add or remove a compound from favorites. Returns whether it is now a favorite.
  */
-export async function getCompoundById(id: string): Promise<Compound | null> {
+export async function toggleFavorite(compoundId: string): Promise<boolean> {
   const database = await getDatabase();
-  return await database.getFirstAsync<Compound>(`
-    SELECT *
-    FROM compounds 
-    WHERE id = ?
-  `, [id]);
+  const removed = await database.runAsync('DELETE FROM user_favorites WHERE compound_id = ?', [compoundId]);
+  if (removed.changes > 0) return false;
+  await database.runAsync('INSERT INTO user_favorites (compound_id) VALUES (?)', [compoundId]);
+  return true;
 }
 
 /**
- * Get absorption spectrum data for a specific compound.
+ * The user's named collections with their compound counts, by name.
  */
-export async function getAbsorptionData(compoundId: string): Promise<AbsorptionData[]> {
+export async function getCollections(): Promise<CompoundCollection[]> {
   const database = await getDatabase();
-  return await database.getAllAsync<AbsorptionData>(`
-    SELECT compound_id, wavelength, coefficient
-    FROM compounds_absorptions
-    WHERE compound_id = ?
-    ORDER BY wavelength ASC
-  `, [compoundId]);
+  return await database.getAllAsync<CompoundCollection>(`
+    SELECT c.id, c.name, COUNT(i.compound_id) AS count
+    FROM user_collections c
+    LEFT JOIN user_collection_items i ON i.collection_id = c.id
+    GROUP BY c.id
+    ORDER BY c.name COLLATE NOCASE ASC
+  `);
+}
+
+/**
+ * Create a named collection. Names are unique (case-insensitive).
+ */
+export async function createCollection(name: string): Promise<CompoundCollection> {
+  const database = await getDatabase();
+  const result = await database.runAsync('INSERT INTO user_collections (name) VALUES (?)', [name.trim()]);
+  return { id: result.lastInsertRowId, name: name.trim(), count: 0 };
 }
 
 /**
- * Get emission spectrum data for a specific compound.
+ * Delete a collection (the compounds themselves are untouched).
  */
-export async function getEmissionData(compoundId: string): Promise<EmissionData[]> {
+export async function deleteCollection(collectionId: number): Promise<void> {
   const database = await getDatabase();
-  return await database.getAllAsync<EmissionData>(`
-    SELECT compound_id, wavelength, normalized
-    FROM compounds_emissions
-    WHERE compound_id = ?
-    ORDER BY wavelength ASC
+  await database.withTransactionAsync(async () => {
+    await database.runAsync('DELETE FROM user_collection_items WHERE collection_id = ?', [collectionId]);
+    await database.runAsync('DELETE FROM user_collections WHERE id = ?', [collectionId]);
+  });
+}
+
+/**
+ * IDs of the collections containing a compound.
+ */
+export async function getCompoundCollectionIds(compoundId: string): Promise<number[]> {
+  const database = await getDatabase();
+  const rows = await database.getAllAsync<{ collection_id: number }>(`
+    SELECT collection_id FROM user_collection_items WHERE compound_id = ?
   `, [compoundId]);
+  return rows.map(r => r.collection_id);
+}
+
+export async function addToCollection(collectionId: number, compoundId: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    'INSERT OR IGNORE INTO user_collection_items (collection_id, compound_id) VALUES (?, ?)',
+    [collectionId, compoundId]
+  );
+}
+
+export async function removeFromCollection(collectionId: number, compoundId: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    'DELETE FROM user_collection_items WHERE collection_id = ? AND compound_id = ?',
+    [collectionId, compoundId]
+  );
 }
 
 /**
- * Get a list of database categories and the count of compounds in each.
+ * Full records of every compound in favorites or a collection, in the order they
+ * were added, ready to be turned into selected spectra.
  */
-export async function getDatabaseCategories(): Promise<DatabaseCategory[]> {
+export async function getCollectionCompounds(collection: CollectionRef): Promise<Compound[]> {
   const database = await getDatabase();
-  console.log('DB fetching categories'  );
-  const result = await database.getAllAsync<{ database_name: string; count: number }>(`
-    SELECT database_name, COUNT(*) as count
-    FROM compounds    
-    WHERE has_absorption_data = '1' OR has_emission_data = '1'
-    GROUP BY database_name
-    ORDER BY database_name ASC
-  `);
-  
-  return result.map(r => ({ name: r.database_name, count: r.count }));
+  const items = collection === 'favorites'
+    ? { sql: 'SELECT compound_id, added_at, rowid AS item_rowid FROM user_favorites', params: [] }
+    : {
+        sql: 'SELECT compound_id, added_at, rowid AS item_rowid FROM user_collection_items WHERE collection_id = ?',
+        params: [collection],
+      };
+  type Item = { item_added_at: string; item_rowid: number };
+
+  // compounds and user_compounds have different columns, so one joined query each, merged by when items were added
+  const bundled = await database.getAllAsync<Compound & Item>(`
+    SELECT c.*, i.added_at AS item_added_at, i.item_rowid
+    FROM (${items.sql}) i
+    JOIN compounds c ON c.id = i.compound_id
+  `, items.params);
+  const user = await database.getAllAsync<Compound & Item>(`
+    SELECT u.*, i.added_at AS item_added_at, i.item_rowid
+    FROM (${items.sql}) i
+    JOIN (${USER_COMPOUND_SELECT}) u ON u.id = i.compound_id
+  `, items.params);
+
+  return [...bundled, ...user]
+    .sort((a, b) => a.item_added_at.localeCompare(b.item_added_at) || a.item_rowid - b.item_rowid)
+    .map(({ item_added_at, item_rowid, ...compound }) => compound);
+}
+
+// --- Notes and Tags ---
+
+export interface CompoundAnnotation {
+  compound_id: string;
+  note: string;
+  tags: string[];
 }
 
 /**
- * Get compounds filtered by a specific database category.
+ * Notes and tags for the given compounds, keyed by compound ID. Compounds
+ * without either are left out.
  */
-export async function getCompoundsByDatabase(databaseName: string, limit: number = 50): Promise<Compound[]> {
+export async function getCompoundAnnotations(compoundIds: string[]): Promise<Record<string, CompoundAnnotation>> {
+  const result: Record<string, CompoundAnnotation> = {};
+  if (compoundIds.length === 0) return result;
   const database = await getDatabase();
-  return await database.getAllAsync<Compound>(`
-    SELECT *
-    FROM compounds 
-    WHERE database_name = ? 
-      AND (has_absorption_data = '1' OR has_emission_data = '1')
-    ORDER BY name ASC
-    LIMIT ?
-  `, [databaseName, limit]);
+  const ids = JSON.stringify(compoundIds);
+  const notes = await database.getAllAsync<{ compound_id: string; note: string }>(`
+    SELECT compound_id, note FROM user_notes WHERE compound_id IN (SELECT value FROM json_each(?))
+  `, [ids]);
+  const tags = await database.getAllAsync<{ compound_id: string; tag: string }>(`
+    SELECT compound_id, tag FROM user_tags WHERE compound_id IN (SELECT value FROM json_each(?))
+    ORDER BY tag COLLATE NOCASE ASC
+  `, [ids]);
+
+  const entry = (id: string) => (result[id] ??= { compound_id: id, note: '', tags: [] });
+  for (const n of notes) entry(n.compound_id).note = n.note;
+  for (const t of tags) entry(t.compound_id).tags.push(t.tag);
+  return result;
 }
 
 /**
- * Search for compounds by name or ID within a specific database category.
+ * Save the free-text note of a compound; an empty note removes it.
  */
-export async function searchCompoundsInDatabase(databaseName: string, query: string): Promise<Compound[]> {
+export async function saveCompoundNote(compoundId: string, note: string): Promise<void> {
   const database = await getDatabase();
-  const searchTerm = `%${query}%`;
-  return await database.getAllAsync<Compound>(`
-    SELECT *
-    FROM compounds 
-    WHERE database_name = ? 
-      AND (has_absorption_data = '1' OR has_emission_data = '1')
-      AND (name LIKE ? OR id LIKE ?)
-    ORDER BY name ASC
-    LIMIT 50
-  `, [databaseName, searchTerm, searchTerm]);
+  if (!note.trim()) {
+    await database.runAsync('DELETE FROM user_notes WHERE compound_id = ?', [compoundId]);
+    return;
+  }
+  await database.runAsync(`
+    INSERT INTO user_notes (compound_id, note) VALUES (?, ?)
+    ON CONFLICT (compound_id) DO UPDATE SET note = excluded.note, updated_at = datetime('now')
+  `, [compoundId, note.trim()]);
+}
+
+export async function addCompoundTag(compoundId: string, tag: string): Promise<void> {
+  const normalized = tag.trim().replace(/\s+/g, ' ');
+  if (!normalized) return;
+  const database = await getDatabase();
+  await database.runAsync('INSERT OR IGNORE INTO user_tags (compound_id, tag) VALUES (?, ?)', [compoundId, normalized]);
+}
+
+export async function removeCompoundTag(compoundId: string, tag: string): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM user_tags WHERE compound_id = ? AND tag = ?', [compoundId, tag]);
 }
 
 /**
- * Global search for compounds by name or ID across all categories.
+ * Every tag in use, most used first (for suggestions).
  */
-export async function searchCompounds(query: string): Promise<Compound[]> {
+export async function getAllTags(): Promise<string[]> {
   const database = await getDatabase();
-  const searchTerm = `%${query}%`;
-  return await database.getAllAsync<Compound>(`
-    SELECT *
-    FROM compounds 
-    WHERE (has_absorption_data = '1' OR has_emission_data = '1')
-      AND (name LIKE ? OR id LIKE ?)
-    ORDER BY id ASC
-    LIMIT 50
-  `, [searchTerm, searchTerm]);
-}
\ No newline at end of file
+  const rows = await database.getAllAsync<{ tag: string }>(`
+    SELECT tag FROM user_tags GROUP BY tag ORDER BY COUNT(*) DESC, tag COLLATE NOCASE ASC
+  `);
+  return rows.map(r => r.tag);
+}
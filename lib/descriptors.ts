@@ -0,0 +1,67 @@
+// Photophysical descriptors of bundled compounds. They are computed from the
+// spectra at build time (build_descriptor_table in scripts/build_photochemcad_db.py)
+// and stored in compound_descriptors; this module names and formats them so
+// lists can be sorted and filtered on them without loading any spectrum.
+
+export interface CompoundDescriptors {
+  compound_id: string;
+  absorption_max: number | null;          // nm, highest absorption maximum
+  absorption_max_epsilon: number | null;  // M⁻¹cm⁻¹ at absorption_max, scaled by the stored (λ, ε)
+  absorption_fwhm: number | null;         // nm
+  absorption_band_max: number | null;     // nm, maximum of the lowest-energy band
+  integrated_absorption: number | null;   // M⁻¹cm⁻², ∫ε dν̃ over the lowest-energy band
+  emission_max: number | null;            // nm
+  emission_fwhm: number | null;           // nm
+  stokes_shift: number | null;            // cm⁻¹, absorption_band_max → emission_max
+  brightness: number | null;              // M⁻¹cm⁻¹, ε · ΦF
+  radiative_rate: number | null;          // s⁻¹, Strickler–Berg
+  refractive_index: number | null;        // n of the solvent used for radiative_rate
+}
+
+export type DescriptorKey = Exclude<keyof CompoundDescriptors, 'compound_id' | 'refractive_index'>;
+
+export interface DescriptorField {
+  key: DescriptorKey;
+  label: string;
+  unit: string;
+}
+
+export const DESCRIPTOR_FIELDS: DescriptorField[] = [
+  { key: 'absorption_max', label: 'Absorption maximum', unit: 'nm' },
+  { key: 'absorption_max_epsilon', label: 'ε at maximum', unit: 'M⁻¹cm⁻¹' },
+  { key: 'absorption_fwhm', label: 'Absorption FWHM', unit: 'nm' },
+  { key: 'absorption_band_max', label: 'Lowest-energy band', unit: 'nm' },
+  { key: 'integrated_absorption', label: 'Integrated absorption', unit: 'M⁻¹cm⁻²' },
+  { key: 'emission_max', label: 'Emission maximum', unit: 'nm' },
+  { key: 'emission_fwhm', label: 'Emission FWHM', unit: 'nm' },
+  { key: 'stokes_shift', label: 'Stokes shift', unit: 'cm⁻¹' },
+  { key: 'brightness', label: 'Brightness (ε·ΦF)', unit: 'M⁻¹cm⁻¹' },
+  { key: 'radiative_rate', label: 'Radiative rate kr', unit: 's⁻¹' },
+];
+
+const DESCRIPTOR_KEYS = new Set<string>(DESCRIPTOR_FIELDS.map(f => f.key));
+
+export function isDescriptorKey(key: string): key is DescriptorKey {
+  return DESCRIPTOR_KEYS.has(key);
+}
+
+export function getDescriptorField(key: DescriptorKey): DescriptorField {
+  return DESCRIPTOR_FIELDS.find(f => f.key === key)!;
+}
+
+/** Order of a compound list by a descriptor; compounds without a value come last either way. */
+export interface DescriptorSort {
+  key: DescriptorKey;
+  descending: boolean;
+}
+
+/** "568 nm", "1.2e+8 s⁻¹", "85,000 M⁻¹cm⁻¹"; an em dash for a missing value. */
+export function formatDescriptor(key: DescriptorKey, value: number | null | undefined): string {
+  if (value == null || !Number.isFinite(value)) return '—';
+  const { unit } = getDescriptorField(key);
+  const abs = Math.abs(value);
+  const text = abs !== 0 && (abs >= 1e6 || abs < 0.01)
+    ? value.toExponential(2)
+    : value.toLocaleString(undefined, { maximumFractionDigits: abs >= 100 ? 0 : 1 });
+  return `${text} ${unit}`;
+}
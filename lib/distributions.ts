@@ -1,7 +1,7 @@
 // Distribution calculation functions for spectrum comparison
 
 export interface DistributionParams {
-  type: 'blackbody' | 'gaussian' | 'lorentzian';
+  type: 'blackbody' | 'gaussian' | 'lorentzian' | 'light-source';
   lowWavelength: number;
   highWavelength: number;
   // Blackbody specific
@@ -14,6 +14,10 @@ export interface DistributionParams {
   lorentzianPeakWavelength?: number;
   fwhm?: number;
   lorentzianMultiplier?: number;
+  // Measured light source (e.g. solar irradiance) specific
+  lightSourceId?: string;
+  lightSourceName?: string;
+  lightSourcePoints?: DistributionPoint[];
 }
 
 export interface DistributionPoint {
@@ -147,6 +151,30 @@ export function calculateLorentzianSpectrum(
   return points;
 }
 
+/**
+ * Measured light source spectrum (e.g. solar irradiance) clipped to the wavelength range
+ */
+export function calculateLightSourceSpectrum(
+  lowWavelength: number,
+  highWavelength: number,
+  measured: DistributionPoint[]
+): DistributionPoint[] {
+  const points = measured
+    .filter(p => p.wavelength >= lowWavelength && p.wavelength <= highWavelength)
+    // Spectroradiometer noise goes slightly negative in the deep UV
+    .map(p => ({ wavelength: p.wavelength, intensity: Math.max(0, p.intensity) }));
+  
+  // Normalize to reasonable scale for visualization
+  const maxIntensity = Math.max(0, ...points.map(p => p.intensity));
+  if (maxIntensity > 0) {
+    points.forEach(point => {
+      point.intensity = point.intensity / maxIntensity;
+    });
+  }
+  
+  return points;
+}
+
 /**
  * Calculate distribution based on type and parameters
  */
@@ -179,6 +207,13 @@ export function calculateDistribution(params: DistributionParams): DistributionP
         params.lorentzianMultiplier || 1
       );
     
+    case 'light-source':
+      return calculateLightSourceSpectrum(
+        lowWavelength,
+        highWavelength,
+        params.lightSourcePoints || []
+      );
+    
     default:
       return [];
   }
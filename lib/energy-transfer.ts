@@ -1,4 +1,5 @@
 import { getNormalizedIntensity } from "./helpers";
+import { SelectedSpectrum } from "./types";
 
 export type SimulationMode = "forward" | "reverse";
 
@@ -128,8 +129,8 @@ export function calcEnergyTransferReverse(
     ensureAllEmission([composite, ...compSpecs]);
 
     // Build intensity matrices at λ_i
-    const yMix = waves.map(w => getNormalizedIntensity(composite.data, w, 'abs'));             // experimental
-    const A: number[][] = compSpecs.map(s => waves.map(w => getNormalizedIntensity(s.data, w, 'abs'))); // per-component across λ
+    const yMix = waves.map(w => getNormalizedIntensity(composite.spectrum, w));             // experimental
+    const A: number[][] = compSpecs.map(s => waves.map(w => getNormalizedIntensity(s.spectrum, w))); // per-component across λ
 
     // Map UI components to spectrum components by id
     const order: number[] = compSpecs.map(s => {
@@ -0,0 +1,230 @@
+// Chemical formula parsing, molecular weight and elemental composition.
+// scripts/build_photochemcad_db.py (parse_formula) follows the same rules to fill
+// the compound_elements table used by composition searches.
+
+/** Standard atomic weight and monoisotopic mass (most abundant isotope), g/mol. */
+const ELEMENTS: Record<string, [average: number, monoisotopic: number]> = {
+  H: [1.008, 1.00782503], D: [2.01410178, 2.01410178], He: [4.002602, 4.00260325],
+  Li: [6.94, 7.01600344], Be: [9.0121831, 9.01218307], B: [10.81, 11.00930536],
+  C: [12.011, 12], N: [14.007, 14.00307401], O: [15.999, 15.99491462],
+  F: [18.998403163, 18.99840316], Ne: [20.1797, 19.99244018], Na: [22.98976928, 22.98976928],
+  Mg: [24.305, 23.9850417], Al: [26.9815385, 26.98153853], Si: [28.085, 27.97692653],
+  P: [30.973761998, 30.973762], S: [32.06, 31.97207117], Cl: [35.45, 34.96885268],
+  Ar: [39.948, 39.96238312], K: [39.0983, 38.96370649], Ca: [40.078, 39.96259086],
+  Sc: [44.955908, 44.95590828], Ti: [47.867, 47.94794198], V: [50.9415, 50.94395704],
+  Cr: [51.9961, 51.94050623], Mn: [54.938044, 54.93804391], Fe: [55.845, 55.93493633],
+  Co: [58.933194, 58.93319429], Ni: [58.6934, 57.93534241], Cu: [63.546, 62.92959772],
+  Zn: [65.38, 63.92914201], Ga: [69.723, 68.9255735], Ge: [72.63, 73.92117776],
+  As: [74.921595, 74.92159457], Se: [78.971, 79.9165218], Br: [79.904, 78.9183376],
+  Kr: [83.798, 83.91149773], Rb: [85.4678, 84.91178974], Sr: [87.62, 87.9056125],
+  Y: [88.90584, 88.9058403], Zr: [91.224, 89.9046977], Nb: [92.90637, 92.906373],
+  Mo: [95.95, 97.90540482], Tc: [98, 97.9072124], Ru: [101.07, 101.9043441],
+  Rh: [102.9055, 102.905498], Pd: [106.42, 105.9034804], Ag: [107.8682, 106.9050916],
+  Cd: [112.414, 113.9033651], In: [114.818, 114.9038788], Sn: [118.71, 119.9022016],
+  Sb: [121.76, 120.903812], Te: [127.6, 129.9062227], I: [126.90447, 126.9044719],
+  Xe: [131.293, 131.9041551], Cs: [132.90545196, 132.905452], Ba: [137.327, 137.905247],
+  La: [138.90547, 138.9063563], Ce: [140.116, 139.9054431], Pr: [140.90766, 140.9076576],
+  Nd: [144.242, 141.907729], Pm: [145, 144.9127559], Sm: [150.36, 151.9197397],
+  Eu: [151.964, 152.921238], Gd: [157.25, 157.9241123], Tb: [158.92535, 158.9253547],
+  Dy: [162.5, 163.9291819], Ho: [164.93033, 164.9303288], Er: [167.259, 165.9302995],
+  Tm: [168.93422, 168.9342179], Yb: [173.045, 173.9388664], Lu: [174.9668, 174.9407752],
+  Hf: [178.49, 179.946557], Ta: [180.94788, 180.9479958], W: [183.84, 183.9509309],
+  Re: [186.207, 186.9557501], Os: [190.23, 191.961477], Ir: [192.217, 192.9629216],
+  Pt: [195.084, 194.9647917], Au: [196.966569, 196.9665688], Hg: [200.592, 201.9706434],
+  Tl: [204.38, 204.9744278], Pb: [207.2, 207.9766525], Bi: [208.9804, 208.9803991],
+  Po: [209, 208.9824308], At: [210, 209.9871479], Rn: [222, 222.0175782],
+  Fr: [223, 223.019736], Ra: [226, 226.0254103], Ac: [227, 227.0277523],
+  Th: [232.0377, 232.0380558], Pa: [231.03588, 231.0358842], U: [238.02891, 238.0507884],
+};
+
+const ELECTRON_MASS = 0.000548579909;
+
+/** Stored and calculated molecular weights may differ by this much (g/mol) before a compound is flagged. */
+export const MW_TOLERANCE = 0.5;
+
+export interface ParsedFormula {
+  /** Atoms per formula unit; fractional for e.g. hemihydrates. */
+  counts: Record<string, number>;
+  charge: number;
+}
+
+export interface ElementComposition {
+  element: string;
+  count: number;
+  massPercent: number;
+}
+
+export function isElementSymbol(symbol: string): boolean {
+  return symbol in ELEMENTS;
+}
+
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+};
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-',
+};
+const OPEN = '([{';
+const CLOSE = ')]}';
+
+/**
+ * Parse a formula such as "C20H24N2O2", "Zn(C32H16N8)", "[Fe(CN)6]3-",
+ * "CuSO4·5H2O", "C2H3NaO2 . 3 H2O" or "NH4+". A trailing charge needs a "^",
+ * a space or a closing bracket before its digits ("SO4^2-", "SO4 2-"), or no
+ * digits at all ("NH4+"). Returns null for anything that is not a formula
+ * (unknown symbols, unbalanced brackets).
+ */
+export function parseFormula(text: string | null | undefined): ParsedFormula | null {
+  if (!text) return null;
+  let formula = text
+    .trim()
+    .replace(/[₀-₉]/g, c => SUBSCRIPTS[c])
+    .replace(/([⁰-⁹¹²³]*)([⁺⁻])$/, (_, digits: string, sign: string) =>
+      `^${digits.replace(/./g, c => SUPERSCRIPTS[c])}${SUPERSCRIPTS[sign]}`
+    )
+    .replace(/[·•∙*]/g, '.');
+
+  let charge = 0;
+  const chargeMatch = formula.match(/(?:\^|\s|(?<=[)\]}]))(\d*)([+-])$/) ?? formula.match(/()([+-]+)$/);
+  if (chargeMatch) {
+    const sign = chargeMatch[2][0] === '+' ? 1 : -1;
+    const magnitude = chargeMatch[1] ? parseInt(chargeMatch[1], 10) : chargeMatch[2].length;
+    charge = sign * magnitude;
+    formula = formula.slice(0, chargeMatch.index).replace(/\^$/, '');
+  }
+  formula = formula.replace(/\s+/g, '');
+  if (!formula) return null;
+
+  const counts: Record<string, number> = {};
+  for (const part of splitHydrateParts(formula)) {
+    const lead = part.match(/^\d+(?:\.\d+)?/);
+    const multiplier = lead ? parseFloat(lead[0]) : 1;
+    const group = parseGroup(lead ? part.slice(lead[0].length) : part);
+    if (!group) return null;
+    for (const [element, n] of Object.entries(group)) counts[element] = (counts[element] ?? 0) + n * multiplier;
+  }
+  return { counts, charge };
+}
+
+/**
+ * "CuSO4.5H2O" → ["CuSO4", "5H2O"]; "X.0.5H2O" → ["X", "0.5H2O"]. A "." is a
+ * decimal point only inside a leading coefficient.
+ */
+function splitHydrateParts(formula: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const c of formula) {
+    if (c === '.' && !/^\d+$/.test(current)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseGroup(text: string): Record<string, number> | null {
+  if (!text) return null;
+  const stack: Record<string, number>[] = [{}];
+  const closers: string[] = [];
+  let i = 0;
+  const readNumber = (): number => {
+    const m = text.slice(i).match(/^\d+(?:\.\d+)?/);
+    if (!m) return 1;
+    i += m[0].length;
+    return parseFloat(m[0]);
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (OPEN.includes(c)) {
+      stack.push({});
+      closers.push(CLOSE[OPEN.indexOf(c)]);
+      i++;
+    } else if (CLOSE.includes(c)) {
+      if (closers.pop() !== c) return null;
+      i++;
+      const n = readNumber();
+      const inner = stack.pop()!;
+      const top = stack[stack.length - 1];
+      for (const [element, count] of Object.entries(inner)) top[element] = (top[element] ?? 0) + count * n;
+    } else {
+      const m = text.slice(i).match(/^[A-Z][a-z]?/);
+      if (!m) return null;
+      // "Co" is cobalt, but "CO" is carbon + oxygen; an unknown two-letter symbol is not split
+      const symbol = m[0];
+      if (!isElementSymbol(symbol)) return null;
+      i += symbol.length;
+      const top = stack[stack.length - 1];
+      top[symbol] = (top[symbol] ?? 0) + readNumber();
+    }
+  }
+  if (closers.length > 0) return null;
+  const counts = stack[0];
+  return Object.keys(counts).length > 0 ? counts : null;
+}
+
+/** Average molecular weight (g/mol). */
+export function molecularWeight({ counts }: ParsedFormula): number {
+  return Object.entries(counts).reduce((sum, [element, n]) => sum + ELEMENTS[element][0] * n, 0);
+}
+
+/** Monoisotopic (exact) mass of the most abundant isotopes, corrected for the charge. */
+export function exactMass({ counts, charge }: ParsedFormula): number {
+  const neutral = Object.entries(counts).reduce((sum, [element, n]) => sum + ELEMENTS[element][1] * n, 0);
+  return neutral - charge * ELECTRON_MASS;
+}
+
+/** Element counts and mass fractions in Hill order (C, H, then alphabetical). */
+export function elementalComposition(parsed: ParsedFormula): ElementComposition[] {
+  const total = molecularWeight(parsed);
+  return hillOrder(Object.keys(parsed.counts)).map(element => ({
+    element,
+    count: parsed.counts[element],
+    massPercent: total > 0 ? (ELEMENTS[element][0] * parsed.counts[element] * 100) / total : 0,
+  }));
+}
+
+function hillOrder(elements: string[]): string[] {
+  const hasCarbon = elements.includes('C');
+  const rank = (e: string) => (hasCarbon ? (e === 'C' ? 0 : e === 'H' ? 1 : 2) : 2);
+  return [...elements].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+/** Hill-order formula string, e.g. "C32H16N8Zn" or "H2O4S^2-". */
+export function formatHillFormula(parsed: ParsedFormula): string {
+  const body = hillOrder(Object.keys(parsed.counts))
+    .map(e => {
+      const n = Math.round(parsed.counts[e] * 1000) / 1000;
+      return n === 1 ? e : `${e}${n}`;
+    })
+    .join('');
+  if (parsed.charge === 0) return body;
+  const magnitude = Math.abs(parsed.charge);
+  return `${body}^${magnitude === 1 ? '' : magnitude}${parsed.charge > 0 ? '+' : '-'}`;
+}
+
+export interface MolecularWeightCheck {
+  calculated: number;
+  stored: number;
+  difference: number;  // stored − calculated
+  matches: boolean;
+}
+
+/**
+ * Compare a stored molecular weight with the one calculated from the formula.
+ * Returns null when either is missing or the formula cannot be parsed.
+ */
+export function checkMolecularWeight(
+  formula: string | null | undefined,
+  stored: number | string | null | undefined
+): MolecularWeightCheck | null {
+  const parsed = parseFormula(formula);
+  const storedValue = typeof stored === 'string' ? parseFloat(stored) : stored;
+  if (!parsed || storedValue == null || !Number.isFinite(storedValue) || storedValue <= 0) return null;
+  const calculated = molecularWeight(parsed);
+  const difference = storedValue - calculated;
+  return { calculated, stored: storedValue, difference, matches: Math.abs(difference) <= MW_TOLERANCE };
+}
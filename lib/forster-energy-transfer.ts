@@ -1,4 +1,5 @@
-import { getIntensity, getSpectrumArea, sortAsc, yE } from "./helpers";
+import { getIntensity, getSpectrumArea } from "./helpers";
+import { Spectrum } from "./spectrum";
 
 export interface ForsterEnergyTransferParams {
   refractiveIndex: number;       // n
@@ -24,15 +25,14 @@ export interface ForsterEnergyTransferResults {
 
 // ---------- Main (direct port of your CS CalculateForsterEnergyTransfer) ----------
 export function calculateForsterEnergyTransfer(
-  donorEmissionData: SpectrumData[],
-  acceptorAbsorptionData: SpectrumData[],
+  donorEmission: Spectrum,
+  acceptorAbsorption: Spectrum,
   params: ForsterEnergyTransferParams
 ): ForsterEnergyTransferResults | null {
-  if (donorEmissionData.length < 2 || acceptorAbsorptionData.length < 2) return null;
-
-  // sort ascending (CS ensures ascending inside GetIntensity by sorting if needed)
-  const ems = sortAsc(donorEmissionData);
-  const abs = sortAsc(acceptorAbsorptionData);
+  // packed spectra are sorted ascending (CS ensures ascending inside GetIntensity by sorting if needed)
+  const ems = donorEmission;
+  const abs = acceptorAbsorption;
+  if (ems.wavelengths.length < 2 || abs.wavelengths.length < 2) return null;
 
   // Overlap range: use the provided low/high (as in your CS; auto-overlap code is commented there)
   const overlapLow  = params.lowWavelength;
@@ -47,30 +47,30 @@ export function calculateForsterEnergyTransfer(
   // ε(λ) anchor
   const epsilon  = params.acceptorEpsilon;
   const lamStar  = params.wavelengthForEpsilon;
-  const IstarAbs = getIntensity(abs, lamStar, "abs");
+  const IstarAbs = getIntensity(abs, lamStar);
   if (!(epsilon > 0) || !(IstarAbs > 0)) return null;
 
   let J = 0.0;
   let Dexter = 0.0;
 
   // Loop over emission segments; include segment only if current point is inside [low, high] (CS behavior)
-  for (let m = 1; m < ems.length; m++) {
-    const thisPt = ems[m];
-    if (thisPt.wavelength < overlapLow || thisPt.wavelength > overlapHigh) continue;
+  for (let m = 1; m < ems.wavelengths.length; m++) {
+    const thisW = ems.wavelengths[m];
+    if (thisW < overlapLow || thisW > overlapHigh) continue;
 
-    const prePt = ems[m - 1];
+    const preW = ems.wavelengths[m - 1];
 
-    const v1 = 1e7 / prePt.wavelength;  // cm^-1
-    const v2 = 1e7 / thisPt.wavelength; // cm^-1
+    const v1 = 1e7 / preW;  // cm^-1
+    const v2 = 1e7 / thisW; // cm^-1
 
-    const f1 = yE(prePt)  / fluoArea;
-    const f2 = yE(thisPt) / fluoArea;
+    const f1 = ems.values[m - 1] / fluoArea;
+    const f2 = ems.values[m]     / fluoArea;
 
-    const deltaX = Math.abs(thisPt.wavelength - prePt.wavelength); // nm
+    const deltaX = Math.abs(thisW - preW); // nm
 
     // absorption intensities at same λ
-    const a1 = getIntensity(abs, prePt.wavelength,  "abs");
-    const a2 = getIntensity(abs, thisPt.wavelength, "abs");
+    const a1 = getIntensity(abs, preW);
+    const a2 = getIntensity(abs, thisW);
 
     // scale to ε(λ) via anchor
     const e1 = epsilon * a1 / IstarAbs;
@@ -1,13 +1,7 @@
 import { getIntensity, getNormalizedIntensity } from "./helpers";
+import { Spectrum } from "./spectrum";
 
 // Types you already have in your project
-export interface SpectrumData {
-  compound_id: string;
-  wavelength: number;   // nm
-  coefficient?: number; // absorption Y
-  normalized?: number;  // emission Y
-}
-
 export interface Compound {
   id: string;
   name: string;
@@ -18,7 +12,7 @@ export interface Compound {
 export interface SelectedSpectrum {
   compound: Compound;
   type: "absorption" | "emission";
-  data: SpectrumData[];
+  spectrum: Spectrum;
 }
 
 export interface ComponentInput {
@@ -241,11 +235,11 @@ export function calculateMultipleComponentAnalysisSimplex(
   const allCompIntens: number[][] = []; // [comp][iWave]
   for (let j = 0; j < nVars; j++) {
     const spec = componentSpectra[j];
-    const arr = waves.map(w => getNormalizedIntensity(spec.data, w));
+    const arr = waves.map(w => getNormalizedIntensity(spec.spectrum, w));
     allCompIntens.push(arr);
   }
 
-  const compositeIntens: number[] = waves.map(w => getNormalizedIntensity(composite.data, w));
+  const compositeIntens: number[] = waves.map(w => getNormalizedIntensity(composite.spectrum, w));
 
   // tolerance scaling like your C# caller
   const maxComposite = compositeIntens.reduce((m, v) => Math.max(m, v), 0);
@@ -0,0 +1,332 @@
+// Generated by scripts/generate-mo-images.js – do not edit by hand
+
+export interface MoImageEntry {
+  key: string;             // "{set}/{name}", unique
+  set: string;             // folder under assets/database/mo
+  name: string;            // file name without extension
+  baseId: string;          // name without the variant suffix
+  variant: string | null;  // e.g. "AF", "T1F", "BF"
+  source: number;
+}
+
+export const moImages: MoImageEntry[] = [
+  { key: 'bacteriochlorins/B-1', set: 'bacteriochlorins', name: 'B-1', baseId: 'B-1', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-1.png') },
+  { key: 'bacteriochlorins/B-1T1F', set: 'bacteriochlorins', name: 'B-1T1F', baseId: 'B-1', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-1T1F.png') },
+  { key: 'bacteriochlorins/B-2', set: 'bacteriochlorins', name: 'B-2', baseId: 'B-2', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-2.png') },
+  { key: 'bacteriochlorins/B-2T1F', set: 'bacteriochlorins', name: 'B-2T1F', baseId: 'B-2', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-2T1F.png') },
+  { key: 'bacteriochlorins/B-3', set: 'bacteriochlorins', name: 'B-3', baseId: 'B-3', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-3.png') },
+  { key: 'bacteriochlorins/B-3T1F', set: 'bacteriochlorins', name: 'B-3T1F', baseId: 'B-3', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-3T1F.png') },
+  { key: 'bacteriochlorins/B-4', set: 'bacteriochlorins', name: 'B-4', baseId: 'B-4', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-4.png') },
+  { key: 'bacteriochlorins/B-4T1F', set: 'bacteriochlorins', name: 'B-4T1F', baseId: 'B-4', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-4T1F.png') },
+  { key: 'bacteriochlorins/B-5', set: 'bacteriochlorins', name: 'B-5', baseId: 'B-5', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-5.png') },
+  { key: 'bacteriochlorins/B-5T1F', set: 'bacteriochlorins', name: 'B-5T1F', baseId: 'B-5', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-5T1F.png') },
+  { key: 'bacteriochlorins/B-6', set: 'bacteriochlorins', name: 'B-6', baseId: 'B-6', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-6.png') },
+  { key: 'bacteriochlorins/B-8', set: 'bacteriochlorins', name: 'B-8', baseId: 'B-8', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-8.png') },
+  { key: 'bacteriochlorins/B-8T1F', set: 'bacteriochlorins', name: 'B-8T1F', baseId: 'B-8', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-8T1F.png') },
+  { key: 'bacteriochlorins/B-9', set: 'bacteriochlorins', name: 'B-9', baseId: 'B-9', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-9.png') },
+  { key: 'bacteriochlorins/B-9T1F', set: 'bacteriochlorins', name: 'B-9T1F', baseId: 'B-9', variant: 'T1F', source: require('../assets/database/mo/bacteriochlorins/B-9T1F.png') },
+  { key: 'bacteriochlorins/B-11', set: 'bacteriochlorins', name: 'B-11', baseId: 'B-11', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-11.png') },
+  { key: 'bacteriochlorins/B-12', set: 'bacteriochlorins', name: 'B-12', baseId: 'B-12', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-12.png') },
+  { key: 'bacteriochlorins/B-13', set: 'bacteriochlorins', name: 'B-13', baseId: 'B-13', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-13.png') },
+  { key: 'bacteriochlorins/B-14', set: 'bacteriochlorins', name: 'B-14', baseId: 'B-14', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-14.png') },
+  { key: 'bacteriochlorins/B-40', set: 'bacteriochlorins', name: 'B-40', baseId: 'B-40', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-40.png') },
+  { key: 'bacteriochlorins/B-40AF', set: 'bacteriochlorins', name: 'B-40AF', baseId: 'B-40', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-40AF.png') },
+  { key: 'bacteriochlorins/B-41', set: 'bacteriochlorins', name: 'B-41', baseId: 'B-41', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-41.png') },
+  { key: 'bacteriochlorins/B-42', set: 'bacteriochlorins', name: 'B-42', baseId: 'B-42', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-42.png') },
+  { key: 'bacteriochlorins/B-43', set: 'bacteriochlorins', name: 'B-43', baseId: 'B-43', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-43.png') },
+  { key: 'bacteriochlorins/B-45', set: 'bacteriochlorins', name: 'B-45', baseId: 'B-45', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-45.png') },
+  { key: 'bacteriochlorins/B-46', set: 'bacteriochlorins', name: 'B-46', baseId: 'B-46', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-46.png') },
+  { key: 'bacteriochlorins/B-50', set: 'bacteriochlorins', name: 'B-50', baseId: 'B-50', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-50.png') },
+  { key: 'bacteriochlorins/B-51', set: 'bacteriochlorins', name: 'B-51', baseId: 'B-51', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-51.png') },
+  { key: 'bacteriochlorins/B-52', set: 'bacteriochlorins', name: 'B-52', baseId: 'B-52', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-52.png') },
+  { key: 'bacteriochlorins/B-54', set: 'bacteriochlorins', name: 'B-54', baseId: 'B-54', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-54.png') },
+  { key: 'bacteriochlorins/B-55', set: 'bacteriochlorins', name: 'B-55', baseId: 'B-55', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-55.png') },
+  { key: 'bacteriochlorins/B-56', set: 'bacteriochlorins', name: 'B-56', baseId: 'B-56', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-56.png') },
+  { key: 'bacteriochlorins/B-57', set: 'bacteriochlorins', name: 'B-57', baseId: 'B-57', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-57.png') },
+  { key: 'bacteriochlorins/B-61', set: 'bacteriochlorins', name: 'B-61', baseId: 'B-61', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-61.png') },
+  { key: 'bacteriochlorins/B-62', set: 'bacteriochlorins', name: 'B-62', baseId: 'B-62', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-62.png') },
+  { key: 'bacteriochlorins/B-63', set: 'bacteriochlorins', name: 'B-63', baseId: 'B-63', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-63.png') },
+  { key: 'bacteriochlorins/B-64', set: 'bacteriochlorins', name: 'B-64', baseId: 'B-64', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-64.png') },
+  { key: 'bacteriochlorins/B-65', set: 'bacteriochlorins', name: 'B-65', baseId: 'B-65', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-65.png') },
+  { key: 'bacteriochlorins/B-66', set: 'bacteriochlorins', name: 'B-66', baseId: 'B-66', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-66.png') },
+  { key: 'bacteriochlorins/B-67', set: 'bacteriochlorins', name: 'B-67', baseId: 'B-67', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-67.png') },
+  { key: 'bacteriochlorins/B-74', set: 'bacteriochlorins', name: 'B-74', baseId: 'B-74', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-74.png') },
+  { key: 'bacteriochlorins/B-74AF', set: 'bacteriochlorins', name: 'B-74AF', baseId: 'B-74', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-74AF.png') },
+  { key: 'bacteriochlorins/B-75', set: 'bacteriochlorins', name: 'B-75', baseId: 'B-75', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-75.png') },
+  { key: 'bacteriochlorins/B-75AF', set: 'bacteriochlorins', name: 'B-75AF', baseId: 'B-75', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-75AF.png') },
+  { key: 'bacteriochlorins/B-78', set: 'bacteriochlorins', name: 'B-78', baseId: 'B-78', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-78.png') },
+  { key: 'bacteriochlorins/B-84', set: 'bacteriochlorins', name: 'B-84', baseId: 'B-84', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-84.png') },
+  { key: 'bacteriochlorins/B-86', set: 'bacteriochlorins', name: 'B-86', baseId: 'B-86', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-86.png') },
+  { key: 'bacteriochlorins/B-87', set: 'bacteriochlorins', name: 'B-87', baseId: 'B-87', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-87.png') },
+  { key: 'bacteriochlorins/B-88', set: 'bacteriochlorins', name: 'B-88', baseId: 'B-88', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-88.png') },
+  { key: 'bacteriochlorins/B-92', set: 'bacteriochlorins', name: 'B-92', baseId: 'B-92', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-92.png') },
+  { key: 'bacteriochlorins/B-93', set: 'bacteriochlorins', name: 'B-93', baseId: 'B-93', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-93.png') },
+  { key: 'bacteriochlorins/B-93AF', set: 'bacteriochlorins', name: 'B-93AF', baseId: 'B-93', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-93AF.png') },
+  { key: 'bacteriochlorins/B-94', set: 'bacteriochlorins', name: 'B-94', baseId: 'B-94', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-94.png') },
+  { key: 'bacteriochlorins/B-96', set: 'bacteriochlorins', name: 'B-96', baseId: 'B-96', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-96.png') },
+  { key: 'bacteriochlorins/B-97', set: 'bacteriochlorins', name: 'B-97', baseId: 'B-97', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-97.png') },
+  { key: 'bacteriochlorins/B-97AF', set: 'bacteriochlorins', name: 'B-97AF', baseId: 'B-97', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-97AF.png') },
+  { key: 'bacteriochlorins/B-97BF', set: 'bacteriochlorins', name: 'B-97BF', baseId: 'B-97', variant: 'BF', source: require('../assets/database/mo/bacteriochlorins/B-97BF.png') },
+  { key: 'bacteriochlorins/B-112', set: 'bacteriochlorins', name: 'B-112', baseId: 'B-112', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-112.png') },
+  { key: 'bacteriochlorins/B-132', set: 'bacteriochlorins', name: 'B-132', baseId: 'B-132', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-132.png') },
+  { key: 'bacteriochlorins/B-133', set: 'bacteriochlorins', name: 'B-133', baseId: 'B-133', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-133.png') },
+  { key: 'bacteriochlorins/B-167', set: 'bacteriochlorins', name: 'B-167', baseId: 'B-167', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-167.png') },
+  { key: 'bacteriochlorins/B-168', set: 'bacteriochlorins', name: 'B-168', baseId: 'B-168', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-168.png') },
+  { key: 'bacteriochlorins/B-169', set: 'bacteriochlorins', name: 'B-169', baseId: 'B-169', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-169.png') },
+  { key: 'bacteriochlorins/B-169AF', set: 'bacteriochlorins', name: 'B-169AF', baseId: 'B-169', variant: 'AF', source: require('../assets/database/mo/bacteriochlorins/B-169AF.png') },
+  { key: 'bacteriochlorins/B-173', set: 'bacteriochlorins', name: 'B-173', baseId: 'B-173', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-173.png') },
+  { key: 'bacteriochlorins/B-174', set: 'bacteriochlorins', name: 'B-174', baseId: 'B-174', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-174.png') },
+  { key: 'bacteriochlorins/B-179', set: 'bacteriochlorins', name: 'B-179', baseId: 'B-179', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-179.png') },
+  { key: 'bacteriochlorins/B-180', set: 'bacteriochlorins', name: 'B-180', baseId: 'B-180', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-180.png') },
+  { key: 'bacteriochlorins/B-181', set: 'bacteriochlorins', name: 'B-181', baseId: 'B-181', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-181.png') },
+  { key: 'bacteriochlorins/B-183', set: 'bacteriochlorins', name: 'B-183', baseId: 'B-183', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-183.png') },
+  { key: 'bacteriochlorins/B-209', set: 'bacteriochlorins', name: 'B-209', baseId: 'B-209', variant: null, source: require('../assets/database/mo/bacteriochlorins/B-209.png') },
+  { key: 'bacteriochlorins/SE-367', set: 'bacteriochlorins', name: 'SE-367', baseId: 'SE-367', variant: null, source: require('../assets/database/mo/bacteriochlorins/SE-367.png') },
+  { key: 'bacteriochlorins/SE-368', set: 'bacteriochlorins', name: 'SE-368', baseId: 'SE-368', variant: null, source: require('../assets/database/mo/bacteriochlorins/SE-368.png') },
+  { key: 'chlorins/B-1', set: 'chlorins', name: 'B-1', baseId: 'B-1', variant: null, source: require('../assets/database/mo/chlorins/B-1.png') },
+  { key: 'chlorins/B-1T1F', set: 'chlorins', name: 'B-1T1F', baseId: 'B-1', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-1T1F.png') },
+  { key: 'chlorins/B-2', set: 'chlorins', name: 'B-2', baseId: 'B-2', variant: null, source: require('../assets/database/mo/chlorins/B-2.png') },
+  { key: 'chlorins/B-2T1F', set: 'chlorins', name: 'B-2T1F', baseId: 'B-2', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-2T1F.png') },
+  { key: 'chlorins/B-3', set: 'chlorins', name: 'B-3', baseId: 'B-3', variant: null, source: require('../assets/database/mo/chlorins/B-3.png') },
+  { key: 'chlorins/B-3T1F', set: 'chlorins', name: 'B-3T1F', baseId: 'B-3', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-3T1F.png') },
+  { key: 'chlorins/B-4', set: 'chlorins', name: 'B-4', baseId: 'B-4', variant: null, source: require('../assets/database/mo/chlorins/B-4.png') },
+  { key: 'chlorins/B-4T1F', set: 'chlorins', name: 'B-4T1F', baseId: 'B-4', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-4T1F.png') },
+  { key: 'chlorins/B-5', set: 'chlorins', name: 'B-5', baseId: 'B-5', variant: null, source: require('../assets/database/mo/chlorins/B-5.png') },
+  { key: 'chlorins/B-5T1F', set: 'chlorins', name: 'B-5T1F', baseId: 'B-5', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-5T1F.png') },
+  { key: 'chlorins/B-6', set: 'chlorins', name: 'B-6', baseId: 'B-6', variant: null, source: require('../assets/database/mo/chlorins/B-6.png') },
+  { key: 'chlorins/B-8', set: 'chlorins', name: 'B-8', baseId: 'B-8', variant: null, source: require('../assets/database/mo/chlorins/B-8.png') },
+  { key: 'chlorins/B-8T1F', set: 'chlorins', name: 'B-8T1F', baseId: 'B-8', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-8T1F.png') },
+  { key: 'chlorins/B-9', set: 'chlorins', name: 'B-9', baseId: 'B-9', variant: null, source: require('../assets/database/mo/chlorins/B-9.png') },
+  { key: 'chlorins/B-9T1F', set: 'chlorins', name: 'B-9T1F', baseId: 'B-9', variant: 'T1F', source: require('../assets/database/mo/chlorins/B-9T1F.png') },
+  { key: 'chlorins/B-11', set: 'chlorins', name: 'B-11', baseId: 'B-11', variant: null, source: require('../assets/database/mo/chlorins/B-11.png') },
+  { key: 'chlorins/B-12', set: 'chlorins', name: 'B-12', baseId: 'B-12', variant: null, source: require('../assets/database/mo/chlorins/B-12.png') },
+  { key: 'chlorins/B-13', set: 'chlorins', name: 'B-13', baseId: 'B-13', variant: null, source: require('../assets/database/mo/chlorins/B-13.png') },
+  { key: 'chlorins/B-14', set: 'chlorins', name: 'B-14', baseId: 'B-14', variant: null, source: require('../assets/database/mo/chlorins/B-14.png') },
+  { key: 'chlorins/B-40', set: 'chlorins', name: 'B-40', baseId: 'B-40', variant: null, source: require('../assets/database/mo/chlorins/B-40.png') },
+  { key: 'chlorins/B-40AF', set: 'chlorins', name: 'B-40AF', baseId: 'B-40', variant: 'AF', source: require('../assets/database/mo/chlorins/B-40AF.png') },
+  { key: 'chlorins/B-41', set: 'chlorins', name: 'B-41', baseId: 'B-41', variant: null, source: require('../assets/database/mo/chlorins/B-41.png') },
+  { key: 'chlorins/B-42', set: 'chlorins', name: 'B-42', baseId: 'B-42', variant: null, source: require('../assets/database/mo/chlorins/B-42.png') },
+  { key: 'chlorins/B-43', set: 'chlorins', name: 'B-43', baseId: 'B-43', variant: null, source: require('../assets/database/mo/chlorins/B-43.png') },
+  { key: 'chlorins/B-45', set: 'chlorins', name: 'B-45', baseId: 'B-45', variant: null, source: require('../assets/database/mo/chlorins/B-45.png') },
+  { key: 'chlorins/B-46', set: 'chlorins', name: 'B-46', baseId: 'B-46', variant: null, source: require('../assets/database/mo/chlorins/B-46.png') },
+  { key: 'chlorins/B-50', set: 'chlorins', name: 'B-50', baseId: 'B-50', variant: null, source: require('../assets/database/mo/chlorins/B-50.png') },
+  { key: 'chlorins/B-51', set: 'chlorins', name: 'B-51', baseId: 'B-51', variant: null, source: require('../assets/database/mo/chlorins/B-51.png') },
+  { key: 'chlorins/B-52', set: 'chlorins', name: 'B-52', baseId: 'B-52', variant: null, source: require('../assets/database/mo/chlorins/B-52.png') },
+  { key: 'chlorins/B-54', set: 'chlorins', name: 'B-54', baseId: 'B-54', variant: null, source: require('../assets/database/mo/chlorins/B-54.png') },
+  { key: 'chlorins/B-55', set: 'chlorins', name: 'B-55', baseId: 'B-55', variant: null, source: require('../assets/database/mo/chlorins/B-55.png') },
+  { key: 'chlorins/B-56', set: 'chlorins', name: 'B-56', baseId: 'B-56', variant: null, source: require('../assets/database/mo/chlorins/B-56.png') },
+  { key: 'chlorins/B-57', set: 'chlorins', name: 'B-57', baseId: 'B-57', variant: null, source: require('../assets/database/mo/chlorins/B-57.png') },
+  { key: 'chlorins/B-61', set: 'chlorins', name: 'B-61', baseId: 'B-61', variant: null, source: require('../assets/database/mo/chlorins/B-61.png') },
+  { key: 'chlorins/B-62', set: 'chlorins', name: 'B-62', baseId: 'B-62', variant: null, source: require('../assets/database/mo/chlorins/B-62.png') },
+  { key: 'chlorins/B-63', set: 'chlorins', name: 'B-63', baseId: 'B-63', variant: null, source: require('../assets/database/mo/chlorins/B-63.png') },
+  { key: 'chlorins/B-64', set: 'chlorins', name: 'B-64', baseId: 'B-64', variant: null, source: require('../assets/database/mo/chlorins/B-64.png') },
+  { key: 'chlorins/B-65', set: 'chlorins', name: 'B-65', baseId: 'B-65', variant: null, source: require('../assets/database/mo/chlorins/B-65.png') },
+  { key: 'chlorins/B-66', set: 'chlorins', name: 'B-66', baseId: 'B-66', variant: null, source: require('../assets/database/mo/chlorins/B-66.png') },
+  { key: 'chlorins/B-67', set: 'chlorins', name: 'B-67', baseId: 'B-67', variant: null, source: require('../assets/database/mo/chlorins/B-67.png') },
+  { key: 'chlorins/B-74', set: 'chlorins', name: 'B-74', baseId: 'B-74', variant: null, source: require('../assets/database/mo/chlorins/B-74.png') },
+  { key: 'chlorins/B-74AF', set: 'chlorins', name: 'B-74AF', baseId: 'B-74', variant: 'AF', source: require('../assets/database/mo/chlorins/B-74AF.png') },
+  { key: 'chlorins/B-75', set: 'chlorins', name: 'B-75', baseId: 'B-75', variant: null, source: require('../assets/database/mo/chlorins/B-75.png') },
+  { key: 'chlorins/B-75AF', set: 'chlorins', name: 'B-75AF', baseId: 'B-75', variant: 'AF', source: require('../assets/database/mo/chlorins/B-75AF.png') },
+  { key: 'chlorins/B-78', set: 'chlorins', name: 'B-78', baseId: 'B-78', variant: null, source: require('../assets/database/mo/chlorins/B-78.png') },
+  { key: 'chlorins/B-84', set: 'chlorins', name: 'B-84', baseId: 'B-84', variant: null, source: require('../assets/database/mo/chlorins/B-84.png') },
+  { key: 'chlorins/B-86', set: 'chlorins', name: 'B-86', baseId: 'B-86', variant: null, source: require('../assets/database/mo/chlorins/B-86.png') },
+  { key: 'chlorins/B-87', set: 'chlorins', name: 'B-87', baseId: 'B-87', variant: null, source: require('../assets/database/mo/chlorins/B-87.png') },
+  { key: 'chlorins/B-88', set: 'chlorins', name: 'B-88', baseId: 'B-88', variant: null, source: require('../assets/database/mo/chlorins/B-88.png') },
+  { key: 'chlorins/B-92', set: 'chlorins', name: 'B-92', baseId: 'B-92', variant: null, source: require('../assets/database/mo/chlorins/B-92.png') },
+  { key: 'chlorins/B-93', set: 'chlorins', name: 'B-93', baseId: 'B-93', variant: null, source: require('../assets/database/mo/chlorins/B-93.png') },
+  { key: 'chlorins/B-93AF', set: 'chlorins', name: 'B-93AF', baseId: 'B-93', variant: 'AF', source: require('../assets/database/mo/chlorins/B-93AF.png') },
+  { key: 'chlorins/B-94', set: 'chlorins', name: 'B-94', baseId: 'B-94', variant: null, source: require('../assets/database/mo/chlorins/B-94.png') },
+  { key: 'chlorins/B-96', set: 'chlorins', name: 'B-96', baseId: 'B-96', variant: null, source: require('../assets/database/mo/chlorins/B-96.png') },
+  { key: 'chlorins/B-97', set: 'chlorins', name: 'B-97', baseId: 'B-97', variant: null, source: require('../assets/database/mo/chlorins/B-97.png') },
+  { key: 'chlorins/B-97AF', set: 'chlorins', name: 'B-97AF', baseId: 'B-97', variant: 'AF', source: require('../assets/database/mo/chlorins/B-97AF.png') },
+  { key: 'chlorins/B-97BF', set: 'chlorins', name: 'B-97BF', baseId: 'B-97', variant: 'BF', source: require('../assets/database/mo/chlorins/B-97BF.png') },
+  { key: 'chlorins/B-112', set: 'chlorins', name: 'B-112', baseId: 'B-112', variant: null, source: require('../assets/database/mo/chlorins/B-112.png') },
+  { key: 'chlorins/B-132', set: 'chlorins', name: 'B-132', baseId: 'B-132', variant: null, source: require('../assets/database/mo/chlorins/B-132.png') },
+  { key: 'chlorins/B-133', set: 'chlorins', name: 'B-133', baseId: 'B-133', variant: null, source: require('../assets/database/mo/chlorins/B-133.png') },
+  { key: 'chlorins/B-167', set: 'chlorins', name: 'B-167', baseId: 'B-167', variant: null, source: require('../assets/database/mo/chlorins/B-167.png') },
+  { key: 'chlorins/B-168', set: 'chlorins', name: 'B-168', baseId: 'B-168', variant: null, source: require('../assets/database/mo/chlorins/B-168.png') },
+  { key: 'chlorins/B-169', set: 'chlorins', name: 'B-169', baseId: 'B-169', variant: null, source: require('../assets/database/mo/chlorins/B-169.png') },
+  { key: 'chlorins/B-169AF', set: 'chlorins', name: 'B-169AF', baseId: 'B-169', variant: 'AF', source: require('../assets/database/mo/chlorins/B-169AF.png') },
+  { key: 'chlorins/B-173', set: 'chlorins', name: 'B-173', baseId: 'B-173', variant: null, source: require('../assets/database/mo/chlorins/B-173.png') },
+  { key: 'chlorins/B-174', set: 'chlorins', name: 'B-174', baseId: 'B-174', variant: null, source: require('../assets/database/mo/chlorins/B-174.png') },
+  { key: 'chlorins/B-179', set: 'chlorins', name: 'B-179', baseId: 'B-179', variant: null, source: require('../assets/database/mo/chlorins/B-179.png') },
+  { key: 'chlorins/B-180', set: 'chlorins', name: 'B-180', baseId: 'B-180', variant: null, source: require('../assets/database/mo/chlorins/B-180.png') },
+  { key: 'chlorins/B-181', set: 'chlorins', name: 'B-181', baseId: 'B-181', variant: null, source: require('../assets/database/mo/chlorins/B-181.png') },
+  { key: 'chlorins/B-183', set: 'chlorins', name: 'B-183', baseId: 'B-183', variant: null, source: require('../assets/database/mo/chlorins/B-183.png') },
+  { key: 'chlorins/B-209', set: 'chlorins', name: 'B-209', baseId: 'B-209', variant: null, source: require('../assets/database/mo/chlorins/B-209.png') },
+  { key: 'chlorins/SE-367', set: 'chlorins', name: 'SE-367', baseId: 'SE-367', variant: null, source: require('../assets/database/mo/chlorins/SE-367.png') },
+  { key: 'chlorins/SE-368', set: 'chlorins', name: 'SE-368', baseId: 'SE-368', variant: null, source: require('../assets/database/mo/chlorins/SE-368.png') },
+  { key: 'natural/BChl a (Im)', set: 'natural', name: 'BChl a (Im)', baseId: 'BChl a (Im)', variant: null, source: require('../assets/database/mo/natural/BChl a (Im).png') },
+  { key: 'natural/BChl a', set: 'natural', name: 'BChl a', baseId: 'BChl a', variant: null, source: require('../assets/database/mo/natural/BChl a.png') },
+  { key: 'natural/BChl b', set: 'natural', name: 'BChl b', baseId: 'BChl b', variant: null, source: require('../assets/database/mo/natural/BChl b.png') },
+  { key: 'natural/BChl c', set: 'natural', name: 'BChl c', baseId: 'BChl c', variant: null, source: require('../assets/database/mo/natural/BChl c.png') },
+  { key: 'natural/BChl d', set: 'natural', name: 'BChl d', baseId: 'BChl d', variant: null, source: require('../assets/database/mo/natural/BChl d.png') },
+  { key: 'natural/BChl e', set: 'natural', name: 'BChl e', baseId: 'BChl e', variant: null, source: require('../assets/database/mo/natural/BChl e.png') },
+  { key: 'natural/BChl f', set: 'natural', name: 'BChl f', baseId: 'BChl f', variant: null, source: require('../assets/database/mo/natural/BChl f.png') },
+  { key: 'natural/BChl g', set: 'natural', name: 'BChl g', baseId: 'BChl g', variant: null, source: require('../assets/database/mo/natural/BChl g.png') },
+  { key: 'natural/BPhe a', set: 'natural', name: 'BPhe a', baseId: 'BPhe a', variant: null, source: require('../assets/database/mo/natural/BPhe a.png') },
+  { key: 'natural/BPhe b', set: 'natural', name: 'BPhe b', baseId: 'BPhe b', variant: null, source: require('../assets/database/mo/natural/BPhe b.png') },
+  { key: 'natural/BPhe c', set: 'natural', name: 'BPhe c', baseId: 'BPhe c', variant: null, source: require('../assets/database/mo/natural/BPhe c.png') },
+  { key: 'natural/BPhe d', set: 'natural', name: 'BPhe d', baseId: 'BPhe d', variant: null, source: require('../assets/database/mo/natural/BPhe d.png') },
+  { key: 'natural/BPhe e', set: 'natural', name: 'BPhe e', baseId: 'BPhe e', variant: null, source: require('../assets/database/mo/natural/BPhe e.png') },
+  { key: 'natural/BPhe f', set: 'natural', name: 'BPhe f', baseId: 'BPhe f', variant: null, source: require('../assets/database/mo/natural/BPhe f.png') },
+  { key: 'natural/BPhe g', set: 'natural', name: 'BPhe g', baseId: 'BPhe g', variant: null, source: require('../assets/database/mo/natural/BPhe g.png') },
+  { key: 'natural/Chl a', set: 'natural', name: 'Chl a', baseId: 'Chl a', variant: null, source: require('../assets/database/mo/natural/Chl a.png') },
+  { key: 'natural/Chl a2', set: 'natural', name: 'Chl a2', baseId: 'Chl a2', variant: null, source: require('../assets/database/mo/natural/Chl a2.png') },
+  { key: 'natural/Chl b', set: 'natural', name: 'Chl b', baseId: 'Chl b', variant: null, source: require('../assets/database/mo/natural/Chl b.png') },
+  { key: 'natural/Chl b2', set: 'natural', name: 'Chl b2', baseId: 'Chl b2', variant: null, source: require('../assets/database/mo/natural/Chl b2.png') },
+  { key: 'natural/Chl c1', set: 'natural', name: 'Chl c1', baseId: 'Chl c1', variant: null, source: require('../assets/database/mo/natural/Chl c1.png') },
+  { key: 'natural/Chl c2', set: 'natural', name: 'Chl c2', baseId: 'Chl c2', variant: null, source: require('../assets/database/mo/natural/Chl c2.png') },
+  { key: 'natural/Chl c3', set: 'natural', name: 'Chl c3', baseId: 'Chl c3', variant: null, source: require('../assets/database/mo/natural/Chl c3.png') },
+  { key: 'natural/Chl d', set: 'natural', name: 'Chl d', baseId: 'Chl d', variant: null, source: require('../assets/database/mo/natural/Chl d.png') },
+  { key: 'natural/Chl d2', set: 'natural', name: 'Chl d2', baseId: 'Chl d2', variant: null, source: require('../assets/database/mo/natural/Chl d2.png') },
+  { key: 'natural/Chl f', set: 'natural', name: 'Chl f', baseId: 'Chl f', variant: null, source: require('../assets/database/mo/natural/Chl f.png') },
+  { key: 'natural/Chl f2', set: 'natural', name: 'Chl f2', baseId: 'Chl f2', variant: null, source: require('../assets/database/mo/natural/Chl f2.png') },
+  { key: 'natural/Phe a', set: 'natural', name: 'Phe a', baseId: 'Phe a', variant: null, source: require('../assets/database/mo/natural/Phe a.png') },
+  { key: 'natural/Phe a2', set: 'natural', name: 'Phe a2', baseId: 'Phe a2', variant: null, source: require('../assets/database/mo/natural/Phe a2.png') },
+  { key: 'natural/Phe b', set: 'natural', name: 'Phe b', baseId: 'Phe b', variant: null, source: require('../assets/database/mo/natural/Phe b.png') },
+  { key: 'natural/Phe b2', set: 'natural', name: 'Phe b2', baseId: 'Phe b2', variant: null, source: require('../assets/database/mo/natural/Phe b2.png') },
+  { key: 'natural/Phe c1', set: 'natural', name: 'Phe c1', baseId: 'Phe c1', variant: null, source: require('../assets/database/mo/natural/Phe c1.png') },
+  { key: 'natural/Phe c2', set: 'natural', name: 'Phe c2', baseId: 'Phe c2', variant: null, source: require('../assets/database/mo/natural/Phe c2.png') },
+  { key: 'natural/Phe c3', set: 'natural', name: 'Phe c3', baseId: 'Phe c3', variant: null, source: require('../assets/database/mo/natural/Phe c3.png') },
+  { key: 'natural/Phe d', set: 'natural', name: 'Phe d', baseId: 'Phe d', variant: null, source: require('../assets/database/mo/natural/Phe d.png') },
+  { key: 'natural/Phe d2', set: 'natural', name: 'Phe d2', baseId: 'Phe d2', variant: null, source: require('../assets/database/mo/natural/Phe d2.png') },
+  { key: 'natural/Phe f', set: 'natural', name: 'Phe f', baseId: 'Phe f', variant: null, source: require('../assets/database/mo/natural/Phe f.png') },
+  { key: 'natural/Phe f2', set: 'natural', name: 'Phe f2', baseId: 'Phe f2', variant: null, source: require('../assets/database/mo/natural/Phe f2.png') },
+  { key: 'porphyrins-pcs/H2OEP', set: 'porphyrins-pcs', name: 'H2OEP', baseId: 'H2OEP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2OEP.png') },
+  { key: 'porphyrins-pcs/H2P-Ph1', set: 'porphyrins-pcs', name: 'H2P-Ph1', baseId: 'H2P-Ph1', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P-Ph1.png') },
+  { key: 'porphyrins-pcs/H2P-Ph2c', set: 'porphyrins-pcs', name: 'H2P-Ph2c', baseId: 'H2P-Ph2c', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P-Ph2c.png') },
+  { key: 'porphyrins-pcs/H2P-Ph2cPrime', set: 'porphyrins-pcs', name: 'H2P-Ph2cPrime', baseId: 'H2P-Ph2cPrime', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P-Ph2cPrime.png') },
+  { key: 'porphyrins-pcs/H2P-Ph2t', set: 'porphyrins-pcs', name: 'H2P-Ph2t', baseId: 'H2P-Ph2t', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P-Ph2t.png') },
+  { key: 'porphyrins-pcs/H2P-Ph3', set: 'porphyrins-pcs', name: 'H2P-Ph3', baseId: 'H2P-Ph3', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P-Ph3.png') },
+  { key: 'porphyrins-pcs/H2P', set: 'porphyrins-pcs', name: 'H2P', baseId: 'H2P', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P.png') },
+  { key: 'porphyrins-pcs/H2P(C6F5)4', set: 'porphyrins-pcs', name: 'H2P(C6F5)4', baseId: 'H2P(C6F5)4', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2P(C6F5)4.png') },
+  { key: 'porphyrins-pcs/H2Pc', set: 'porphyrins-pcs', name: 'H2Pc', baseId: 'H2Pc', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2Pc.png') },
+  { key: 'porphyrins-pcs/H2TAP', set: 'porphyrins-pcs', name: 'H2TAP', baseId: 'H2TAP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2TAP.png') },
+  { key: 'porphyrins-pcs/H2TBP', set: 'porphyrins-pcs', name: 'H2TBP', baseId: 'H2TBP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2TBP.png') },
+  { key: 'porphyrins-pcs/H2TPP', set: 'porphyrins-pcs', name: 'H2TPP', baseId: 'H2TPP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/H2TPP.png') },
+  { key: 'porphyrins-pcs/NiTPP', set: 'porphyrins-pcs', name: 'NiTPP', baseId: 'NiTPP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/NiTPP.png') },
+  { key: 'porphyrins-pcs/ZnOEP', set: 'porphyrins-pcs', name: 'ZnOEP', baseId: 'ZnOEP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnOEP.png') },
+  { key: 'porphyrins-pcs/ZnP-Ph1', set: 'porphyrins-pcs', name: 'ZnP-Ph1', baseId: 'ZnP-Ph1', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP-Ph1.png') },
+  { key: 'porphyrins-pcs/ZnP-Ph2c', set: 'porphyrins-pcs', name: 'ZnP-Ph2c', baseId: 'ZnP-Ph2c', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP-Ph2c.png') },
+  { key: 'porphyrins-pcs/ZnP-Ph2t', set: 'porphyrins-pcs', name: 'ZnP-Ph2t', baseId: 'ZnP-Ph2t', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP-Ph2t.png') },
+  { key: 'porphyrins-pcs/ZnP-Ph3', set: 'porphyrins-pcs', name: 'ZnP-Ph3', baseId: 'ZnP-Ph3', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP-Ph3.png') },
+  { key: 'porphyrins-pcs/ZnP', set: 'porphyrins-pcs', name: 'ZnP', baseId: 'ZnP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP.png') },
+  { key: 'porphyrins-pcs/ZnP(C6F5)4', set: 'porphyrins-pcs', name: 'ZnP(C6F5)4', baseId: 'ZnP(C6F5)4', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnP(C6F5)4.png') },
+  { key: 'porphyrins-pcs/ZnPc', set: 'porphyrins-pcs', name: 'ZnPc', baseId: 'ZnPc', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnPc.png') },
+  { key: 'porphyrins-pcs/ZnTAP', set: 'porphyrins-pcs', name: 'ZnTAP', baseId: 'ZnTAP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnTAP.png') },
+  { key: 'porphyrins-pcs/ZnTBP', set: 'porphyrins-pcs', name: 'ZnTBP', baseId: 'ZnTBP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnTBP.png') },
+  { key: 'porphyrins-pcs/ZnTPP', set: 'porphyrins-pcs', name: 'ZnTPP', baseId: 'ZnTPP', variant: null, source: require('../assets/database/mo/porphyrins-pcs/ZnTPP.png') },
+  { key: 'standard/B-40', set: 'standard', name: 'B-40', baseId: 'B-40', variant: null, source: require('../assets/database/mo/standard/B-40.png') },
+  { key: 'standard/B-93', set: 'standard', name: 'B-93', baseId: 'B-93', variant: null, source: require('../assets/database/mo/standard/B-93.png') },
+  { key: 'standard/H2OEP', set: 'standard', name: 'H2OEP', baseId: 'H2OEP', variant: null, source: require('../assets/database/mo/standard/H2OEP.png') },
+  { key: 'standard/H2P', set: 'standard', name: 'H2P', baseId: 'H2P', variant: null, source: require('../assets/database/mo/standard/H2P.png') },
+  { key: 'standard/H2TPP', set: 'standard', name: 'H2TPP', baseId: 'H2TPP', variant: null, source: require('../assets/database/mo/standard/H2TPP.png') },
+  { key: 'standard/SE-197', set: 'standard', name: 'SE-197', baseId: 'SE-197', variant: null, source: require('../assets/database/mo/standard/SE-197.png') },
+  { key: 'standard/SE-211', set: 'standard', name: 'SE-211', baseId: 'SE-211', variant: null, source: require('../assets/database/mo/standard/SE-211.png') },
+  { key: 'standard/ZnOEP', set: 'standard', name: 'ZnOEP', baseId: 'ZnOEP', variant: null, source: require('../assets/database/mo/standard/ZnOEP.png') },
+  { key: 'standard/ZnP', set: 'standard', name: 'ZnP', baseId: 'ZnP', variant: null, source: require('../assets/database/mo/standard/ZnP.png') },
+  { key: 'standard/ZnTPP', set: 'standard', name: 'ZnTPP', baseId: 'ZnTPP', variant: null, source: require('../assets/database/mo/standard/ZnTPP.png') },
+  { key: 'walking-znc/ZnC-A2', set: 'walking-znc', name: 'ZnC-A2', baseId: 'ZnC-A2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A2.png') },
+  { key: 'walking-znc/ZnC-A3', set: 'walking-znc', name: 'ZnC-A3', baseId: 'ZnC-A3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A3.png') },
+  { key: 'walking-znc/ZnC-A5', set: 'walking-znc', name: 'ZnC-A5', baseId: 'ZnC-A5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A5.png') },
+  { key: 'walking-znc/ZnC-A7', set: 'walking-znc', name: 'ZnC-A7', baseId: 'ZnC-A7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A7.png') },
+  { key: 'walking-znc/ZnC-A8', set: 'walking-znc', name: 'ZnC-A8', baseId: 'ZnC-A8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A8.png') },
+  { key: 'walking-znc/ZnC-A10', set: 'walking-znc', name: 'ZnC-A10', baseId: 'ZnC-A10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A10.png') },
+  { key: 'walking-znc/ZnC-A12', set: 'walking-znc', name: 'ZnC-A12', baseId: 'ZnC-A12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A12.png') },
+  { key: 'walking-znc/ZnC-A13', set: 'walking-znc', name: 'ZnC-A13', baseId: 'ZnC-A13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A13.png') },
+  { key: 'walking-znc/ZnC-A15', set: 'walking-znc', name: 'ZnC-A15', baseId: 'ZnC-A15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A15.png') },
+  { key: 'walking-znc/ZnC-A20', set: 'walking-znc', name: 'ZnC-A20', baseId: 'ZnC-A20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-A20.png') },
+  { key: 'walking-znc/ZnC-E2', set: 'walking-znc', name: 'ZnC-E2', baseId: 'ZnC-E2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E2.png') },
+  { key: 'walking-znc/ZnC-E3,13', set: 'walking-znc', name: 'ZnC-E3,13', baseId: 'ZnC-E3,13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E3,13.png') },
+  { key: 'walking-znc/ZnC-E3', set: 'walking-znc', name: 'ZnC-E3', baseId: 'ZnC-E3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E3.png') },
+  { key: 'walking-znc/ZnC-E5', set: 'walking-znc', name: 'ZnC-E5', baseId: 'ZnC-E5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E5.png') },
+  { key: 'walking-znc/ZnC-E7', set: 'walking-znc', name: 'ZnC-E7', baseId: 'ZnC-E7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E7.png') },
+  { key: 'walking-znc/ZnC-E8', set: 'walking-znc', name: 'ZnC-E8', baseId: 'ZnC-E8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E8.png') },
+  { key: 'walking-znc/ZnC-E10', set: 'walking-znc', name: 'ZnC-E10', baseId: 'ZnC-E10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E10.png') },
+  { key: 'walking-znc/ZnC-E12', set: 'walking-znc', name: 'ZnC-E12', baseId: 'ZnC-E12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E12.png') },
+  { key: 'walking-znc/ZnC-E13', set: 'walking-znc', name: 'ZnC-E13', baseId: 'ZnC-E13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E13.png') },
+  { key: 'walking-znc/ZnC-E15', set: 'walking-znc', name: 'ZnC-E15', baseId: 'ZnC-E15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E15.png') },
+  { key: 'walking-znc/ZnC-E20', set: 'walking-znc', name: 'ZnC-E20', baseId: 'ZnC-E20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-E20.png') },
+  { key: 'walking-znc/ZnC-Fm2,3,12,13', set: 'walking-znc', name: 'ZnC-Fm2,3,12,13', baseId: 'ZnC-Fm2,3,12,13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm2,3,12,13.png') },
+  { key: 'walking-znc/ZnC-Fm2,3', set: 'walking-znc', name: 'ZnC-Fm2,3', baseId: 'ZnC-Fm2,3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm2,3.png') },
+  { key: 'walking-znc/ZnC-Fm2', set: 'walking-znc', name: 'ZnC-Fm2', baseId: 'ZnC-Fm2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm2.png') },
+  { key: 'walking-znc/ZnC-Fm3', set: 'walking-znc', name: 'ZnC-Fm3', baseId: 'ZnC-Fm3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm3.png') },
+  { key: 'walking-znc/ZnC-Fm5,10,15,20', set: 'walking-znc', name: 'ZnC-Fm5,10,15,20', baseId: 'ZnC-Fm5,10,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,10,15,20.png') },
+  { key: 'walking-znc/ZnC-Fm5,10,15', set: 'walking-znc', name: 'ZnC-Fm5,10,15', baseId: 'ZnC-Fm5,10,15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,10,15.png') },
+  { key: 'walking-znc/ZnC-Fm5,10,20', set: 'walking-znc', name: 'ZnC-Fm5,10,20', baseId: 'ZnC-Fm5,10,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,10,20.png') },
+  { key: 'walking-znc/ZnC-Fm5,10', set: 'walking-znc', name: 'ZnC-Fm5,10', baseId: 'ZnC-Fm5,10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,10.png') },
+  { key: 'walking-znc/ZnC-Fm5,15,20', set: 'walking-znc', name: 'ZnC-Fm5,15,20', baseId: 'ZnC-Fm5,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,15,20.png') },
+  { key: 'walking-znc/ZnC-Fm5,15', set: 'walking-znc', name: 'ZnC-Fm5,15', baseId: 'ZnC-Fm5,15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,15.png') },
+  { key: 'walking-znc/ZnC-Fm5,20', set: 'walking-znc', name: 'ZnC-Fm5,20', baseId: 'ZnC-Fm5,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5,20.png') },
+  { key: 'walking-znc/ZnC-Fm5', set: 'walking-znc', name: 'ZnC-Fm5', baseId: 'ZnC-Fm5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm5.png') },
+  { key: 'walking-znc/ZnC-Fm7', set: 'walking-znc', name: 'ZnC-Fm7', baseId: 'ZnC-Fm7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm7.png') },
+  { key: 'walking-znc/ZnC-Fm8', set: 'walking-znc', name: 'ZnC-Fm8', baseId: 'ZnC-Fm8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm8.png') },
+  { key: 'walking-znc/ZnC-Fm10,15,20', set: 'walking-znc', name: 'ZnC-Fm10,15,20', baseId: 'ZnC-Fm10,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm10,15,20.png') },
+  { key: 'walking-znc/ZnC-Fm10,15', set: 'walking-znc', name: 'ZnC-Fm10,15', baseId: 'ZnC-Fm10,15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm10,15.png') },
+  { key: 'walking-znc/ZnC-Fm10,20', set: 'walking-znc', name: 'ZnC-Fm10,20', baseId: 'ZnC-Fm10,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm10,20.png') },
+  { key: 'walking-znc/ZnC-Fm10', set: 'walking-znc', name: 'ZnC-Fm10', baseId: 'ZnC-Fm10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm10.png') },
+  { key: 'walking-znc/ZnC-Fm12', set: 'walking-znc', name: 'ZnC-Fm12', baseId: 'ZnC-Fm12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm12.png') },
+  { key: 'walking-znc/ZnC-Fm13', set: 'walking-znc', name: 'ZnC-Fm13', baseId: 'ZnC-Fm13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm13.png') },
+  { key: 'walking-znc/ZnC-Fm15,20', set: 'walking-znc', name: 'ZnC-Fm15,20', baseId: 'ZnC-Fm15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm15,20.png') },
+  { key: 'walking-znc/ZnC-Fm15', set: 'walking-znc', name: 'ZnC-Fm15', baseId: 'ZnC-Fm15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm15.png') },
+  { key: 'walking-znc/ZnC-Fm20', set: 'walking-znc', name: 'ZnC-Fm20', baseId: 'ZnC-Fm20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Fm20.png') },
+  { key: 'walking-znc/ZnC-Me2', set: 'walking-znc', name: 'ZnC-Me2', baseId: 'ZnC-Me2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me2.png') },
+  { key: 'walking-znc/ZnC-Me3', set: 'walking-znc', name: 'ZnC-Me3', baseId: 'ZnC-Me3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me3.png') },
+  { key: 'walking-znc/ZnC-Me5', set: 'walking-znc', name: 'ZnC-Me5', baseId: 'ZnC-Me5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me5.png') },
+  { key: 'walking-znc/ZnC-Me7', set: 'walking-znc', name: 'ZnC-Me7', baseId: 'ZnC-Me7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me7.png') },
+  { key: 'walking-znc/ZnC-Me8', set: 'walking-znc', name: 'ZnC-Me8', baseId: 'ZnC-Me8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me8.png') },
+  { key: 'walking-znc/ZnC-Me10', set: 'walking-znc', name: 'ZnC-Me10', baseId: 'ZnC-Me10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me10.png') },
+  { key: 'walking-znc/ZnC-Me12', set: 'walking-znc', name: 'ZnC-Me12', baseId: 'ZnC-Me12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me12.png') },
+  { key: 'walking-znc/ZnC-Me13', set: 'walking-znc', name: 'ZnC-Me13', baseId: 'ZnC-Me13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me13.png') },
+  { key: 'walking-znc/ZnC-Me15', set: 'walking-znc', name: 'ZnC-Me15', baseId: 'ZnC-Me15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me15.png') },
+  { key: 'walking-znc/ZnC-Me20', set: 'walking-znc', name: 'ZnC-Me20', baseId: 'ZnC-Me20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Me20.png') },
+  { key: 'walking-znc/ZnC-MeEs2', set: 'walking-znc', name: 'ZnC-MeEs2', baseId: 'ZnC-MeEs2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs2.png') },
+  { key: 'walking-znc/ZnC-MeEs3', set: 'walking-znc', name: 'ZnC-MeEs3', baseId: 'ZnC-MeEs3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs3.png') },
+  { key: 'walking-znc/ZnC-MeEs5', set: 'walking-znc', name: 'ZnC-MeEs5', baseId: 'ZnC-MeEs5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs5.png') },
+  { key: 'walking-znc/ZnC-MeEs7', set: 'walking-znc', name: 'ZnC-MeEs7', baseId: 'ZnC-MeEs7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs7.png') },
+  { key: 'walking-znc/ZnC-MeEs8', set: 'walking-znc', name: 'ZnC-MeEs8', baseId: 'ZnC-MeEs8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs8.png') },
+  { key: 'walking-znc/ZnC-MeEs10', set: 'walking-znc', name: 'ZnC-MeEs10', baseId: 'ZnC-MeEs10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs10.png') },
+  { key: 'walking-znc/ZnC-MeEs12', set: 'walking-znc', name: 'ZnC-MeEs12', baseId: 'ZnC-MeEs12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs12.png') },
+  { key: 'walking-znc/ZnC-MeEs13', set: 'walking-znc', name: 'ZnC-MeEs13', baseId: 'ZnC-MeEs13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs13.png') },
+  { key: 'walking-znc/ZnC-MeEs15', set: 'walking-znc', name: 'ZnC-MeEs15', baseId: 'ZnC-MeEs15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs15.png') },
+  { key: 'walking-znc/ZnC-MeEs20', set: 'walking-znc', name: 'ZnC-MeEs20', baseId: 'ZnC-MeEs20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-MeEs20.png') },
+  { key: 'walking-znc/ZnC-Ph2', set: 'walking-znc', name: 'ZnC-Ph2', baseId: 'ZnC-Ph2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph2.png') },
+  { key: 'walking-znc/ZnC-Ph3', set: 'walking-znc', name: 'ZnC-Ph3', baseId: 'ZnC-Ph3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph3.png') },
+  { key: 'walking-znc/ZnC-Ph5,10,15,20', set: 'walking-znc', name: 'ZnC-Ph5,10,15,20', baseId: 'ZnC-Ph5,10,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph5,10,15,20.png') },
+  { key: 'walking-znc/ZnC-Ph5', set: 'walking-znc', name: 'ZnC-Ph5', baseId: 'ZnC-Ph5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph5.png') },
+  { key: 'walking-znc/ZnC-Ph7', set: 'walking-znc', name: 'ZnC-Ph7', baseId: 'ZnC-Ph7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph7.png') },
+  { key: 'walking-znc/ZnC-Ph8', set: 'walking-znc', name: 'ZnC-Ph8', baseId: 'ZnC-Ph8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph8.png') },
+  { key: 'walking-znc/ZnC-Ph10', set: 'walking-znc', name: 'ZnC-Ph10', baseId: 'ZnC-Ph10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph10.png') },
+  { key: 'walking-znc/ZnC-Ph12', set: 'walking-znc', name: 'ZnC-Ph12', baseId: 'ZnC-Ph12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph12.png') },
+  { key: 'walking-znc/ZnC-Ph13', set: 'walking-znc', name: 'ZnC-Ph13', baseId: 'ZnC-Ph13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph13.png') },
+  { key: 'walking-znc/ZnC-Ph15', set: 'walking-znc', name: 'ZnC-Ph15', baseId: 'ZnC-Ph15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph15.png') },
+  { key: 'walking-znc/ZnC-Ph20', set: 'walking-znc', name: 'ZnC-Ph20', baseId: 'ZnC-Ph20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-Ph20.png') },
+  { key: 'walking-znc/ZnC-PhE2', set: 'walking-znc', name: 'ZnC-PhE2', baseId: 'ZnC-PhE2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE2.png') },
+  { key: 'walking-znc/ZnC-PhE3', set: 'walking-znc', name: 'ZnC-PhE3', baseId: 'ZnC-PhE3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE3.png') },
+  { key: 'walking-znc/ZnC-PhE5,10,15,20', set: 'walking-znc', name: 'ZnC-PhE5,10,15,20', baseId: 'ZnC-PhE5,10,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5,10,15,20.png') },
+  { key: 'walking-znc/ZnC-PhE5,10,20', set: 'walking-znc', name: 'ZnC-PhE5,10,20', baseId: 'ZnC-PhE5,10,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5,10,20.png') },
+  { key: 'walking-znc/ZnC-PhE5,10', set: 'walking-znc', name: 'ZnC-PhE5,10', baseId: 'ZnC-PhE5,10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5,10.png') },
+  { key: 'walking-znc/ZnC-PhE5,15,20', set: 'walking-znc', name: 'ZnC-PhE5,15,20', baseId: 'ZnC-PhE5,15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5,15,20.png') },
+  { key: 'walking-znc/ZnC-PhE5,15', set: 'walking-znc', name: 'ZnC-PhE5,15', baseId: 'ZnC-PhE5,15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5,15.png') },
+  { key: 'walking-znc/ZnC-PhE5', set: 'walking-znc', name: 'ZnC-PhE5', baseId: 'ZnC-PhE5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE5.png') },
+  { key: 'walking-znc/ZnC-PhE7', set: 'walking-znc', name: 'ZnC-PhE7', baseId: 'ZnC-PhE7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE7.png') },
+  { key: 'walking-znc/ZnC-PhE8', set: 'walking-znc', name: 'ZnC-PhE8', baseId: 'ZnC-PhE8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE8.png') },
+  { key: 'walking-znc/ZnC-PhE10', set: 'walking-znc', name: 'ZnC-PhE10', baseId: 'ZnC-PhE10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE10.png') },
+  { key: 'walking-znc/ZnC-PhE12', set: 'walking-znc', name: 'ZnC-PhE12', baseId: 'ZnC-PhE12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE12.png') },
+  { key: 'walking-znc/ZnC-PhE13', set: 'walking-znc', name: 'ZnC-PhE13', baseId: 'ZnC-PhE13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE13.png') },
+  { key: 'walking-znc/ZnC-PhE15,20', set: 'walking-znc', name: 'ZnC-PhE15,20', baseId: 'ZnC-PhE15,20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE15,20.png') },
+  { key: 'walking-znc/ZnC-PhE15', set: 'walking-znc', name: 'ZnC-PhE15', baseId: 'ZnC-PhE15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE15.png') },
+  { key: 'walking-znc/ZnC-PhE20', set: 'walking-znc', name: 'ZnC-PhE20', baseId: 'ZnC-PhE20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-PhE20.png') },
+  { key: 'walking-znc/ZnC-V2', set: 'walking-znc', name: 'ZnC-V2', baseId: 'ZnC-V2', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V2.png') },
+  { key: 'walking-znc/ZnC-V3', set: 'walking-znc', name: 'ZnC-V3', baseId: 'ZnC-V3', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V3.png') },
+  { key: 'walking-znc/ZnC-V5', set: 'walking-znc', name: 'ZnC-V5', baseId: 'ZnC-V5', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V5.png') },
+  { key: 'walking-znc/ZnC-V7', set: 'walking-znc', name: 'ZnC-V7', baseId: 'ZnC-V7', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V7.png') },
+  { key: 'walking-znc/ZnC-V8', set: 'walking-znc', name: 'ZnC-V8', baseId: 'ZnC-V8', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V8.png') },
+  { key: 'walking-znc/ZnC-V10', set: 'walking-znc', name: 'ZnC-V10', baseId: 'ZnC-V10', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V10.png') },
+  { key: 'walking-znc/ZnC-V12', set: 'walking-znc', name: 'ZnC-V12', baseId: 'ZnC-V12', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V12.png') },
+  { key: 'walking-znc/ZnC-V13', set: 'walking-znc', name: 'ZnC-V13', baseId: 'ZnC-V13', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V13.png') },
+  { key: 'walking-znc/ZnC-V15', set: 'walking-znc', name: 'ZnC-V15', baseId: 'ZnC-V15', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V15.png') },
+  { key: 'walking-znc/ZnC-V20', set: 'walking-znc', name: 'ZnC-V20', baseId: 'ZnC-V20', variant: null, source: require('../assets/database/mo/walking-znc/ZnC-V20.png') },
+  { key: 'walking-znc/ZnC', set: 'walking-znc', name: 'ZnC', baseId: 'ZnC', variant: null, source: require('../assets/database/mo/walking-znc/ZnC.png') },
+];
@@ -0,0 +1,76 @@
+import { MoImageEntry, moImages } from './mo-images.generated';
+
+// Molecular orbital images under assets/database/mo (indexed by scripts/generate-mo-images.js).
+// Images are linked to compounds by ID: the image's base ID ("SE-367", "ZnC-E3",
+// "BChl a") equals a compound's name or synonym, or appears in it in parentheses
+// ("202 ZnC (SE197)"). Comparison ignores case, spaces, hyphens, commas and underscores.
+
+export type { MoImageEntry };
+
+export const MO_IMAGE_SET_LABELS: Record<string, string> = {
+  bacteriochlorins: 'Bacteriochlorins',
+  chlorins: 'Chlorins',
+  natural: 'Natural tetrapyrroles',
+  'porphyrins-pcs': 'Porphyrins & phthalocyanines',
+  standard: 'Standards',
+  'walking-znc': 'Walking ZnC',
+};
+
+/** Sets in index order with their image counts. */
+export function getMoImageSets(): { set: string; label: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const image of moImages) counts.set(image.set, (counts.get(image.set) ?? 0) + 1);
+  return Array.from(counts, ([set, count]) => ({ set, label: MO_IMAGE_SET_LABELS[set] ?? set, count }));
+}
+
+/** Key used to match image IDs against compound names; keep in sync with MO_MATCH_SQL in lib/database.ts. */
+export function moImageMatchKey(label: string): string {
+  return label.toLowerCase().replace(/[\s,_-]+/g, '');
+}
+
+export function getMoImage(key: string): MoImageEntry | null {
+  return moImages.find(image => image.key === key) ?? null;
+}
+
+/**
+ * Images whose name, base ID, set or variant contains every word of the query
+ * (same matching key as compound links, so "ZnC E3" finds "ZnC-E3").
+ */
+export function searchMoImages(query: string, set: string | null = null): MoImageEntry[] {
+  const words = query.split(/\s+/).map(moImageMatchKey).filter(Boolean);
+  return moImages.filter(image => {
+    if (set && image.set !== set) return false;
+    if (words.length === 0) return true;
+    const haystack = moImageMatchKey(
+      `${image.name} ${image.set} ${MO_IMAGE_SET_LABELS[image.set] ?? ''} ${image.variant ?? ''}`
+    );
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+let imagesByMatchKey: Map<string, MoImageEntry[]> | null = null;
+
+/**
+ * Orbital images linked to a compound, matched on its name and synonym
+ * (and on IDs given in parentheses inside them).
+ */
+export function getMoImagesForCompound(compound: { name: string; synonym?: string | null }): MoImageEntry[] {
+  if (!imagesByMatchKey) {
+    imagesByMatchKey = new Map();
+    for (const image of moImages) {
+      const key = moImageMatchKey(image.baseId);
+      imagesByMatchKey.set(key, [...(imagesByMatchKey.get(key) ?? []), image]);
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const label of [compound.name, compound.synonym]) {
+    if (!label) continue;
+    keys.add(moImageMatchKey(label));
+    for (const match of label.matchAll(/\(([^()]+)\)/g)) keys.add(moImageMatchKey(match[1]));
+  }
+
+  const result: MoImageEntry[] = [];
+  for (const key of keys) result.push(...(imagesByMatchKey.get(key) ?? []));
+  return result;
+}
@@ -1,4 +1,5 @@
-import { emissionAreas_nu, sortAsc, yA, yE } from "./helpers";
+import { emissionAreas_nu } from "./helpers";
+import { interpolate, Spectrum } from "./spectrum";
 
 // ---------- Types ----------
 export interface NaturalRadiativeLifetimeParams {
@@ -21,11 +22,11 @@ export interface NaturalRadiativeLifetimeResults {
 // ---------- Main calculation function ----------
 // ---------- Main calculation function ----------
 export function calculateNaturalRadiativeLifetime(
-  emissionData: SpectrumData[],
-  absorptionData: SpectrumData[],
+  emission: Spectrum,
+  absorption: Spectrum,
   params: NaturalRadiativeLifetimeParams
 ): NaturalRadiativeLifetimeResults | null {
-  if (emissionData.length < 2 || absorptionData.length < 2) return null;
+  if (emission.wavelengths.length < 2 || absorption.wavelengths.length < 2) return null;
 
   const { lowWavelength: low, highWavelength: high, refractiveIndex: n,
           epsilon, wavelengthForEpsilon: lambdaStar, quantumYield: phiF } = params;
@@ -34,34 +35,9 @@ export function calculateNaturalRadiativeLifetime(
     return null;
   }
 
-  // Linear interpolation over sorted (λ, y). Clamp out-of-range to 0 (like your CS GetIntensity).
-  function interpY(sorted: SpectrumData[], wave: number, kind: "ems" | "abs"): number {
-    const getY = kind === "ems" ? yE : yA;
-    const n = sorted.length;
-    if (n === 0) return 0;
-    if (n === 1) return getY(sorted[0]);
-
-    const first = sorted[0].wavelength, last = sorted[n - 1].wavelength;
-    if (wave < first || wave > last) return 0;
-    if (wave === first) return getY(sorted[0]);
-    if (wave === last)  return getY(sorted[n - 1]);
-
-    // binary search for bracketing pair
-    let lo = 0, hi = n - 1;
-    while (lo <= hi) {
-      const mid = (lo + hi) >> 1;
-      const xm = sorted[mid].wavelength;
-      if (xm === wave) return getY(sorted[mid]);
-      if (xm > wave) hi = mid - 1; else lo = mid + 1;
-    }
-    const M = sorted[hi], N = sorted[lo];
-    return getY(M) + (getY(N) - getY(M)) * (wave - M.wavelength) / (N.wavelength - M.wavelength);
-  }
-
-
-  // ---- prep sorted data ----
-  const ems = sortAsc(emissionData);
-  const abs = sortAsc(absorptionData);
+  // ---- packed spectra are already sorted ----
+  const ems = emission;
+  const abs = absorption;
 
   // ---- emission normalizations (whole arrays, like CS) ----
   const { fluoArea, fluoV3 } = emissionAreas_nu(ems);
@@ -71,7 +47,7 @@ export function calculateNaturalRadiativeLifetime(
   const meanV3_recip = fluoArea / fluoV3;
 
   // ---- absorption scaling to ε(λ) via anchor (λ*, ε*) ----
-  const Astar = interpY(abs, lambdaStar, "abs");
+  const Astar = interpolate(abs, lambdaStar);
   if (!(Astar > 0)) return null; // need valid anchor point
   const epsScale = epsilon / Astar;
 
@@ -80,19 +56,18 @@ export function calculateNaturalRadiativeLifetime(
   let eps_dlnv = 0;
   let maxEps   = 0;
 
-  for (let i = 1; i < abs.length; i++) {
-    const pPrev = abs[i - 1], pCur = abs[i];
-    const λ2 = pCur.wavelength;
+  for (let i = 1; i < abs.wavelengths.length; i++) {
+    const λ2 = abs.wavelengths[i];
     if (λ2 < low || λ2 > high) continue;
 
-    const λ1 = pPrev.wavelength;
+    const λ1 = abs.wavelengths[i - 1];
     const v1 = 1e7 / λ1; // cm^-1
     const v2 = 1e7 / λ2; // cm^-1
     const dν = Math.abs(v1 - v2);
 
     // ε(λ) via anchor
-    const ε1 = epsScale * yA(pPrev);
-    const ε2 = epsScale * yA(pCur);
+    const ε1 = epsScale * abs.values[i - 1];
+    const ε2 = epsScale * abs.values[i];
 
     maxEps = Math.max(maxEps, ε1, ε2);
 
@@ -0,0 +1,34 @@
+import Database from 'better-sqlite3';
+
+import { CompoundRepository, createSqlRepository, SqlConnection, SqlValue, USER_SCHEMA } from './repository';
+
+// The compound repository outside the app: scripts, tests and Node tools query a
+// bundle built by scripts/build_photochemcad_db.py with the same code as the app,
+// through better-sqlite3 (a dev dependency; runs on the same Node as the app tooling).
+// Smoke test: npm run check-database [bundle.db]
+
+export interface NodeRepository extends CompoundRepository {
+  close(): void;
+}
+
+/**
+ * Open a bundle database file read-only. The bundle has no user tables, so empty
+ * temporary ones are created for the queries that join them (favorites, tags,
+ * the user's own compounds); nothing is written to the file.
+ */
+export function openNodeRepository(path: string): NodeRepository {
+  const database = new Database(path, { readonly: true });
+  database.exec(USER_SCHEMA.replace(/CREATE TABLE IF NOT EXISTS/g, 'CREATE TEMP TABLE IF NOT EXISTS'));
+
+  const connection: SqlConnection = {
+    async getAllAsync<T>(sql: string, params: SqlValue[]) {
+      return database.prepare(sql).all(...params) as T[];
+    },
+    async getFirstAsync<T>(sql: string, params: SqlValue[]) {
+      return (database.prepare(sql).get(...params) as T | undefined) ?? null;
+    },
+  };
+
+  const connect = () => Promise.resolve(connection);
+  return { ...createSqlRepository(connect), close: () => database.close() };
+}
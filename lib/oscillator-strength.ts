@@ -1,3 +1,5 @@
+import { interpolate, Spectrum } from "./spectrum";
+
 interface OscillatorStrengthParams {
   lowWavelength: number;
   highWavelength: number;
@@ -12,19 +14,18 @@ interface OscillatorStrengthResults {
 }
 
 export function calculateOscillatorStrength(
-  spectralData: SpectrumData[],
+  spectrum: Spectrum,
   params: OscillatorStrengthParams
 ): OscillatorStrengthResults | null {
   const { epsilon, wavelengthForEpsilon, highWavelength, lowWavelength } = params;
 
   // Validate input data
-  if (!Array.isArray(spectralData) || spectralData.length < 3) {
+  if (spectrum.wavelengths.length < 3) {
     return null;
   }
 
   // Normalize and validate data points
-  const data = spectralData
-    .map(p => ({ wavelength: Number(p.wavelength), coefficient: Number(p.coefficient ?? 0) }))
+  const data = Array.from(spectrum.wavelengths, (wavelength, i) => ({ wavelength, coefficient: spectrum.values[i] }))
     .filter(p => Number.isFinite(p.wavelength) && Number.isFinite(p.coefficient));
 
   if (data.length < 3) {
@@ -93,39 +94,8 @@ export function calculateOscillatorStrength(
   const peakWavelength = window[peakIndex].wavelength;
 
   // Interpolate intensity at database epsilon wavelength
-  const interpolateAt = (arr: typeof data, targetW: number): number => {
-    if (ascending) {
-      for (let i = 0; i < arr.length - 1; i++) {
-        const a = arr[i], b = arr[i + 1];
-        if (a.wavelength <= targetW && targetW <= b.wavelength) {
-          const t = (targetW - a.wavelength) / (b.wavelength - a.wavelength || 1);
-          return a.coefficient + t * (b.coefficient - a.coefficient);
-        }
-      }
-    } else {
-      for (let i = 0; i < arr.length - 1; i++) {
-        const a = arr[i], b = arr[i + 1];
-        if (a.wavelength >= targetW && targetW >= b.wavelength) {
-          const t = (targetW - a.wavelength) / (b.wavelength - a.wavelength || 1);
-          return a.coefficient + t * (b.coefficient - a.coefficient);
-        }
-      }
-    }
-    
-    // Fallback to nearest point
-    let nearest = arr[0];
-    let best = Math.abs(arr[0].wavelength - targetW);
-    for (const p of arr) {
-      const d = Math.abs(p.wavelength - targetW);
-      if (d < best) {
-        best = d;
-        nearest = p;
-      }
-    }
-    return nearest.coefficient;
-  };
-
-  const intensityAtDbWavelength = interpolateAt(data, wavelengthForEpsilon);
+  // (outside the measured range, the nearest end point)
+  const intensityAtDbWavelength = interpolate(spectrum, Math.min(Math.max(wavelengthForEpsilon, firstW), lastW));
   const peakEpsilon = epsilon * (peakMax / (intensityAtDbWavelength || peakMax));
 
   // Find half-maximum crossings
@@ -0,0 +1,46 @@
+import { Spectrum } from './spectrum';
+
+// Spectra as typed arrays. The bundled database stores each spectrum as one
+// spectra_packed row (see build_packed_spectra in scripts/build_photochemcad_db.py):
+// evenly spaced wavelengths as start/step, others as a Float64 blob, and the
+// values as a Float32 blob, all little-endian.
+
+/** A spectra_packed row. */
+export interface PackedSpectrumRow {
+  point_count: number;
+  wavelength_start: number | null;
+  wavelength_step: number | null;
+  wavelengths: Uint8Array | null;
+  intensities: Uint8Array;
+}
+
+// DataView rather than typed-array views: a blob may start at an unaligned offset
+
+export function decodeFloat32Blob(bytes: Uint8Array, count: number): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) values[i] = view.getFloat32(i * 4, true);
+  return values;
+}
+
+function decodeFloat64Blob(bytes: Uint8Array, count: number): Float64Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values = new Float64Array(count);
+  for (let i = 0; i < count; i++) values[i] = view.getFloat64(i * 8, true);
+  return values;
+}
+
+export function decodePackedSpectrum(row: PackedSpectrumRow): Spectrum {
+  const n = row.point_count;
+  let wavelengths: Float64Array;
+  if (row.wavelengths) {
+    wavelengths = decodeFloat64Blob(row.wavelengths, n);
+  } else {
+    const start = row.wavelength_start ?? 0;
+    const step = row.wavelength_step ?? 0;
+    wavelengths = new Float64Array(n);
+    // Rounded so that e.g. 250 + 3 * 0.1 comes back as the 250.3 that was stored
+    for (let i = 0; i < n; i++) wavelengths[i] = Math.round((start + i * step) * 1e6) / 1e6;
+  }
+  return { wavelengths, values: decodeFloat32Blob(row.intensities, n) };
+}
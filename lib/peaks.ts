@@ -0,0 +1,200 @@
+import { Spectrum, valueRange } from './spectrum';
+import { processSpectrum } from './spectrum-processing';
+
+// Peak detection on a spectrum: band maxima with their prominence, width and
+// area, and shoulders (bands without a maximum of their own, visible as a dip in
+// the second derivative). Used by the chart markers, the peak table and to
+// suggest analysis wavelengths in the MCA and energy-transfer modules.
+
+export interface SpectralPeak {
+  kind: 'maximum' | 'shoulder';
+  wavelength: number;               // nm
+  value: number;                    // spectrum value at the peak
+  /** Height above the higher of the two minima that separate the band from taller ones; null for shoulders. */
+  prominence: number | null;
+  fwhmNm: number | null;            // nm
+  fwhmWavenumber: number | null;    // cm⁻¹
+  /** ∫ y dλ between the band's bounding minima (value·nm); null for shoulders. */
+  area: number | null;
+}
+
+export interface PeakOptions {
+  /** Smallest prominence kept, as a fraction of the spectrum's value range. */
+  minProminence: number;
+  /** Report shoulders as well as maxima. */
+  shoulders: boolean;
+}
+
+const DEFAULT_OPTIONS: PeakOptions = { minProminence: 0.02, shoulders: true };
+
+// Second-derivative dips smaller than this fraction of the deepest one are noise
+const SHOULDER_MIN_CURVATURE = 0.1;
+
+// Shoulders lower than this fraction of the spectrum's range (above its minimum) are noise in the tails
+const SHOULDER_MIN_HEIGHT = 0.1;
+
+// FWHM of a Gaussian over the spacing of its second-derivative zero crossings (±σ)
+const GAUSSIAN_FWHM_PER_2SIGMA = Math.sqrt(2 * Math.log(2));
+
+/** Maxima and shoulders of a spectrum, sorted by wavelength. */
+export function findPeaks(spectrum: Spectrum, options: Partial<PeakOptions> = {}): SpectralPeak[] {
+  const { minProminence, shoulders } = { ...DEFAULT_OPTIONS, ...options };
+  const { wavelengths, values } = spectrum;
+  const n = wavelengths.length;
+  if (n < 3) return [];
+  const { min, max } = valueRange(spectrum);
+  const threshold = minProminence * (max - min);
+
+  const peaks: SpectralPeak[] = [];
+  for (const i of localMaxima(values)) {
+    const { prominence, leftBase, rightBase } = peakProminence(values, i);
+    if (!(prominence > threshold)) continue;
+    const width = widthAt(spectrum, i, values[i] - prominence / 2, leftBase, rightBase);
+    peaks.push({
+      kind: 'maximum',
+      wavelength: wavelengths[i],
+      value: values[i],
+      prominence,
+      fwhmNm: width ? width.right - width.left : null,
+      fwhmWavenumber: width ? 1e7 / width.left - 1e7 / width.right : null,
+      area: trapezoid(spectrum, leftBase, rightBase),
+    });
+  }
+
+  if (shoulders) {
+    for (const shoulder of findShoulders(spectrum, peaks, min + SHOULDER_MIN_HEIGHT * (max - min))) peaks.push(shoulder);
+  }
+  return peaks.sort((a, b) => a.wavelength - b.wavelength);
+}
+
+/** Wavelengths of the band maxima of several spectra, rounded to whole nm, sorted and without duplicates. */
+export function peakWavelengths(spectra: Spectrum[], options: Partial<PeakOptions> = {}): number[] {
+  const all = spectra.flatMap(s =>
+    findPeaks(s, { ...options, shoulders: false }).map(p => Math.round(p.wavelength))
+  );
+  return [...new Set(all)].sort((a, b) => a - b);
+}
+
+// Indices of strict local maxima; a flat top counts once, at its middle
+function localMaxima(values: ArrayLike<number>): number[] {
+  const maxima: number[] = [];
+  let i = 1;
+  while (i < values.length - 1) {
+    if (values[i] > values[i - 1]) {
+      let end = i;
+      while (end + 1 < values.length && values[end + 1] === values[i]) end++;
+      if (end + 1 < values.length && values[end + 1] < values[i]) maxima.push((i + end) >> 1);
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+  return maxima;
+}
+
+// Topographic prominence: walk each way until the spectrum rises above the peak or ends,
+// and measure from the higher of the two lowest points on the way
+function peakProminence(values: ArrayLike<number>, peak: number) {
+  const height = values[peak];
+  let leftBase = peak;
+  for (let j = peak - 1; j >= 0 && values[j] <= height; j--) {
+    if (values[j] < values[leftBase]) leftBase = j;
+  }
+  let rightBase = peak;
+  for (let j = peak + 1; j < values.length && values[j] <= height; j++) {
+    if (values[j] < values[rightBase]) rightBase = j;
+  }
+  return { prominence: height - Math.max(values[leftBase], values[rightBase]), leftBase, rightBase };
+}
+
+// Wavelengths where the band falls to `level` on either side, interpolated between points
+function widthAt(spectrum: Spectrum, peak: number, level: number, leftBase: number, rightBase: number) {
+  const { wavelengths, values } = spectrum;
+  const crossing = (a: number, b: number) =>
+    wavelengths[a] + ((level - values[a]) / (values[b] - values[a])) * (wavelengths[b] - wavelengths[a]);
+  let left: number | null = null;
+  for (let j = peak; j > leftBase; j--) {
+    if (values[j - 1] <= level) {
+      left = crossing(j - 1, j);
+      break;
+    }
+  }
+  let right: number | null = null;
+  for (let j = peak; j < rightBase; j++) {
+    if (values[j + 1] <= level) {
+      right = crossing(j, j + 1);
+      break;
+    }
+  }
+  return left !== null && right !== null && right > left ? { left, right } : null;
+}
+
+function trapezoid({ wavelengths, values }: Spectrum, from: number, to: number): number {
+  let area = 0;
+  for (let i = from + 1; i <= to; i++) {
+    area += ((values[i] + values[i - 1]) / 2) * (wavelengths[i] - wavelengths[i - 1]);
+  }
+  return area;
+}
+
+/**
+ * Shoulders: dips of the smoothed second derivative where the spectrum keeps
+ * rising or falling (no maximum nearby) and stands above `minValue`. The width
+ * is estimated from the second derivative's zero crossings, as for a Gaussian.
+ */
+function findShoulders(spectrum: Spectrum, maxima: SpectralPeak[], minValue: number): SpectralPeak[] {
+  const n = spectrum.wavelengths.length;
+  // About 3% of the spectrum per window keeps noise down without merging bands
+  const window = Math.max(5, 2 * Math.round(n / 66) + 1);
+  const smooth = processSpectrum(spectrum, { kind: 'savitzky-golay', window, order: 3 });
+  const d2 = processSpectrum(spectrum, { kind: 'derivative', derivative: 2, window, order: 3 });
+  if (!smooth || !d2) return [];
+  const { wavelengths } = d2;
+  const curvature = d2.values;
+  const deepest = -Math.min(0, valueRange({ values: curvature }).min);
+  if (!(deepest > 0)) return [];
+
+  const shoulders: SpectralPeak[] = [];
+  // One candidate per run of negative second derivative, at its deepest point
+  let start = 0;
+  while (start < curvature.length) {
+    if (!(curvature[start] < 0)) {
+      start++;
+      continue;
+    }
+    let end = start;
+    let i = start;
+    while (end + 1 < curvature.length && curvature[end + 1] < 0) {
+      end++;
+      if (curvature[end] < curvature[i]) i = end;
+    }
+    const left = start;
+    const right = end;
+    start = end + 1;
+
+    if (!(-curvature[i] > SHOULDER_MIN_CURVATURE * deepest)) continue;
+    const value = smooth.values[i];
+    if (!(value > minValue)) continue;
+    // A maximum inside the run is the band itself, not a shoulder
+    if (maxima.some(p => p.wavelength >= wavelengths[left] && p.wavelength <= wavelengths[right])) continue;
+
+    const lo = left > 0 ? zeroCrossing(wavelengths, curvature, left - 1) : null;
+    const hi = right < curvature.length - 1 ? zeroCrossing(wavelengths, curvature, right) : null;
+    const width = lo !== null && hi !== null ? GAUSSIAN_FWHM_PER_2SIGMA * (hi - lo) : null;
+    shoulders.push({
+      kind: 'shoulder',
+      wavelength: wavelengths[i],
+      value,
+      prominence: null,
+      fwhmNm: width,
+      fwhmWavenumber:
+        width !== null ? 1e7 / (wavelengths[i] - width / 2) - 1e7 / (wavelengths[i] + width / 2) : null,
+      area: null,
+    });
+  }
+  return shoulders;
+}
+
+function zeroCrossing(x: ArrayLike<number>, y: ArrayLike<number>, i: number): number {
+  return x[i] - (y[i] * (x[i + 1] - x[i])) / (y[i + 1] - y[i]);
+}
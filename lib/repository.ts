@@ -0,0 +1,868 @@
+import { buildCompoundFilterClause, CompoundFilter, FilterClause } from './compound-filter';
+import { CompoundDescriptors, DescriptorSort, isDescriptorKey } from './descriptors';
+import { DistributionPoint } from './distributions';
+import { decodeFloat32Blob, decodePackedSpectrum, PackedSpectrumRow } from './packed-spectrum';
+import {
+  buildFtsMatchExpression,
+  closestTerms,
+  maxEditDistance,
+  MIN_FUZZY_TOKEN_LENGTH,
+  PhrasePostings,
+  rankSearchPostings,
+  SEARCH_COLUMN_WEIGHTS,
+  searchPhrases,
+  tokenizeSearchQuery,
+} from './search';
+import { ResampledSpectrum } from './similarity';
+import { createSpectrum, Spectrum } from './spectrum';
+import { SpectrumAuditIssue } from './spectrum-audit';
+
+// Read-only queries over the bundled database (compounds, spectra, categories,
+// search), written against a minimal SQL connection so the same code runs on the
+// app's expo-sqlite database (lib/database.ts) and in Node (lib/node-repository.ts).
+
+// --- Interfaces ---
+
+export interface AbsorptionData {
+  compound_id: string;
+  wavelength: number;
+  coefficient: number;
+}
+
+export interface EmissionData {
+  compound_id: string;
+  wavelength: number;
+  normalized: number;
+}
+
+export interface Compound {
+  id: string;
+  id_prefix?: string | null;
+  numeric_id?: number | null;
+  name: string;
+  slug: string;
+  cas?: string | null;
+  database_id?: number | null;
+  category_id?: string | null;
+  database_name: string;
+  database_slug?: string | null;
+  category_name: string;
+  class_name?: string | null;
+  synonym?: string | null;
+  chemical_formula?: string | null;
+  molecular_weight?: number | null;
+  source_name?: string | null;
+  source_url?: string | null;
+  absorption_wavelength?: string | null;
+  absorption_epsilon?: string | null;
+  absorption_coefficient?: string | null;
+  absorption_solvent?: string | null;
+  absorption_instrument?: string | null;
+  absorption_reference_epsilon?: string | null;
+  absorption_reference?: string | null;
+  absorption_date?: string | null;
+  absorption_by?: string | null;
+  emission_wavelength?: string | null;
+  emission_fluorescence_peaks?: string | null;
+  emission_quantum_yield?: number | null;
+  emission_reference_quantum_yield?: number | null;
+  emission_solvent?: string | null;
+  emission_instrument?: string | null;
+  emission_reference?: string | null;
+  emission_date?: string | null;
+  emission_by?: string | null;
+  has_structure_tif?: string | null;
+  has_structure_png?: string | null;
+  has_absorption_data: string; // '0' or '1'
+  has_absorption_tif?: string | null;
+  has_emission_data: string;   // '0' or '1'
+  has_emission_tif?: string | null;
+  has_structure_labeled_tif?: string | null;
+  has_structure_labeled_png?: string | null;
+  has_structure_cdx?: string | null;
+}
+
+export interface DatabaseCategory {
+  name: string;
+  count: number;
+}
+
+/** A node of the database → category → class browse tree; classes have no children. */
+export interface CompoundHierarchyNode extends DatabaseCategory {
+  children: CompoundHierarchyNode[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  /** Property-range restrictions applied on top of the text match. */
+  filter?: CompoundFilter;
+  /** Narrow a per-database query (searchCompoundsInDatabase, getCompoundsByDatabase) to a category and class. */
+  category?: string;
+  className?: string;
+  /** Order by a descriptor instead of by name or search rank. */
+  sort?: DescriptorSort;
+}
+
+/** One row of spectra_index: a spectrum resampled onto the similarity grid. */
+export interface SpectrumIndexEntry extends ResampledSpectrum {
+  compound_id: string;
+  name: string;
+  database_name: string;
+  type: 'absorption' | 'emission';
+  values: Float32Array;
+}
+
+/** A measured illumination spectrum (light_sources), e.g. solar irradiance at a site and time. */
+export interface LightSource {
+  id: string;
+  name: string;
+  category: string;
+  site: string | null;
+  time: string | null;           // local time of the measurement, HH:MM
+  date: string | null;           // YYYY-MM-DD
+  sky_condition: string | null;  // e.g. "Mostly sunny"; not recorded for every source
+  source: string | null;         // monitoring network / laboratory
+  description: string | null;    // instrument and geometry, when the data file has a header
+  wavelength_min: number;
+  wavelength_max: number;
+}
+
+export interface ListOptions {
+  limit?: number;
+  /** Keyset cursor: return compounds with an ID greater than this one. Ignored when sorting. */
+  after?: string;
+  /** Rows to skip; sorted lists page by offset. */
+  offset?: number;
+  filter?: CompoundFilter;
+  /** Order by a descriptor instead of by ID. */
+  sort?: DescriptorSort;
+}
+
+/** The columns a browser row needs; open a row with getCompoundById for the full record. */
+export type CompoundListItem = Pick<
+  Compound,
+  'id' | 'name' | 'database_name' | 'category_name' | 'has_absorption_data' | 'has_emission_data'
+> & {
+  /** Audit warnings (spectrum_audit) per spectrum; absent for user-library compounds. */
+  absorption_audit_warnings?: number;
+  emission_audit_warnings?: number;
+  /** Value of the descriptor the list is sorted by, when it is sorted. */
+  sort_value?: number | null;
+};
+
+const auditWarningCount = (type: 'absorption' | 'emission') =>
+  `(SELECT COUNT(*) FROM spectrum_audit a WHERE a.spectrum_id = c.id AND a.spectrum_type = '${type}' AND a.severity = 'warning')`;
+
+/** SELECT list for CompoundListItem rows; expects compounds aliased as `c`. */
+export const LIST_COLUMNS = `c.id, c.name, c.database_name, c.category_name, c.has_absorption_data, c.has_emission_data,
+  ${auditWarningCount('absorption')} AS absorption_audit_warnings,
+  ${auditWarningCount('emission')} AS emission_audit_warnings`;
+
+// compound_descriptors column a sorted list orders by, also returned as sort_value; keys are checked
+// against the known descriptors since they are spliced into the SQL
+function sortColumn(sort: DescriptorSort | undefined): string | null {
+  return sort && isDescriptorKey(sort.key) ? `d.${sort.key}` : null;
+}
+
+function sortValueSelect(sort: DescriptorSort | undefined): string {
+  const column = sortColumn(sort);
+  return column ? `, ${column} AS sort_value` : '';
+}
+
+/** Leading ORDER BY terms for a sort (missing values last), or an empty string. */
+function sortOrder(sort: DescriptorSort | undefined): string {
+  const column = sortColumn(sort);
+  return column ? `${column} IS NULL, ${column} ${sort!.descending ? 'DESC' : 'ASC'}, ` : '';
+}
+
+/** Default page size for lists and search results; pass `offset` / `after` to fetch further pages. */
+export const SEARCH_PAGE_SIZE = 50;
+
+// --- Repository ---
+
+export type SqlValue = string | number | null;
+
+/** The part of expo-sqlite's SQLiteDatabase the queries use. */
+export interface SqlConnection {
+  getAllAsync<T>(sql: string, params: SqlValue[]): Promise<T[]>;
+  getFirstAsync<T>(sql: string, params: SqlValue[]): Promise<T | null>;
+}
+
+export interface CompoundRepository {
+  // Compounds
+  listCompounds(options?: ListOptions): Promise<CompoundListItem[]>;
+  getCompoundById(id: string): Promise<Compound | null>;
+  getCompoundDescriptors(id: string): Promise<CompoundDescriptors | null>;
+  getCompoundsByDatabase(databaseName: string, options?: SearchOptions): Promise<CompoundListItem[]>;
+  // Spectra
+  getAbsorptionData(compoundId: string): Promise<AbsorptionData[]>;
+  getEmissionData(compoundId: string): Promise<EmissionData[]>;
+  getSpectrum(compoundId: string, type: 'absorption' | 'emission'): Promise<Spectrum | null>;
+  getSpectrumIndex(type: 'absorption' | 'emission'): Promise<SpectrumIndexEntry[]>;
+  getSpectrumAudit(compoundId: string): Promise<SpectrumAuditIssue[]>;
+  getLightSources(): Promise<LightSource[]>;
+  getLightSourceSpectrum(lightSourceId: string): Promise<DistributionPoint[]>;
+  // Categories
+  getDatabaseCategories(): Promise<DatabaseCategory[]>;
+  getCompoundHierarchy(): Promise<CompoundHierarchyNode[]>;
+  getSolvents(): Promise<string[]>;
+  // Search
+  searchCompounds(query: string, options?: SearchOptions): Promise<CompoundListItem[]>;
+  searchCompoundsInDatabase(databaseName: string, query: string, options?: SearchOptions): Promise<CompoundListItem[]>;
+}
+
+// --- User Tables ---
+
+// Created on every open (IF NOT EXISTS); add new user tables here, prefixed with USER_TABLE_PREFIX
+export const USER_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS user_compounds (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    synonym TEXT,
+    cas TEXT,
+    chemical_formula TEXT,
+    molecular_weight REAL,
+    absorption_wavelength TEXT,
+    absorption_epsilon TEXT,
+    absorption_solvent TEXT,
+    emission_wavelength TEXT,
+    emission_quantum_yield REAL,
+    emission_solvent TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE IF NOT EXISTS user_absorptions (
+    compound_id TEXT NOT NULL,
+    wavelength REAL NOT NULL,
+    coefficient REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_user_absorptions_compound ON user_absorptions (compound_id, wavelength);
+  CREATE TABLE IF NOT EXISTS user_emissions (
+    compound_id TEXT NOT NULL,
+    wavelength REAL NOT NULL,
+    normalized REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_user_emissions_compound ON user_emissions (compound_id, wavelength);
+  CREATE TABLE IF NOT EXISTS user_favorites (
+    compound_id TEXT PRIMARY KEY,
+    added_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE IF NOT EXISTS user_collections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE IF NOT EXISTS user_notes (
+    compound_id TEXT PRIMARY KEY,
+    note TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE IF NOT EXISTS user_tags (
+    compound_id TEXT NOT NULL,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (compound_id, tag)
+  );
+  CREATE TABLE IF NOT EXISTS user_collection_items (
+    collection_id INTEGER NOT NULL,
+    compound_id TEXT NOT NULL,
+    added_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (collection_id, compound_id)
+  );
+`;
+
+/** database_name / category_name given to the user's own compounds. */
+export const USER_LIBRARY_NAME = 'My spectra';
+
+// Bundled IDs are like "A01" or "OCTP154"; user IDs can never collide with them
+export const USER_COMPOUND_ID_PREFIX = 'user-';
+
+export function isUserCompoundId(id: string): boolean {
+  return id.startsWith(USER_COMPOUND_ID_PREFIX);
+}
+
+// user_compounds row in the shape of a bundled Compound, so it works with the chart and calculators
+export const USER_COMPOUND_SELECT = `
+  SELECT u.*,
+         u.id AS slug,
+         '${USER_LIBRARY_NAME}' AS database_name,
+         '${USER_LIBRARY_NAME}' AS category_name,
+         CASE WHEN EXISTS (SELECT 1 FROM user_absorptions a WHERE a.compound_id = u.id) THEN '1' ELSE '0' END
+           AS has_absorption_data,
+         CASE WHEN EXISTS (SELECT 1 FROM user_emissions e WHERE e.compound_id = u.id) THEN '1' ELSE '0' END
+           AS has_emission_data
+  FROM user_compounds u
+`;
+
+// --- Queries ---
+
+/**
+ * One page of compounds that have valid data (Absorption or Emission), in ID
+ * order. Pass the ID of the last row already loaded as `after` to get the next
+ * page; an optional filter restricts by property ranges, solvent and data availability.
+ * With a `sort` the page is ordered by that descriptor and the next one is fetched by `offset`.
+ */
+async function listCompounds(
+  database: SqlConnection,
+  { limit = SEARCH_PAGE_SIZE, after, offset = 0, filter, sort }: ListOptions = {}
+): Promise<CompoundListItem[]> {
+  const where = buildCompoundFilterClause(filter);
+  const sorted = sortColumn(sort) != null;
+  const cursor = after != null && !sorted ? 'AND c.id > ?' : '';
+  return await database.getAllAsync<CompoundListItem>(`
+    SELECT ${LIST_COLUMNS}${sortValueSelect(sort)}
+    FROM compounds c
+    LEFT JOIN compound_properties p ON p.compound_id = c.id
+    LEFT JOIN compound_descriptors d ON d.compound_id = c.id
+    WHERE (c.has_absorption_data = '1' OR c.has_emission_data = '1')
+      AND ${where.sql}
+      ${cursor}
+    ORDER BY ${sortOrder(sort)}c.id ASC
+    LIMIT ? OFFSET ?
+  `, [...where.params, ...(cursor ? [after!] : []), limit, sorted ? offset : 0]);
+}
+
+/**
+ * Get a single compound by its ID.
+ */
+async function getCompoundById(database: SqlConnection, id: string): Promise<Compound | null> {
+  if (isUserCompoundId(id)) {
+    return await database.getFirstAsync<Compound>(`${USER_COMPOUND_SELECT} WHERE u.id = ?`, [id]);
+  }
+  return await database.getFirstAsync<Compound>(`
+    SELECT *
+    FROM compounds 
+    WHERE id = ?
+  `, [id]);
+}
+
+/**
+ * Build-time descriptors of a bundled compound (lib/descriptors.ts); null for
+ * the user's own compounds, which have none.
+ */
+async function getCompoundDescriptors(database: SqlConnection, id: string): Promise<CompoundDescriptors | null> {
+  if (isUserCompoundId(id)) return null;
+  return await database.getFirstAsync<CompoundDescriptors>(
+    'SELECT * FROM compound_descriptors WHERE compound_id = ?',
+    [id]
+  );
+}
+
+/** The spectra_packed row of a bundled spectrum as typed arrays. */
+async function loadPackedSpectrum(
+  database: SqlConnection,
+  compoundId: string,
+  type: 'absorption' | 'emission'
+): Promise<Spectrum | null> {
+  const row = await database.getFirstAsync<PackedSpectrumRow>(`
+    SELECT point_count, wavelength_start, wavelength_step, wavelengths, intensities
+    FROM spectra_packed
+    WHERE compound_id = ? AND spectrum_type = ?
+  `, [compoundId, type]);
+  return row ? decodePackedSpectrum(row) : null;
+}
+
+/**
+ * Get absorption spectrum data for a specific compound (bundled or user library).
+ */
+async function getAbsorptionData(database: SqlConnection, compoundId: string): Promise<AbsorptionData[]> {
+  if (!isUserCompoundId(compoundId)) {
+    const spectrum = await loadPackedSpectrum(database, compoundId, 'absorption');
+    if (!spectrum) return [];
+    return Array.from(spectrum.wavelengths, (wavelength, i) => ({
+      compound_id: compoundId,
+      wavelength,
+      coefficient: spectrum.values[i],
+    }));
+  }
+  return await database.getAllAsync<AbsorptionData>(`
+    SELECT compound_id, wavelength, coefficient
+    FROM user_absorptions
+    WHERE compound_id = ?
+    ORDER BY wavelength ASC
+  `, [compoundId]);
+}
+
+/**
+ * Get emission spectrum data for a specific compound (bundled or user library).
+ */
+async function getEmissionData(database: SqlConnection, compoundId: string): Promise<EmissionData[]> {
+  if (!isUserCompoundId(compoundId)) {
+    const spectrum = await loadPackedSpectrum(database, compoundId, 'emission');
+    if (!spectrum) return [];
+    return Array.from(spectrum.wavelengths, (wavelength, i) => ({
+      compound_id: compoundId,
+      wavelength,
+      normalized: spectrum.values[i],
+    }));
+  }
+  return await database.getAllAsync<EmissionData>(`
+    SELECT compound_id, wavelength, normalized
+    FROM user_emissions
+    WHERE compound_id = ?
+    ORDER BY wavelength ASC
+  `, [compoundId]);
+}
+
+/**
+ * A compound's absorption or emission spectrum as typed arrays, sorted by
+ * wavelength; null when it has none. This is what the calculations use.
+ */
+async function getSpectrum(
+  database: SqlConnection,
+  compoundId: string,
+  type: 'absorption' | 'emission'
+): Promise<Spectrum | null> {
+  if (!isUserCompoundId(compoundId)) return loadPackedSpectrum(database, compoundId, type);
+  const points = type === 'absorption'
+    ? (await getAbsorptionData(database, compoundId)).map(p => ({ wavelength: p.wavelength, value: p.coefficient }))
+    : (await getEmissionData(database, compoundId)).map(p => ({ wavelength: p.wavelength, value: p.normalized }));
+  return points.length > 0 ? createSpectrum(points) : null;
+}
+
+/**
+ * Get a list of the bundled spectra databases (Common Compounds, Flavonoids,
+ * Phyllobilins, ...) and the count of compounds in each.
+ */
+async function getDatabaseCategories(database: SqlConnection): Promise<DatabaseCategory[]> {
+  const result = await database.getAllAsync<{ database_name: string; count: number }>(`
+    SELECT database_name, COUNT(*) as count
+    FROM compounds    
+    WHERE has_absorption_data = '1' OR has_emission_data = '1'
+    GROUP BY database_name
+    ORDER BY database_name ASC
+  `, []);
+  
+  return result.map(r => ({ name: r.database_name, count: r.count }));
+}
+
+/** Name the browse tree gives compounds without a category or class. */
+export const UNSPECIFIED_GROUP_NAME = 'Unspecified';
+
+const CATEGORY_EXPR = `COALESCE(NULLIF(TRIM(c.category_name), ''), '${UNSPECIFIED_GROUP_NAME}')`;
+const CLASS_EXPR = `COALESCE(NULLIF(TRIM(c.class_name), ''), '${UNSPECIFIED_GROUP_NAME}')`;
+
+function buildScopeClause(
+  databaseName: string | undefined,
+  { category, className }: Pick<SearchOptions, 'category' | 'className'>
+): FilterClause {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (databaseName != null) {
+    conditions.push('c.database_name = ?');
+    params.push(databaseName);
+  }
+  if (category != null) {
+    conditions.push(`${CATEGORY_EXPR} = ?`);
+    params.push(category);
+  }
+  if (className != null) {
+    conditions.push(`${CLASS_EXPR} = ?`);
+    params.push(className);
+  }
+  return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', params };
+}
+
+/**
+ * Compounds with data grouped by database, then category, then class, with counts
+ * at every level. Missing categories and classes are grouped as UNSPECIFIED_GROUP_NAME.
+ */
+async function getCompoundHierarchy(database: SqlConnection): Promise<CompoundHierarchyNode[]> {
+  const rows = await database.getAllAsync<{
+    database_name: string;
+    category_name: string;
+    class_name: string;
+    count: number;
+  }>(`
+    SELECT c.database_name, ${CATEGORY_EXPR} AS category_name, ${CLASS_EXPR} AS class_name, COUNT(*) AS count
+    FROM compounds c
+    WHERE c.has_absorption_data = '1' OR c.has_emission_data = '1'
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2, 3
+  `, []);
+
+  const roots: CompoundHierarchyNode[] = [];
+  for (const row of rows) {
+    let databaseNode = roots[roots.length - 1];
+    if (databaseNode?.name !== row.database_name) {
+      databaseNode = { name: row.database_name, count: 0, children: [] };
+      roots.push(databaseNode);
+    }
+    let categoryNode = databaseNode.children[databaseNode.children.length - 1];
+    if (categoryNode?.name !== row.category_name) {
+      categoryNode = { name: row.category_name, count: 0, children: [] };
+      databaseNode.children.push(categoryNode);
+    }
+    categoryNode.children.push({ name: row.class_name, count: row.count, children: [] });
+    categoryNode.count += row.count;
+    databaseNode.count += row.count;
+  }
+  return roots;
+}
+
+/**
+ * Get compounds of a database, optionally narrowed to a category and class
+ * and by a filter, in name order.
+ */
+async function getCompoundsByDatabase(
+  database: SqlConnection,
+  databaseName: string,
+  { limit = SEARCH_PAGE_SIZE, offset = 0, filter, category, className, sort }: SearchOptions = {}
+): Promise<CompoundListItem[]> {
+  const scope = buildScopeClause(databaseName, { category, className });
+  const where = buildCompoundFilterClause(filter);
+  return await database.getAllAsync<CompoundListItem>(`
+    SELECT ${LIST_COLUMNS}${sortValueSelect(sort)}
+    FROM compounds c
+    LEFT JOIN compound_properties p ON p.compound_id = c.id
+    LEFT JOIN compound_descriptors d ON d.compound_id = c.id
+    WHERE ${scope.sql}
+      AND (c.has_absorption_data = '1' OR c.has_emission_data = '1')
+      AND ${where.sql}
+    ORDER BY ${sortOrder(sort)}c.name ASC, c.id ASC
+    LIMIT ? OFFSET ?
+  `, [...scope.params, ...where.params, limit, offset]);
+}
+
+/**
+ * Whether the connection's SQLite has FTS5. The web build's WASM SQLite does
+ * not; searches there rank the compounds_search_terms postings instead.
+ */
+async function hasFullTextSearch(database: SqlConnection): Promise<boolean> {
+  const row = await database.getFirstAsync<{ found: number }>(
+    `SELECT 1 AS found FROM pragma_compile_options WHERE compile_options = 'ENABLE_FTS5'`,
+    []
+  );
+  return row != null;
+}
+
+// Fuzzy corrections per connection and query word. The vocabulary only changes
+// with the bundled database, so a word is looked up once rather than on every
+// keystroke and page.
+const termCorrections = new WeakMap<SqlConnection, Map<string, string[]>>();
+
+/** Closest vocabulary terms for a word that prefixes nothing in the index; [] when it does. */
+async function correctSearchToken(database: SqlConnection, token: string, vocabulary: string): Promise<string[]> {
+  if (token.length < MIN_FUZZY_TOKEN_LENGTH) return [];
+  let cache = termCorrections.get(database);
+  if (!cache) {
+    cache = new Map();
+    termCorrections.set(database, cache);
+  }
+  const cached = cache.get(token);
+  if (cached) return cached;
+
+  const prefixHit = await database.getFirstAsync<{ term: string }>(`
+    SELECT term FROM ${vocabulary} WHERE term >= ? AND term < ? LIMIT 1
+  `, [token, `${token}\uffff`]);
+  let corrections: string[] = [];
+  if (!prefixHit) {
+    const maxDistance = maxEditDistance(token);
+    const candidates = await database.getAllAsync<{ term: string }>(`
+      SELECT term FROM ${vocabulary} WHERE length(term) >= ?
+    `, [token.length - maxDistance]);
+    corrections = closestTerms(token, candidates.map(c => c.term), maxDistance);
+  }
+  cache.set(token, corrections);
+  return corrections;
+}
+
+/**
+ * Typo corrections for each query word: none for a word that is a prefix of
+ * something in the index, otherwise its closest vocabulary terms, so
+ * "chlorofyll" still finds chlorophylls.
+ */
+async function correctSearchTokens(database: SqlConnection, tokens: string[], fullTextSearch: boolean): Promise<string[][]> {
+  const vocabulary = fullTextSearch ? 'compounds_fts_vocab' : '(SELECT DISTINCT term FROM compounds_search_terms)';
+  const corrections: string[][] = [];
+  for (const token of tokens) {
+    corrections.push(await correctSearchToken(database, token, vocabulary));
+  }
+  return corrections;
+}
+
+// Postings-fallback document sizes per connection: one row per compound, read once
+// instead of on every search.
+const searchDocSizes = new WeakMap<SqlConnection, Promise<Map<string, number>>>();
+
+function getSearchDocSizes(database: SqlConnection): Promise<Map<string, number>> {
+  let sizes = searchDocSizes.get(database);
+  if (!sizes) {
+    sizes = database
+      .getAllAsync<{ compound_id: string; size: number }>('SELECT compound_id, size FROM compounds_search_docs', [])
+      .then(docs => new Map(docs.map(d => [d.compound_id, d.size])))
+      .catch(error => {
+        searchDocSizes.delete(database);
+        throw error;
+      });
+    searchDocSizes.set(database, sizes);
+  }
+  return sizes;
+}
+
+// bm25 over compounds_fts with the column weights rankSearchPostings also uses
+const SEARCH_RANK = `bm25(compounds_fts, ${SEARCH_COLUMN_WEIGHTS.map(w => w.toFixed(1)).join(', ')})`;
+
+/**
+ * The `fts` (compound_id, rank) CTE body of a search and its parameter: an
+ * FTS5 MATCH over compounds_fts where available, otherwise the same matches and
+ * bm25 ranks computed from the postings tables and passed in as JSON.
+ */
+async function buildMatchSource(
+  database: SqlConnection,
+  tokens: string[],
+  fullTextSearch: boolean
+): Promise<{ sql: string; param: string }> {
+  const corrections = await correctSearchTokens(database, tokens, fullTextSearch);
+  if (fullTextSearch) {
+    return {
+      sql: `SELECT compound_id, ${SEARCH_RANK} AS rank FROM compounds_fts WHERE compounds_fts MATCH ?`,
+      param: buildFtsMatchExpression(tokens, corrections),
+    };
+  }
+
+  const postings: PhrasePostings[] = [];
+  for (const phrase of searchPhrases(tokens, corrections)) {
+    const hits = phrase.prefix != null
+      ? await database.getAllAsync<PhrasePostings['hits'][number]>(`
+          SELECT compound_id, column_index, hits FROM compounds_search_terms WHERE term >= ? AND term < ?
+        `, [phrase.prefix, `${phrase.prefix}\uffff`])
+      : await database.getAllAsync<PhrasePostings['hits'][number]>(`
+          SELECT compound_id, column_index, hits FROM compounds_search_terms WHERE term = ?
+        `, [phrase.term ?? '']);
+    postings.push({ phrase, hits });
+  }
+  const ranked = rankSearchPostings(postings, await getSearchDocSizes(database), tokens.length);
+  return {
+    sql: `SELECT json_extract(value, '$[0]') AS compound_id, json_extract(value, '$[1]') AS rank FROM json_each(?)`,
+    param: JSON.stringify(ranked.map(r => [r.compound_id, r.rank])),
+  };
+}
+
+/**
+ * Shared query behind both search functions. A compound matches when the
+ * index matches every word (each as a prefix or one of its typo corrections),
+ * or when every word appears in one of the user's tags for it (see user_tags);
+ * tag matches are listed first.
+ */
+async function runCompoundSearch(
+  database: SqlConnection,
+  fullTextSearch: boolean,
+  query: string,
+  { limit = SEARCH_PAGE_SIZE, offset = 0, filter, category, className, sort }: SearchOptions,
+  databaseName?: string
+): Promise<CompoundListItem[]> {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return [];
+  const match = await buildMatchSource(database, tokens, fullTextSearch);
+  const where = buildCompoundFilterClause(filter);
+  const scope = buildScopeClause(databaseName, { category, className });
+  return await database.getAllAsync<CompoundListItem>(`
+    WITH fts AS (
+      ${match.sql}
+    ),
+    tagged AS (
+      SELECT compound_id
+      FROM user_tags
+      GROUP BY compound_id
+      HAVING ${tokens.map(() => 'MAX(tag LIKE ?)').join(' AND ')}
+    )
+    SELECT ${LIST_COLUMNS}${sortValueSelect(sort)}
+    FROM compounds c
+    LEFT JOIN fts f ON f.compound_id = c.id
+    LEFT JOIN tagged t ON t.compound_id = c.id
+    LEFT JOIN compound_properties p ON p.compound_id = c.id
+    LEFT JOIN compound_descriptors d ON d.compound_id = c.id
+    WHERE (f.compound_id IS NOT NULL OR t.compound_id IS NOT NULL)
+      AND ${scope.sql}
+      AND (c.has_absorption_data = '1' OR c.has_emission_data = '1')
+      AND ${where.sql}
+    ORDER BY ${sortOrder(sort)}t.compound_id IS NULL, f.rank, c.id ASC
+    LIMIT ? OFFSET ?
+  `, [
+    match.param,
+    ...tokens.map(token => `%${token}%`),
+    ...scope.params,
+    ...where.params,
+    limit,
+    offset,
+  ]);
+}
+
+/**
+ * Ranked full-text search within a specific database (optionally one of its
+ * categories and classes, see SearchOptions) over name, ID, synonym, CAS,
+ * chemical formula, class, category and the user's tags.
+ */
+async function searchCompoundsInDatabase(
+  database: SqlConnection,
+  fullTextSearch: boolean,
+  databaseName: string,
+  query: string,
+  options: SearchOptions = {}
+): Promise<CompoundListItem[]> {
+  return runCompoundSearch(database, fullTextSearch, query, options, databaseName);
+}
+
+/**
+ * Ranked full-text search across all categories over name, ID, synonym, CAS,
+ * chemical formula, class, category and the user's tags. Tolerates prefixes and typos.
+ */
+async function searchCompounds(
+  database: SqlConnection,
+  fullTextSearch: boolean,
+  query: string,
+  options: SearchOptions = {}
+): Promise<CompoundListItem[]> {
+  return runCompoundSearch(database, fullTextSearch, query, options);
+}
+
+/**
+ * Distinct solvents used by absorption or emission spectra, most common first.
+ */
+async function getSolvents(database: SqlConnection): Promise<string[]> {
+  const result = await database.getAllAsync<{ solvent: string }>(`
+    SELECT solvent
+    FROM (
+      SELECT TRIM(absorption_solvent) AS solvent FROM compounds WHERE has_absorption_data = '1'
+      UNION ALL
+      SELECT TRIM(emission_solvent) AS solvent FROM compounds WHERE has_emission_data = '1'
+    )
+    WHERE solvent IS NOT NULL AND solvent <> ''
+    GROUP BY LOWER(solvent)
+    ORDER BY COUNT(*) DESC, solvent ASC
+  `, []);
+  return result.map(r => r.solvent);
+}
+
+/**
+ * All absorption or emission spectra resampled onto the common similarity grid
+ * (little-endian Float32 blobs written by the build script).
+ */
+async function loadSpectrumIndex(database: SqlConnection, type: 'absorption' | 'emission'): Promise<SpectrumIndexEntry[]> {
+  const rows = await database.getAllAsync<{
+    compound_id: string;
+    name: string;
+    database_name: string;
+    grid_start: number;
+    grid_step: number;
+    first_index: number;
+    point_count: number;
+    intensities: Uint8Array;
+  }>(`
+    SELECT i.compound_id, c.name, c.database_name, i.grid_start, i.grid_step,
+           i.first_index, i.point_count, i.intensities
+    FROM spectra_index i
+    JOIN compounds c ON c.id = i.compound_id
+    WHERE i.spectrum_type = ?
+  `, [type]);
+
+  return rows.map(r => ({
+    compound_id: r.compound_id,
+    name: r.name,
+    database_name: r.database_name,
+    type,
+    gridStart: r.grid_start,
+    gridStep: r.grid_step,
+    firstIndex: r.first_index,
+    values: decodeFloat32Blob(r.intensities, r.point_count),
+  }));
+}
+
+// --- Spectrum Audit ---
+
+/**
+ * Build-time data-quality findings for a compound's absorption and emission
+ * spectra (see lib/spectrum-audit.ts). User-library compounds are not audited.
+ */
+async function getSpectrumAudit(database: SqlConnection, compoundId: string): Promise<SpectrumAuditIssue[]> {
+  if (isUserCompoundId(compoundId)) return [];
+  return database.getAllAsync<SpectrumAuditIssue>(
+    `SELECT spectrum_id, spectrum_type, issue, severity, detail
+     FROM spectrum_audit
+     WHERE spectrum_id = ? AND spectrum_type IN ('absorption', 'emission')
+     ORDER BY spectrum_type, rowid`,
+    [compoundId]
+  );
+}
+
+// --- Light Sources ---
+
+/**
+ * Measured illumination spectra bundled with the app, grouped by category then site and date.
+ */
+async function getLightSources(database: SqlConnection): Promise<LightSource[]> {
+  return database.getAllAsync<LightSource>(
+    'SELECT * FROM light_sources ORDER BY category, site, date, time',
+    []
+  );
+}
+
+/**
+ * Spectral irradiance of a light source (W/m²/nm) as distribution points, sorted by wavelength.
+ */
+async function getLightSourceSpectrum(database: SqlConnection, lightSourceId: string): Promise<DistributionPoint[]> {
+  return database.getAllAsync<DistributionPoint>(
+    `SELECT wavelength, irradiance AS intensity
+     FROM light_source_points
+     WHERE light_source_id = ?
+     ORDER BY wavelength ASC`,
+    [lightSourceId]
+  );
+}
+
+// --- Implementation ---
+
+/**
+ * A repository running its queries on the connection `connect` resolves to
+ * (called per query, so it can open the database lazily).
+ */
+export function createSqlRepository(connect: () => Promise<SqlConnection>): CompoundRepository {
+  // The index never changes at runtime, so each type is read once per repository
+  const spectrumIndexCache: Partial<Record<'absorption' | 'emission', Promise<SpectrumIndexEntry[]>>> = {};
+  let fullTextSearchCache: Promise<boolean> | null = null;
+  const fullTextSearch = (database: SqlConnection) => {
+    if (!fullTextSearchCache) {
+      fullTextSearchCache = hasFullTextSearch(database).catch(error => {
+        fullTextSearchCache = null;
+        throw error;
+      });
+    }
+    return fullTextSearchCache;
+  };
+
+  return {
+    listCompounds: async options => listCompounds(await connect(), options),
+    getCompoundById: async id => getCompoundById(await connect(), id),
+    getCompoundDescriptors: async id => getCompoundDescriptors(await connect(), id),
+    getCompoundsByDatabase: async (databaseName, options) => getCompoundsByDatabase(await connect(), databaseName, options),
+    getAbsorptionData: async compoundId => getAbsorptionData(await connect(), compoundId),
+    getEmissionData: async compoundId => getEmissionData(await connect(), compoundId),
+    getSpectrum: async (compoundId, type) => getSpectrum(await connect(), compoundId, type),
+    getSpectrumIndex: type => {
+      if (!spectrumIndexCache[type]) {
+        spectrumIndexCache[type] = connect()
+          .then(database => loadSpectrumIndex(database, type))
+          .catch(error => {
+            delete spectrumIndexCache[type];
+            throw error;
+          });
+      }
+      return spectrumIndexCache[type]!;
+    },
+    getSpectrumAudit: async compoundId => getSpectrumAudit(await connect(), compoundId),
+    getLightSources: async () => getLightSources(await connect()),
+    getLightSourceSpectrum: async lightSourceId => getLightSourceSpectrum(await connect(), lightSourceId),
+    getDatabaseCategories: async () => getDatabaseCategories(await connect()),
+    getCompoundHierarchy: async () => getCompoundHierarchy(await connect()),
+    getSolvents: async () => getSolvents(await connect()),
+    searchCompounds: async (query, options) => {
+      const database = await connect();
+      return searchCompounds(database, await fullTextSearch(database), query, options);
+    },
+    searchCompoundsInDatabase: async (databaseName, query, options) => {
+      const database = await connect();
+      return searchCompoundsInDatabase(database, await fullTextSearch(database), databaseName, query, options);
+    },
+  };
+}
@@ -0,0 +1,151 @@
+// Query helpers for the compounds_fts full-text index (see scripts/build_photochemcad_db.py)
+
+/** Tokens shorter than this are only prefix-matched, never typo-corrected. */
+export const MIN_FUZZY_TOKEN_LENGTH = 4;
+
+/** Max number of vocabulary terms a misspelled token is expanded to. */
+const MAX_FUZZY_TERMS = 5;
+
+/**
+ * Split a user query into index tokens the same way FTS5's unicode61 tokenizer
+ * does: lowercase, diacritics removed, split on anything that is not a letter or digit.
+ * "71-43-2" -> ["71", "43", "2"], "Chlorophyll a" -> ["chlorophyll", "a"].
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  const folded = query
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  return folded.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Allowed edit distance for a token: 1 for short words, 2 from 7 characters up. */
+export function maxEditDistance(token: string): number {
+  if (token.length < MIN_FUZZY_TOKEN_LENGTH) return 0;
+  return token.length >= 7 ? 2 : 1;
+}
+
+/** Classic Levenshtein distance, bailing out early once it exceeds `max`. */
+export function levenshtein(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (cur[j] < rowMin) rowMin = cur[j];
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Distance between a (possibly misspelled, possibly partial) token and a vocabulary
+ * term: the best match of the token against any prefix of the term of similar length,
+ * so "chlorofil" is close to "chlorophyll" and "flavon" is close to "flavonoid".
+ */
+export function prefixEditDistance(token: string, term: string, max: number): number {
+  let best = max + 1;
+  const from = Math.max(1, token.length - max);
+  const to = Math.min(term.length, token.length + max);
+  for (let k = from; k <= to; k++) {
+    best = Math.min(best, levenshtein(token, term.slice(0, k), max));
+    if (best === 0) break;
+  }
+  return best;
+}
+
+/** Closest vocabulary terms for a token, best first. */
+export function closestTerms(token: string, vocabulary: string[], max: number = maxEditDistance(token)): string[] {
+  if (max <= 0) return [];
+  return vocabulary
+    .map(term => ({ term, distance: prefixEditDistance(token, term, max) }))
+    .filter(c => c.distance <= max)
+    .sort((a, b) => a.distance - b.distance || a.term.length - b.term.length)
+    .slice(0, MAX_FUZZY_TERMS)
+    .map(c => c.term);
+}
+
+/**
+ * Build an FTS5 MATCH expression. Every token must match (AND); a token matches
+ * as a prefix, or as any of its typo corrections when `corrections[i]` is non-empty.
+ */
+export function buildFtsMatchExpression(tokens: string[], corrections: string[][] = []): string {
+  return tokens
+    .map((token, i) => {
+      const options = [`"${token}"*`, ...(corrections[i] ?? []).map(term => `"${term}"`)];
+      return options.length === 1 ? options[0] : `(${options.join(' OR ')})`;
+    })
+    .join(' AND ');
+}
+
+/** bm25 column weights, in compounds_fts column order: compound_id, name, synonym, cas, chemical_formula, class_name, category_name. */
+export const SEARCH_COLUMN_WEIGHTS = [10, 10, 5, 8, 6, 2, 1];
+
+/** One query token and the index terms it matches: its prefix, or any of its typo corrections. */
+export interface SearchPhrase {
+  token: number;     // index of the query token the phrase belongs to
+  prefix?: string;
+  term?: string;
+}
+
+/** Tokens of a query as phrases, with the same meaning as buildFtsMatchExpression. */
+export function searchPhrases(tokens: string[], corrections: string[][] = []): SearchPhrase[] {
+  return tokens.flatMap((token, i) => [
+    { token: i, prefix: token },
+    ...(corrections[i] ?? []).map(term => ({ token: i, term })),
+  ]);
+}
+
+/** Rows of compounds_search_terms matched by one phrase. */
+export interface PhrasePostings {
+  phrase: SearchPhrase;
+  hits: { compound_id: string; column_index: number; hits: number }[];
+}
+
+/**
+ * The compounds matching every token, with FTS5's bm25() score (k1 = 1.2,
+ * b = 0.75, lower is better) computed from compounds_search_terms postings, so
+ * SQLite builds without FTS5 rank results exactly like the compounds_fts query.
+ * `sizes` holds each compound's token count (compounds_search_docs).
+ */
+export function rankSearchPostings(
+  postings: PhrasePostings[],
+  sizes: Map<string, number>,
+  tokenCount: number
+): { compound_id: string; rank: number }[] {
+  const k1 = 1.2;
+  const b = 0.75;
+  const rowCount = sizes.size;
+  if (rowCount === 0) return [];
+  let totalSize = 0;
+  for (const size of sizes.values()) totalSize += size;
+  const averageSize = totalSize / rowCount;
+
+  const matchedTokens = new Map<string, Set<number>>();
+  const scores = new Map<string, number>();
+  for (const { phrase, hits } of postings) {
+    const frequencies = new Map<string, number>();
+    for (const hit of hits) {
+      const weight = SEARCH_COLUMN_WEIGHTS[hit.column_index] ?? 1;
+      frequencies.set(hit.compound_id, (frequencies.get(hit.compound_id) ?? 0) + weight * hit.hits);
+    }
+    let idf = Math.log((rowCount - frequencies.size + 0.5) / (frequencies.size + 0.5));
+    if (idf <= 0) idf = 1e-6;
+    for (const [compoundId, frequency] of frequencies) {
+      const size = sizes.get(compoundId) ?? averageSize;
+      const score = (idf * frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * size) / averageSize));
+      scores.set(compoundId, (scores.get(compoundId) ?? 0) + score);
+      if (!matchedTokens.has(compoundId)) matchedTokens.set(compoundId, new Set());
+      matchedTokens.get(compoundId)!.add(phrase.token);
+    }
+  }
+
+  return Array.from(scores, ([compound_id, score]) => ({ compound_id, rank: -score })).filter(
+    r => matchedTokens.get(r.compound_id)!.size === tokenCount
+  );
+}
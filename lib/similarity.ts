@@ -0,0 +1,150 @@
+import { interpolate, Spectrum, uniformGrid } from './spectrum';
+
+// Spectral similarity: query and library spectra are compared on the common
+// wavelength grid of the spectra_index table (see scripts/build_photochemcad_db.py).
+
+export type SimilarityMetric = 'pearson' | 'cosine';
+
+/** A spectrum sampled on a uniform grid, scaled to a maximum of 1. */
+export interface ResampledSpectrum {
+  gridStart: number;   // nm, wavelength of grid index 0
+  gridStep: number;    // nm
+  firstIndex: number;  // grid index of values[0]
+  values: ArrayLike<number>;
+}
+
+export interface SimilarityOptions {
+  metric: SimilarityMetric;
+  /** Largest shift (nm, either direction) applied to library spectra to line them up with the query. */
+  maxShiftNm: number;
+}
+
+export interface SimilarityScore {
+  score: number;    // -1..1
+  shiftNm: number;  // library spectrum moved by this much (positive = to the red)
+  overlap: number;  // number of grid points compared
+}
+
+export interface SimilarityMatch<T> extends SimilarityScore {
+  entry: T;
+}
+
+/** Fewest grid points two spectra must share to be scored at all. */
+const MIN_OVERLAP_POINTS = 5;
+
+/** Share of the query's grid points a library spectrum must cover after shifting. */
+const MIN_QUERY_COVERAGE = 0.5;
+
+/**
+ * Sample a spectrum on the grid (gridStart + i * gridStep) with the shared linear
+ * interpolation of lib/spectrum.ts. Only grid points
+ * within the measured range are kept. Returns null for fewer than two points.
+ */
+export function resampleSpectrum(
+  spectrum: Spectrum,
+  gridStart: number,
+  gridStep: number
+): ResampledSpectrum | null {
+  const { wavelengths } = spectrum;
+  if (wavelengths.length < 2) return null;
+  const first = wavelengths[0];
+  const last = wavelengths[wavelengths.length - 1];
+  const firstIndex = Math.max(0, Math.ceil((first - gridStart) / gridStep));
+  const lastIndex = Math.floor((last - gridStart) / gridStep);
+  if (lastIndex - firstIndex < 1) return null;
+
+  const grid = uniformGrid(gridStart + firstIndex * gridStep, gridStep, lastIndex - firstIndex + 1);
+  const values = Float32Array.from(grid, w => interpolate(spectrum, w));
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (Math.abs(values[i]) > peak) peak = Math.abs(values[i]);
+  }
+  if (peak > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= peak;
+  }
+  return { gridStart, gridStep, firstIndex, values };
+}
+
+function correlate(
+  q: ArrayLike<number>,
+  qOffset: number,
+  c: ArrayLike<number>,
+  cOffset: number,
+  n: number,
+  metric: SimilarityMetric
+): number | null {
+  let sq = 0, sc = 0;
+  if (metric === 'pearson') {
+    for (let i = 0; i < n; i++) {
+      sq += q[qOffset + i];
+      sc += c[cOffset + i];
+    }
+    sq /= n;
+    sc /= n;
+  }
+  // cosine is the same sums around zero instead of the means
+  let dot = 0, qq = 0, cc = 0;
+  for (let i = 0; i < n; i++) {
+    const a = q[qOffset + i] - sq;
+    const b = c[cOffset + i] - sc;
+    dot += a * b;
+    qq += a * a;
+    cc += b * b;
+  }
+  if (qq <= 0 || cc <= 0) return null;
+  return dot / Math.sqrt(qq * cc);
+}
+
+/**
+ * Best correlation between a query and a library spectrum over all shifts of
+ * the library spectrum within ±maxShiftNm (whole grid steps). Both spectra must
+ * share the same grid. Returns null when they do not overlap enough.
+ */
+export function scoreSimilarity(
+  query: ResampledSpectrum,
+  candidate: ResampledSpectrum,
+  { metric, maxShiftNm }: SimilarityOptions
+): SimilarityScore | null {
+  const step = query.gridStep;
+  const maxShift = Math.max(0, Math.floor(maxShiftNm / step));
+  const qFirst = query.firstIndex;
+  const qLast = qFirst + query.values.length - 1;
+  const minOverlap = Math.max(MIN_OVERLAP_POINTS, Math.ceil(query.values.length * MIN_QUERY_COVERAGE));
+
+  let best: SimilarityScore | null = null;
+  for (let shift = -maxShift; shift <= maxShift; shift++) {
+    // candidate grid index j lands on query grid index j + shift
+    const from = Math.max(qFirst, candidate.firstIndex + shift);
+    const to = Math.min(qLast, candidate.firstIndex + candidate.values.length - 1 + shift);
+    const n = to - from + 1;
+    if (n < minOverlap) continue;
+    const score = correlate(
+      query.values, from - qFirst,
+      candidate.values, from - shift - candidate.firstIndex,
+      n, metric
+    );
+    if (score == null) continue;
+    // Prefer the smallest shift on ties
+    if (!best || score > best.score || (score === best.score && Math.abs(shift * step) < Math.abs(best.shiftNm))) {
+      best = { score, shiftNm: shift === 0 ? 0 : shift * step, overlap: n };
+    }
+  }
+  return best;
+}
+
+/** Library entries ranked by similarity to the query, best first. */
+export function rankBySimilarity<T extends ResampledSpectrum>(
+  query: ResampledSpectrum,
+  candidates: T[],
+  options: SimilarityOptions,
+  limit: number = 25
+): SimilarityMatch<T>[] {
+  const matches: SimilarityMatch<T>[] = [];
+  for (const entry of candidates) {
+    if (entry.gridStart !== query.gridStart || entry.gridStep !== query.gridStep) continue;
+    const result = scoreSimilarity(query, entry, options);
+    if (result) matches.push({ ...result, entry });
+  }
+  matches.sort((a, b) => b.score - a.score);
+  return matches.slice(0, limit);
+}
@@ -0,0 +1,134 @@
+// Reference properties of common spectroscopic solvents, and matching of the
+// free-text solvent names stored with compounds (absorption_solvent /
+// emission_solvent) to them. Values are at 20–25 °C from standard compilations
+// (CRC Handbook; Reichardt, Solvents and Solvent Effects in Organic Chemistry).
+
+export interface SolventProperties {
+  id: string;
+  name: string;
+  /** Lowercase spellings and abbreviations found in the database, e.g. "meoh", "ch2cl2". */
+  aliases: string[];
+  refractiveIndex: number;    // n_D
+  dielectricConstant: number; // ε_r
+  viscosity: number;          // mPa·s
+  et30: number;               // Reichardt E_T(30), kcal/mol
+}
+
+export const SOLVENTS: SolventProperties[] = [
+  { id: 'water', name: 'Water', aliases: ['h2o', 'aq', 'aqueous', 'buffer', 'd2o'], refractiveIndex: 1.333, dielectricConstant: 78.36, viscosity: 0.890, et30: 63.1 },
+  { id: 'methanol', name: 'Methanol', aliases: ['meoh', 'ch3oh'], refractiveIndex: 1.328, dielectricConstant: 32.66, viscosity: 0.544, et30: 55.4 },
+  { id: 'ethanol', name: 'Ethanol', aliases: ['etoh', 'c2h5oh', 'ethyl alcohol'], refractiveIndex: 1.361, dielectricConstant: 24.55, viscosity: 1.074, et30: 51.9 },
+  { id: '1-propanol', name: '1-Propanol', aliases: ['n-propanol', 'propanol', 'nproh'], refractiveIndex: 1.385, dielectricConstant: 20.45, viscosity: 1.945, et30: 50.7 },
+  { id: '2-propanol', name: '2-Propanol', aliases: ['isopropanol', 'iproh', 'isopropyl alcohol'], refractiveIndex: 1.377, dielectricConstant: 19.92, viscosity: 2.04, et30: 48.4 },
+  { id: '1-butanol', name: '1-Butanol', aliases: ['n-butanol', 'butanol', 'buoh'], refractiveIndex: 1.399, dielectricConstant: 17.51, viscosity: 2.54, et30: 49.7 },
+  { id: 'ethylene-glycol', name: 'Ethylene glycol', aliases: ['glycol'], refractiveIndex: 1.432, dielectricConstant: 37.7, viscosity: 16.1, et30: 56.3 },
+  { id: 'acetone', name: 'Acetone', aliases: ['ace', 'me2co'], refractiveIndex: 1.359, dielectricConstant: 20.7, viscosity: 0.306, et30: 42.2 },
+  { id: 'acetonitrile', name: 'Acetonitrile', aliases: ['mecn', 'ch3cn', 'acn'], refractiveIndex: 1.344, dielectricConstant: 35.94, viscosity: 0.369, et30: 45.6 },
+  { id: 'dmso', name: 'Dimethyl sulfoxide', aliases: ['dmso', 'me2so'], refractiveIndex: 1.479, dielectricConstant: 46.45, viscosity: 1.987, et30: 45.1 },
+  { id: 'dmf', name: 'N,N-Dimethylformamide', aliases: ['dmf', 'dimethylformamide'], refractiveIndex: 1.431, dielectricConstant: 36.71, viscosity: 0.794, et30: 43.2 },
+  { id: 'thf', name: 'Tetrahydrofuran', aliases: ['thf'], refractiveIndex: 1.407, dielectricConstant: 7.58, viscosity: 0.456, et30: 37.4 },
+  { id: '2-methf', name: '2-Methyltetrahydrofuran', aliases: ['2-methf', 'methf', '2-mthf', 'mthf'], refractiveIndex: 1.406, dielectricConstant: 6.97, viscosity: 0.46, et30: 36.5 },
+  { id: 'dioxane', name: '1,4-Dioxane', aliases: ['dioxane', 'p-dioxane'], refractiveIndex: 1.422, dielectricConstant: 2.21, viscosity: 1.177, et30: 36.0 },
+  { id: 'diethyl-ether', name: 'Diethyl ether', aliases: ['et2o', 'ether', 'ethyl ether', 'diethylether'], refractiveIndex: 1.352, dielectricConstant: 4.2, viscosity: 0.224, et30: 34.5 },
+  { id: 'ethyl-acetate', name: 'Ethyl acetate', aliases: ['etoac', 'ethylacetate'], refractiveIndex: 1.372, dielectricConstant: 6.02, viscosity: 0.423, et30: 38.1 },
+  { id: 'dichloromethane', name: 'Dichloromethane', aliases: ['dcm', 'ch2cl2', 'methylene chloride'], refractiveIndex: 1.424, dielectricConstant: 8.93, viscosity: 0.413, et30: 40.7 },
+  { id: 'chloroform', name: 'Chloroform', aliases: ['chcl3', 'cdcl3', 'trichloromethane'], refractiveIndex: 1.446, dielectricConstant: 4.81, viscosity: 0.537, et30: 39.1 },
+  { id: 'carbon-tetrachloride', name: 'Carbon tetrachloride', aliases: ['ccl4', 'tetrachloromethane'], refractiveIndex: 1.460, dielectricConstant: 2.24, viscosity: 0.908, et30: 32.4 },
+  { id: 'benzene', name: 'Benzene', aliases: ['c6h6', 'bz'], refractiveIndex: 1.501, dielectricConstant: 2.27, viscosity: 0.604, et30: 34.3 },
+  { id: 'toluene', name: 'Toluene', aliases: ['tol', 'phme', 'methylbenzene'], refractiveIndex: 1.497, dielectricConstant: 2.38, viscosity: 0.560, et30: 33.9 },
+  { id: 'chlorobenzene', name: 'Chlorobenzene', aliases: ['phcl'], refractiveIndex: 1.524, dielectricConstant: 5.62, viscosity: 0.753, et30: 36.8 },
+  { id: 'benzonitrile', name: 'Benzonitrile', aliases: ['phcn'], refractiveIndex: 1.529, dielectricConstant: 25.2, viscosity: 1.24, et30: 41.5 },
+  { id: 'pyridine', name: 'Pyridine', aliases: ['pyr', 'py'], refractiveIndex: 1.510, dielectricConstant: 12.91, viscosity: 0.879, et30: 40.5 },
+  { id: 'triethylamine', name: 'Triethylamine', aliases: ['tea', 'et3n'], refractiveIndex: 1.401, dielectricConstant: 2.42, viscosity: 0.347, et30: 32.1 },
+  { id: 'cyclohexane', name: 'Cyclohexane', aliases: ['chx', 'c6h12'], refractiveIndex: 1.426, dielectricConstant: 2.02, viscosity: 0.894, et30: 30.9 },
+  { id: 'hexane', name: 'n-Hexane', aliases: ['hexane', 'hexanes', 'c6h14'], refractiveIndex: 1.375, dielectricConstant: 1.88, viscosity: 0.300, et30: 31.0 },
+  { id: 'heptane', name: 'n-Heptane', aliases: ['heptane'], refractiveIndex: 1.388, dielectricConstant: 1.92, viscosity: 0.387, et30: 31.1 },
+];
+
+export interface SolventMatch {
+  solvent: SolventProperties;
+  /** False when only part of the text matched, e.g. one component of "EtOH/water (1:1)" or "80% acetone". */
+  exact: boolean;
+}
+
+const solventsByKey = new Map<string, SolventProperties>();
+for (const solvent of SOLVENTS) {
+  for (const key of [solvent.id, solvent.name.toLowerCase(), ...solvent.aliases]) solventsByKey.set(key, solvent);
+}
+
+export function getSolventById(id: string): SolventProperties | null {
+  return SOLVENTS.find(s => s.id === id) ?? null;
+}
+
+/**
+ * Map a free-text solvent name to the reference table: tries the whole text,
+ * then the text without concentrations ("90Ace", "80% acetone"), then each part
+ * of a mixture or annotated name ("MeOH (HPLC)", "ethanol/water") in order.
+ * Returns null when nothing is recognized.
+ */
+export function normalizeSolventName(text: string | null | undefined): SolventMatch | null {
+  const cleaned = (text ?? '')
+    .toLowerCase()
+    .replace(/[‐-―−]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!cleaned) return null;
+
+  const whole = solventsByKey.get(cleaned);
+  if (whole) return { solvent: whole, exact: true };
+
+  // Leading or bracketed concentrations: "90ace", "80 % acetone", "acetone (80%)"
+  const withoutAmounts = cleaned
+    .replace(/\(?\d+(?:\.\d+)?\s*%\)?/g, ' ')
+    .replace(/^\d+(?:\.\d+)?\s*(?=[a-z])/, '')
+    .trim();
+  const stripped = solventsByKey.get(withoutAmounts);
+  if (stripped) return { solvent: stripped, exact: false };
+
+  const parts = withoutAmounts.split(/[/,;:+()[\]]|\s+(?:and|with|in)\s+/).map(p => p.trim()).filter(Boolean);
+  for (const part of parts) {
+    const solvent = solventsByKey.get(part) ?? solventsByKey.get(part.replace(/^\d+(?:\.\d+)?\s*/, ''));
+    if (solvent) return { solvent, exact: false };
+    // Multi-word parts: "dry thf", "spectroscopic grade ethanol"
+    for (const word of part.split(' ')) {
+      const byWord = solventsByKey.get(word);
+      if (byWord) return { solvent: byWord, exact: false };
+    }
+  }
+  return null;
+}
+
+/**
+ * Lippert–Mataga orientation polarizability Δf = (ε−1)/(2ε+1) − (n²−1)/(2n²+1).
+ */
+export function orientationPolarizability({ dielectricConstant: e, refractiveIndex: n }: SolventProperties): number {
+  return (e - 1) / (2 * e + 1) - (n * n - 1) / (2 * n * n + 1);
+}
+
+/** Reichardt's normalized polarity E_T^N (water = 1, tetramethylsilane = 0). */
+export function normalizedEt30({ et30 }: SolventProperties): number {
+  return (et30 - 30.7) / 32.4;
+}
+
+export interface CompoundSolventMatch extends SolventMatch {
+  /** The solvent text as stored with the compound. */
+  label: string;
+}
+
+/**
+ * Reference solvent of a compound's emission or absorption measurement, falling
+ * back to the other spectrum's solvent when the preferred one is missing or unknown.
+ */
+export function findCompoundSolvent(
+  compound: { absorption_solvent?: string | null; emission_solvent?: string | null },
+  spectrum: 'absorption' | 'emission'
+): CompoundSolventMatch | null {
+  const labels = spectrum === 'emission'
+    ? [compound.emission_solvent, compound.absorption_solvent]
+    : [compound.absorption_solvent, compound.emission_solvent];
+  for (const label of labels) {
+    const match = normalizeSolventName(label);
+    if (match && label) return { ...match, label: label.trim() };
+  }
+  return null;
+}
@@ -0,0 +1,66 @@
+// Data-quality findings for bundled spectra. The checks run at build time
+// (audit_spectrum in scripts/build_photochemcad_db.py) and are stored in the
+// spectrum_audit table; this module describes and groups them for display.
+
+export type AuditIssueCode =
+  | 'invalid-values'
+  | 'too-few-points'
+  | 'non-monotonic'
+  | 'duplicate-wavelength'
+  | 'gap'
+  | 'negative-values'
+  | 'peak-mismatch';
+
+/** Warnings mark a spectrum in the browser; info findings (e.g. baseline noise below zero) only appear in the report. */
+export type AuditSeverity = 'warning' | 'info';
+
+export type AuditedSpectrumType = 'absorption' | 'emission' | 'light-source';
+
+export interface SpectrumAuditIssue {
+  spectrum_id: string;
+  spectrum_type: AuditedSpectrumType;
+  issue: AuditIssueCode;
+  severity: AuditSeverity;
+  detail: string;
+}
+
+export const AUDIT_ISSUE_LABELS: Record<AuditIssueCode, string> = {
+  'invalid-values': 'Missing values',
+  'too-few-points': 'Too few points',
+  'non-monotonic': 'Unordered wavelengths',
+  'duplicate-wavelength': 'Duplicate wavelengths',
+  gap: 'Gaps',
+  'negative-values': 'Negative values',
+  'peak-mismatch': 'λmax mismatch',
+};
+
+const SPECTRUM_TYPE_LABELS: Record<AuditedSpectrumType, string> = {
+  absorption: 'Absorption',
+  emission: 'Emission',
+  'light-source': 'Irradiance',
+};
+
+export interface SpectrumAuditReport {
+  spectrumType: AuditedSpectrumType;
+  label: string;
+  warnings: number;
+  issues: SpectrumAuditIssue[];
+}
+
+/** One report per audited spectrum of a compound, warnings first within each. */
+export function groupAuditIssues(issues: SpectrumAuditIssue[]): SpectrumAuditReport[] {
+  const reports = new Map<AuditedSpectrumType, SpectrumAuditReport>();
+  for (const issue of issues) {
+    let report = reports.get(issue.spectrum_type);
+    if (!report) {
+      report = { spectrumType: issue.spectrum_type, label: SPECTRUM_TYPE_LABELS[issue.spectrum_type], warnings: 0, issues: [] };
+      reports.set(issue.spectrum_type, report);
+    }
+    report.issues.push(issue);
+    if (issue.severity === 'warning') report.warnings++;
+  }
+  for (const report of reports.values()) {
+    report.issues.sort((a, b) => Number(a.severity === 'info') - Number(b.severity === 'info'));
+  }
+  return Array.from(reports.values());
+}
@@ -0,0 +1,40 @@
+import { SpectrumData } from './types';
+
+// Parsing of measured spectra pasted or exported from instrument software
+// (two columns: wavelength in nm, then absorbance / intensity).
+
+const NUMBER_RE = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/**
+ * Parse "wavelength value" pairs from free text. Columns may be separated by
+ * tabs, spaces, commas or semicolons; header and comment lines (anything
+ * without two numbers) are skipped. Points are returned sorted by wavelength
+ * with duplicate wavelengths dropped.
+ */
+export function parseSpectrumText(
+  text: string,
+  type: 'absorption' | 'emission',
+  compoundId: string = 'imported'
+): SpectrumData[] {
+  const points: SpectrumData[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    // Decimal commas ("450,5;0,123") only when a different column separator is present
+    const normalized = /[;\t]/.test(line) ? line.replace(/(\d),(\d)/g, '$1.$2') : line;
+    const numbers = normalized.match(NUMBER_RE);
+    if (!numbers || numbers.length < 2) continue;
+    const wavelength = parseFloat(numbers[0]);
+    const value = parseFloat(numbers[1]);
+    if (!Number.isFinite(wavelength) || !Number.isFinite(value) || wavelength <= 0) continue;
+    points.push({
+      compound_id: compoundId,
+      wavelength,
+      coefficient: type === 'absorption' ? value : undefined,
+      normalized: type === 'emission' ? value : undefined,
+    });
+  }
+
+  points.sort((a, b) => a.wavelength - b.wavelength);
+  return points.filter((p, i) => i === 0 || p.wavelength !== points[i - 1].wavelength);
+}
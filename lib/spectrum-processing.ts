@@ -0,0 +1,176 @@
+import { baselineError, baselineLabel, BaselineCorrection, correctBaseline } from './baseline-correction';
+import { solveLinearSystem } from './helpers';
+import { resample, Spectrum, uniformGrid } from './spectrum';
+import { SelectedSpectrum } from './types';
+
+// Smoothing, derivative and baseline-corrected spectra. The smoothing filters work
+// on evenly spaced points, so a spectrum is first resampled onto a uniform grid at
+// its median point spacing; windows are counted in points of that grid. Baseline
+// correction (lib/baseline-correction.ts) keeps the original points.
+
+export type SpectrumProcessing =
+  | { kind: 'savitzky-golay'; window: number; order: number }
+  | { kind: 'moving-average'; window: number }
+  | { kind: 'derivative'; derivative: 1 | 2; window: number; order: number }
+  | { kind: 'baseline'; correction: BaselineCorrection };
+
+export type SpectrumProcessingKind = SpectrumProcessing['kind'];
+
+/** Short label for legends and pickers, e.g. "SG 11/3", "d²/dλ² (SG 15/4)". */
+export function processingLabel(p: SpectrumProcessing): string {
+  switch (p.kind) {
+    case 'savitzky-golay':
+      return `SG ${p.window}/${p.order}`;
+    case 'moving-average':
+      return `MA ${p.window}`;
+    case 'derivative':
+      return `${p.derivative === 1 ? 'd/dλ' : 'd²/dλ²'} (SG ${p.window}/${p.order})`;
+    case 'baseline':
+      return baselineLabel(p.correction);
+  }
+}
+
+/** Why the operation cannot be applied to the spectrum, or null if it can. */
+export function processingError(p: SpectrumProcessing, spectrum: Spectrum): string | null {
+  if (p.kind === 'baseline') return baselineError(spectrum, p.correction);
+  const uniform = toUniformGrid(spectrum);
+  if (!uniform) return 'The spectrum needs at least two distinct wavelengths.';
+  return filterError(p, uniform.values.length);
+}
+
+function filterError(p: Exclude<SpectrumProcessing, { kind: 'baseline' }>, pointCount: number): string | null {
+  if (!Number.isInteger(p.window) || p.window < 3 || p.window % 2 === 0) {
+    return 'The window must be an odd number of points, at least 3.';
+  }
+  if (p.window > pointCount) {
+    return `The window is wider than the spectrum (${pointCount} points).`;
+  }
+  if (p.kind === 'moving-average') return null;
+  if (!Number.isInteger(p.order) || p.order < 0 || p.order >= p.window) {
+    return 'The polynomial order must be a whole number smaller than the window.';
+  }
+  if (p.kind === 'derivative' && p.order < p.derivative) {
+    return `A ${p.derivative === 1 ? 'first' : 'second'} derivative needs a polynomial order of at least ${p.derivative}.`;
+  }
+  return null;
+}
+
+/** The processed spectrum, or null if processingError rejects the operation. */
+export function processSpectrum(spectrum: Spectrum, p: SpectrumProcessing): Spectrum | null {
+  if (p.kind === 'baseline') return correctBaseline(spectrum, p.correction);
+  const uniform = toUniformGrid(spectrum);
+  if (!uniform || filterError(p, uniform.values.length) !== null) return null;
+  const { wavelengths, values, step } = uniform;
+  switch (p.kind) {
+    case 'savitzky-golay':
+      return { wavelengths, values: savitzkyGolay(values, p.window, p.order, 0, step) };
+    case 'moving-average':
+      return { wavelengths, values: movingAverage(values, p.window) };
+    case 'derivative':
+      return { wavelengths, values: savitzkyGolay(values, p.window, p.order, p.derivative, step) };
+  }
+}
+
+/** A processed copy of a selected spectrum, ready to plot next to its source. */
+export function deriveSelectedSpectrum(source: SelectedSpectrum, p: SpectrumProcessing): SelectedSpectrum | null {
+  const spectrum = processSpectrum(source.spectrum, p);
+  if (!spectrum) return null;
+  const label = processingLabel(p);
+  return {
+    compound: { ...source.compound, id: `${source.compound.id}~${label}`, name: `${source.compound.name} (${label})` },
+    type: source.type,
+    spectrum,
+    processing: p,
+  };
+}
+
+function toUniformGrid(spectrum: Spectrum): { wavelengths: Float64Array; values: Float64Array; step: number } | null {
+  const { wavelengths } = spectrum;
+  const n = wavelengths.length;
+  if (n < 2) return null;
+  const gaps = Array.from({ length: n - 1 }, (_, i) => wavelengths[i + 1] - wavelengths[i]).sort((a, b) => a - b);
+  const step = gaps[Math.floor(gaps.length / 2)];
+  if (!(step > 0)) return null;
+  const grid = uniformGrid(wavelengths[0], step, Math.floor((wavelengths[n - 1] - wavelengths[0]) / step + 1e-9) + 1);
+  return { wavelengths: grid, values: resample(spectrum, grid), step };
+}
+
+/** Centered moving average; near the ends the window shrinks to the points available. */
+function movingAverage(values: Float64Array, window: number): Float64Array {
+  const half = (window - 1) / 2;
+  const n = values.length;
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const from = Math.max(0, i - half);
+    const to = Math.min(n - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += values[j];
+    out[i] = sum / (to - from + 1);
+  }
+  return out;
+}
+
+/**
+ * Savitzky–Golay filter: a least-squares polynomial of `order` over each window,
+ * evaluated (or differentiated `derivative` times) at the point. Points within
+ * half a window of an end use the first or last full window, evaluated off-center.
+ */
+function savitzkyGolay(
+  values: Float64Array,
+  window: number,
+  order: number,
+  derivative: number,
+  step: number
+): Float64Array {
+  const half = (window - 1) / 2;
+  const n = values.length;
+  const out = new Float64Array(n);
+  const weightsAt = new Map<number, Float64Array>();
+  const scale = step ** derivative;
+  for (let i = 0; i < n; i++) {
+    const center = Math.min(Math.max(i, half), n - 1 - half);
+    const offset = i - center;
+    let weights = weightsAt.get(offset);
+    if (!weights) {
+      weights = savitzkyGolayWeights(half, order, derivative, offset);
+      weightsAt.set(offset, weights);
+    }
+    let sum = 0;
+    for (let k = 0; k < window; k++) sum += weights[k] * values[center - half + k];
+    out[i] = sum / scale;
+  }
+  return out;
+}
+
+// Weights w such that Σ w_k y(z_k), z = -half..half, is the d-th derivative at z = t
+// of the least-squares polynomial of the given order: w = Dᵀ (AᵀA)⁻¹ Aᵀ with A_kj = z_k^j
+// and D_j = d^d/dz^d z^j at t.
+function savitzkyGolayWeights(half: number, order: number, derivative: number, t: number): Float64Array {
+  const size = order + 1;
+  const window = 2 * half + 1;
+
+  const normal = Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => {
+      let sum = 0;
+      for (let z = -half; z <= half; z++) sum += z ** (r + c);
+      return sum;
+    })
+  );
+  const d = Array.from({ length: size }, (_, j) => {
+    if (j < derivative) return 0;
+    let factor = 1;
+    for (let k = 0; k < derivative; k++) factor *= j - k;
+    return factor * t ** (j - derivative);
+  });
+
+  // (AᵀA) is symmetric, so Dᵀ (AᵀA)⁻¹ = ((AᵀA)⁻¹ D)ᵀ
+  const c = solveLinearSystem(normal, d);
+  const weights = new Float64Array(window);
+  for (let k = 0; k < window; k++) {
+    const z = k - half;
+    let sum = 0;
+    for (let j = 0; j < size; j++) sum += c[j] * z ** j;
+    weights[k] = sum;
+  }
+  return weights;
+}
@@ -0,0 +1,146 @@
+import { SpectrumData } from './types';
+
+// The spectrum model shared by the calculators, the chart and the similarity
+// search: typed arrays sorted by wavelength, one linear interpolation, resampling
+// onto grids, and conversion to wavenumber and energy axes. Modules must go
+// through these functions rather than interpolating on their own, so a value read
+// at a wavelength is the same everywhere.
+
+/**
+ * A spectrum as parallel typed arrays sorted by wavelength: ε (M⁻¹cm⁻¹) for
+ * absorption, normalized intensity for emission. Loaded from spectra_packed
+ * (lib/packed-spectrum.ts) or built from points with createSpectrum.
+ */
+export interface Spectrum {
+  wavelengths: Float64Array; // nm, ascending
+  values: Float32Array | Float64Array;
+}
+
+export type SpectralAxis = 'wavelength' | 'wavenumber' | 'energy';
+
+export const AXIS_UNITS: Record<SpectralAxis, string> = {
+  wavelength: 'nm',
+  wavenumber: 'cm⁻¹',
+  energy: 'eV',
+};
+
+/** hc in eV·nm: E (eV) = HC_EV_NM / λ (nm). */
+export const HC_EV_NM = 1239.841984;
+
+// x = AXIS_FACTOR / λ on the wavenumber and energy axes
+const AXIS_FACTOR: Record<Exclude<SpectralAxis, 'wavelength'>, number> = {
+  wavenumber: 1e7,
+  energy: HC_EV_NM,
+};
+
+/** Sort (wavelength, value) points into a Spectrum, skipping non-finite ones. */
+export function createSpectrum(points: { wavelength: number; value: number | null | undefined }[]): Spectrum {
+  const valid = points
+    .filter((p): p is { wavelength: number; value: number } => Number.isFinite(p.wavelength) && Number.isFinite(p.value))
+    .sort((a, b) => a.wavelength - b.wavelength);
+  return {
+    wavelengths: Float64Array.from(valid, p => p.wavelength),
+    values: Float32Array.from(valid, p => p.value),
+  };
+}
+
+/** A Spectrum from SpectrumData rows (e.g. parsed from text), reading coefficient or normalized by type. */
+export function spectrumFromData(data: SpectrumData[], type: 'absorption' | 'emission'): Spectrum {
+  return createSpectrum(data.map(p => ({ wavelength: p.wavelength, value: type === 'absorption' ? p.coefficient : p.normalized })));
+}
+
+// --- Interpolation and resampling ---
+
+/**
+ * Value at a wavelength by linear interpolation between the neighbouring points.
+ * Outside the measured range the spectrum is 0.
+ */
+export function interpolate({ wavelengths, values }: Spectrum, wavelength: number): number {
+  return interpolateSorted(wavelengths, values, wavelength);
+}
+
+// Linear interpolation over ascending xs; 0 outside [xs[0], xs[n - 1]]
+function interpolateSorted(xs: ArrayLike<number>, ys: ArrayLike<number>, x: number): number {
+  const n = xs.length;
+  if (n === 0 || x < xs[0] || x > xs[n - 1]) return 0;
+
+  // Last point at or below x
+  let low = 0, high = n - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (xs[mid] <= x) low = mid;
+    else high = mid - 1;
+  }
+  if (xs[low] === x || low === n - 1) return ys[low];
+  const t = (x - xs[low]) / (xs[low + 1] - xs[low]);
+  return ys[low] + t * (ys[low + 1] - ys[low]);
+}
+
+/** Smallest and largest value; NaN for an empty spectrum. */
+export function valueRange({ values }: Pick<Spectrum, 'values'>): { min: number; max: number } {
+  if (values.length === 0) return { min: NaN, max: NaN };
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  return { min, max };
+}
+
+/** Values at each grid wavelength (nm), 0 where the grid leaves the measured range. */
+export function resample(spectrum: Spectrum, grid: ArrayLike<number>): Float64Array {
+  return Float64Array.from({ length: grid.length }, (_, i) => interpolate(spectrum, grid[i]));
+}
+
+/** count wavelengths start, start + step, ... (nm). */
+export function uniformGrid(start: number, step: number, count: number): Float64Array {
+  return Float64Array.from({ length: Math.max(0, count) }, (_, i) => start + i * step);
+}
+
+// --- Axes ---
+
+/** A wavelength (nm) as a position on an axis (nm, cm⁻¹ or eV). */
+export function toAxis(wavelength: number, axis: SpectralAxis): number {
+  return axis === 'wavelength' ? wavelength : AXIS_FACTOR[axis] / wavelength;
+}
+
+/** A position on an axis back to a wavelength (nm). x = factor / λ is its own inverse. */
+export function fromAxis(x: number, axis: SpectralAxis): number {
+  return axis === 'wavelength' ? x : AXIS_FACTOR[axis] / x;
+}
+
+/** A spectrum with its x values on a given axis, ascending. */
+export interface AxisSpectrum {
+  axis: SpectralAxis;
+  x: Float64Array;
+  values: Float64Array;
+}
+
+/**
+ * The spectrum on a wavelength, wavenumber or energy axis. Spectral densities
+ * (emission, irradiance: intensity per nm) are multiplied by the Jacobian
+ * |dλ/dx| = λ² / factor so that areas are preserved; quantities defined at a
+ * point, like ε, are only moved (`density` false).
+ */
+export function spectrumOnAxis(spectrum: Spectrum, axis: SpectralAxis, density: boolean): AxisSpectrum {
+  const { wavelengths, values } = spectrum;
+  const n = wavelengths.length;
+  if (axis === 'wavelength') {
+    return { axis, x: Float64Array.from(wavelengths), values: Float64Array.from(values) };
+  }
+  const factor = AXIS_FACTOR[axis];
+  const x = new Float64Array(n);
+  const converted = new Float64Array(n);
+  // 1/λ reverses the order
+  for (let i = 0; i < n; i++) {
+    const w = wavelengths[n - 1 - i];
+    x[i] = factor / w;
+    converted[i] = density ? values[n - 1 - i] * (w * w) / factor : values[n - 1 - i];
+  }
+  return { axis, x, values: converted };
+}
+
+/** Value of an axis spectrum at a position on its axis, like interpolate. */
+export function interpolateOnAxis({ x, values }: AxisSpectrum, position: number): number {
+  return interpolateSorted(x, values, position);
+}
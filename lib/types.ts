@@ -1,4 +1,6 @@
 import { AbsorptionData, EmissionData, Compound } from './database';
+import { Spectrum } from './spectrum';
+import { SpectrumProcessing } from './spectrum-processing';
 
 export interface SpectrumData {
   compound_id: string;
@@ -10,11 +12,18 @@ export interface SpectrumData {
 export interface SelectedSpectrum {
   compound: Compound;
   type: 'absorption' | 'emission';
-  data: SpectrumData[];
+  spectrum: Spectrum;
+  /**
+   * Set on spectra derived by smoothing, differentiation or baseline correction
+   * (lib/spectrum-processing.ts). Their compound is a copy with its own id and a
+   * labelled name, so they can be picked alongside the original everywhere
+   * spectra are keyed by compound id.
+   */
+  processing?: SpectrumProcessing;
 }
 
 export interface DistributionParams {
-  type: 'blackbody' | 'gaussian' | 'lorentzian';
+  type: 'blackbody' | 'gaussian' | 'lorentzian' | 'light-source';
   lowWavelength: number;
   highWavelength: number;
   // Blackbody specific
@@ -27,6 +36,10 @@ export interface DistributionParams {
   lorentzianPeakWavelength?: number;
   fwhm?: number;
   lorentzianMultiplier?: number;
+  // Measured light source (e.g. solar irradiance) specific
+  lightSourceId?: string;
+  lightSourceName?: string;
+  lightSourcePoints?: DistributionPoint[];
 }
 
 export interface DistributionPoint {
@@ -6,7 +6,22 @@ module.exports = {
   ...defaultConfig,
   resolver: {
     ...defaultConfig.resolver,
-    assetExts: [...(defaultConfig.resolver?.assetExts ?? []), 'db', 'sqlite', 'json', 'ttf'],
+    // wasm: expo-sqlite's WebAssembly SQLite for the web build
+    assetExts: [...(defaultConfig.resolver?.assetExts ?? []), 'db', 'sqlite', 'json', 'ttf', 'wasm'],
+  },
+  server: {
+    ...defaultConfig.server,
+    // expo-sqlite on web needs SharedArrayBuffer, which browsers only enable for
+    // cross-origin isolated pages. The static web export must be served with the
+    // same two headers.
+    enhanceMiddleware: (middleware, server) => {
+      const enhanced = defaultConfig.server?.enhanceMiddleware?.(middleware, server) ?? middleware;
+      return (req, res, next) => {
+        res.setHeader('Cross-Origin-Embedder-Policy', 'credentialless');
+        res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+        return enhanced(req, res, next);
+      };
+    },
   },
   transformer: {
     ...defaultConfig.transformer,
@@ -0,0 +1,1223 @@
+#!/usr/bin/env python3
+"""
+Build the SQLite database bundled with the app from every PhotochemCAD spectra
+database shipped under assets/database.
+
+Each assets/database/<database>/<compound_id>/ folder may contain
+<compound_id>.absorption.txt and/or <compound_id>.emission.txt (tab separated,
+one header line, wavelength in nm). The spectra are read from those files and
+the compound metadata (name, CAS, solvent, references, ...) is copied from the
+full PhotochemCAD database.
+
+Usage:
+  python scripts/build_photochemcad_db.py
+
+Solar irradiance spectra under assets/database/solar-spectra are imported as
+light sources (tables light_sources / light_source_points).
+
+Every spectrum is audited (table spectrum_audit) for unordered or duplicate
+wavelengths, gaps, negative or missing values and a stored peak wavelength that
+does not match the data; a summary is printed at the end.
+
+Photophysical descriptors (table compound_descriptors: measured maxima, ε, FWHM,
+Stokes shift, brightness, integrated absorption, Strickler–Berg radiative rate)
+are computed from the spectra so the app can sort and filter on them.
+
+Reads: assets/data/photochemcad.db, assets/database/**, lib/solvents.ts
+Writes: assets/data/photochemcad_bundle.db, lib/database-version.generated.ts
+
+The bundle is stamped with a version (PRAGMA user_version, also written to
+lib/database-version.generated.ts) so installed apps replace an older copy.
+"""
+
+import bisect
+import math
+import os
+import re
+import sqlite3
+import statistics
+import struct
+from datetime import datetime, timezone
+
+# Paths relative to project root
+PROJECT_ROOT = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))
+SOURCE_DB = os.path.join(PROJECT_ROOT, "assets", "data", "photochemcad.db")
+OUTPUT_DB = os.path.join(PROJECT_ROOT, "assets", "data", "photochemcad_bundle.db")
+SPECTRA_DIR = os.path.join(PROJECT_ROOT, "assets", "database")
+VERSION_FILE = os.path.join(PROJECT_ROOT, "lib", "database-version.generated.ts")
+VERSION_RE = re.compile(r"BUNDLED_DATABASE_VERSION = (\d+);")
+
+# First number in a metadata string, e.g. "254.75 (sh)" or "1,234" (same rule as parseFirstNumber in lib/helpers.ts)
+NUMBER_RE = re.compile(r"[-+]?\d*\.?\d+(?:[eE][-+]?\d+)?")
+
+# Common wavelength grid of the spectral similarity index (lib/similarity.ts reads it from each row)
+SIMILARITY_GRID_START = 200.0
+SIMILARITY_GRID_STEP = 2.0
+SIMILARITY_GRID_COUNT = 451  # 200-1100 nm
+
+# Wavelengths this close (nm) to start + i * step are stored as just start/step (see build_packed_spectra)
+PACKED_STEP_TOLERANCE = 1e-6
+
+# Band detection for compound_descriptors (see build_descriptor_table)
+DESCRIPTOR_PEAK_WINDOW_NM = 5.0        # a band maximum is the highest point within this distance
+DESCRIPTOR_BAND_MIN_FRACTION = 0.05    # ...and at least this fraction of the spectrum maximum
+DESCRIPTOR_BAND_EDGE_FRACTION = 0.02   # the lowest-energy band ends where it falls below this fraction of its maximum
+DESCRIPTOR_BAND_RISE_FACTOR = 2.0      # ...and where a transition this many times stronger begins
+
+# Solvent reference table shared with the app; the descriptors take refractive indices from it
+SOLVENTS_FILE = os.path.join(PROJECT_ROOT, "lib", "solvents.ts")
+SOLVENT_ENTRY_RE = re.compile(r"\{ id: '([^']+)', name: '([^']+)', aliases: \[([^\]]*)\], refractiveIndex: ([\d.]+)")
+
+# Solar irradiance spectra: <site>-<HHMM>-<month>-<day>-<year>[-<sky condition>]-<source>.els.txt
+SOLAR_SPECTRA_DIR = os.path.join(SPECTRA_DIR, "solar-spectra")
+SOLAR_SPECTRUM_SUFFIX = ".els.txt"
+SOLAR_CATEGORY = "Solar irradiance"
+SOLAR_SOURCES = {
+    "nsf": "NSF UV Monitoring Network",
+    "nrel-srrl": "NREL Solar Radiation Research Laboratory",
+}
+MONTHS = {
+    "jan": 1, "feb": 2, "mar": 3, "apr": 4, "may": 5, "jun": 6,
+    "jul": 7, "aug": 8, "sep": 9, "oct": 10, "nov": 11, "dec": 12,
+}
+SOLAR_FILENAME_RE = re.compile(
+    r"^(?P<site>[a-z-]+?)-(?P<time>\d{4})-(?P<month>[a-z]+)-(?P<day>\d{1,2})-(?P<year>\d{4})"
+    r"(?:-(?P<sky>[a-z-]+?))?-(?P<source>" + "|".join(SOLAR_SOURCES) + r")$"
+)
+
+# Asset folders that do not hold <compound_id>/<compound_id>.*.txt spectra sets
+NON_COMPOUND_FOLDERS = {"mo", "solar-spectra"}
+
+# Spectrum audit thresholds
+AUDIT_GAP_FACTOR = 5.0          # a step this many times the median step is a gap...
+AUDIT_GAP_MIN_NM = 2.0          # ...if it is also at least this wide
+AUDIT_PEAK_TOLERANCE_NM = 5.0   # stored λmax must be this close to a band maximum
+AUDIT_PEAK_MIN_FRACTION = 0.05  # bands lower than this fraction of the maximum are noise
+AUDIT_NEGATIVE_WARNING = 0.01   # negative values below -1% of the maximum are warnings, not baseline noise
+
+# Element symbols accepted in chemical formulas (same table as lib/formula.ts)
+ELEMENT_SYMBOLS = set(
+    """H D He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As
+    Se Br Kr Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb
+    Dy Ho Er Tm Yb Lu Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U""".split()
+)
+FORMULA_BRACKETS = {"(": ")", "[": "]", "{": "}"}
+SUBSCRIPT_DIGITS = str.maketrans("₀₁₂₃₄₅₆₇₈₉", "0123456789")
+
+TABLES_TO_COPY = [
+    "spectra_databases",
+    "common_compound_categories",
+    "solar_spectra",
+    "compounds_absorptions",
+    "compound_absorption_normalized_status",
+    "compounds_emissions",
+    "compound_emission_normalized_status",
+    "compounds",
+]
+
+
+def normalize_db_key(name: str) -> str:
+    """Database name -> asset folder name (same rule as generate-compound-images.js)."""
+    return re.sub(r"[\s_]+", "-", name.lower()).strip()
+
+
+def get_schema(conn: sqlite3.Connection, table: str) -> str:
+    """Return CREATE TABLE statement for the given table."""
+    cur = conn.execute(
+        "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+        (table,),
+    )
+    row = cur.fetchone()
+    return row[0] if row else None
+
+
+def get_index_sql(conn: sqlite3.Connection, table: str) -> list[str]:
+    """Return CREATE INDEX/UNIQUE INDEX statements for indexes on the table."""
+    cur = conn.execute(
+        "SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL",
+        (table,),
+    )
+    return [row[0] for row in cur.fetchall()]
+
+
+def copy_table_schema(conn_src: sqlite3.Connection, conn_dst: sqlite3.Connection, table: str) -> None:
+    """Create the table and its indexes in the destination DB."""
+    schema = get_schema(conn_src, table)
+    if not schema:
+        return
+    conn_dst.execute(schema)
+    for idx_sql in get_index_sql(conn_src, table):
+        conn_dst.execute(idx_sql)
+
+
+def read_spectrum_file(path: str) -> list[tuple[float, float]]:
+    """Parse a two-column spectrum text file, skipping the header and malformed lines."""
+    points = []
+    with open(path, encoding="utf-8", errors="replace") as f:
+        for line in f:
+            parts = line.strip().split("\t")
+            if len(parts) < 2:
+                parts = line.split()
+            if len(parts) < 2:
+                continue
+            try:
+                wavelength = float(parts[0])
+                value = float(parts[1])
+            except ValueError:
+                continue
+            points.append((wavelength, value))
+    return points
+
+
+def parse_first_number(value) -> float | None:
+    """Extract the first valid number from a metadata value (str or number)."""
+    if value is None:
+        return None
+    if isinstance(value, (int, float)):
+        return float(value)
+    match = NUMBER_RE.search(str(value).replace(",", ""))
+    return float(match.group(0)) if match else None
+
+
+def build_property_table(conn: sqlite3.Connection) -> None:
+    """
+    Numeric copies of the string-typed metadata columns, so the app can filter on
+    ranges (lib/compound-filter.ts) instead of comparing text.
+    """
+    conn.execute(
+        """
+        CREATE TABLE compound_properties (
+            compound_id TEXT PRIMARY KEY,
+            absorption_wavelength REAL,
+            absorption_epsilon REAL,
+            emission_wavelength REAL,
+            quantum_yield REAL,
+            molecular_weight REAL
+        )
+        """
+    )
+    rows = conn.execute(
+        """
+        SELECT id, absorption_wavelength, absorption_epsilon, emission_wavelength,
+               emission_quantum_yield, molecular_weight
+        FROM compounds
+        """
+    ).fetchall()
+    conn.executemany(
+        "INSERT INTO compound_properties VALUES (?, ?, ?, ?, ?, ?)",
+        [(row[0], *(parse_first_number(v) for v in row[1:])) for row in rows],
+    )
+    for column in ["absorption_wavelength", "absorption_epsilon", "emission_wavelength", "quantum_yield", "molecular_weight"]:
+        conn.execute(f"CREATE INDEX idx_compound_properties_{column} ON compound_properties ({column})")
+
+
+def parse_formula_group(text: str) -> dict[str, float] | None:
+    """Element counts of a formula without hydrate parts or charge; None if invalid."""
+    stack: list[dict[str, float]] = [{}]
+    closers: list[str] = []
+    i = 0
+
+    def read_number() -> float:
+        nonlocal i
+        match = re.match(r"\d+(?:\.\d+)?", text[i:])
+        if not match:
+            return 1.0
+        i += len(match.group(0))
+        return float(match.group(0))
+
+    while i < len(text):
+        c = text[i]
+        if c in FORMULA_BRACKETS:
+            stack.append({})
+            closers.append(FORMULA_BRACKETS[c])
+            i += 1
+        elif c in FORMULA_BRACKETS.values():
+            if not closers or closers.pop() != c:
+                return None
+            i += 1
+            n = read_number()
+            inner = stack.pop()
+            for element, count in inner.items():
+                stack[-1][element] = stack[-1].get(element, 0.0) + count * n
+        else:
+            match = re.match(r"[A-Z][a-z]?", text[i:])
+            if not match or match.group(0) not in ELEMENT_SYMBOLS:
+                return None
+            i += len(match.group(0))
+            stack[-1][match.group(0)] = stack[-1].get(match.group(0), 0.0) + read_number()
+    if closers or not stack[0]:
+        return None
+    return stack[0]
+
+
+def split_hydrate_parts(formula: str) -> list[str]:
+    """"CuSO4.5H2O" -> ["CuSO4", "5H2O"]; a "." inside a leading coefficient is a decimal point."""
+    parts = []
+    current = ""
+    for c in formula:
+        if c == "." and not current.isdigit():
+            parts.append(current)
+            current = ""
+        else:
+            current += c
+    parts.append(current)
+    return parts
+
+
+def parse_formula(value) -> dict[str, float] | None:
+    """
+    Element counts of a chemical formula, following parseFormula in lib/formula.ts:
+    bracket groups, hydrates ("CuSO4·5H2O", "X . 3 H2O") and a trailing charge
+    ("[Fe(CN)6]3-", "SO4^2-", "NH4+") which is ignored here.
+    """
+    if not value:
+        return None
+    formula = str(value).strip().translate(SUBSCRIPT_DIGITS)
+    formula = re.sub(r"[⁰¹²³⁴⁵⁶⁷⁸⁹]*[⁺⁻]$", "", formula)
+    formula = re.sub(r"[·•∙*]", ".", formula)
+    formula = re.sub(r"(?:\^|\s|(?<=[)\]}]))\d*[+-]$", "", formula)
+    formula = re.sub(r"\^?[+-]+$", "", formula)
+    formula = re.sub(r"\s+", "", formula)
+    if not formula:
+        return None
+
+    counts: dict[str, float] = {}
+    for part in split_hydrate_parts(formula):
+        lead = re.match(r"\d+(?:\.\d+)?", part)
+        multiplier = float(lead.group(0)) if lead else 1.0
+        group = parse_formula_group(part[len(lead.group(0)):] if lead else part)
+        if group is None:
+            return None
+        for element, n in group.items():
+            counts[element] = counts.get(element, 0.0) + n * multiplier
+    return counts
+
+
+def build_element_table(conn: sqlite3.Connection) -> None:
+    """
+    Atoms per element parsed from each compound's chemical formula, for composition
+    searches such as "contains Zn" or "C between 30 and 40" (lib/compound-filter.ts).
+    """
+    conn.execute(
+        """
+        CREATE TABLE compound_elements (
+            compound_id TEXT NOT NULL,
+            element TEXT NOT NULL,
+            count REAL NOT NULL,
+            PRIMARY KEY (compound_id, element)
+        )
+        """
+    )
+    unparsed = 0
+    for compound_id, formula in conn.execute("SELECT id, chemical_formula FROM compounds").fetchall():
+        counts = parse_formula(formula)
+        if counts is None:
+            unparsed += bool(formula and str(formula).strip())
+            continue
+        conn.executemany(
+            "INSERT INTO compound_elements VALUES (?, ?, ?)",
+            [(compound_id, element, count) for element, count in counts.items()],
+        )
+    conn.execute("CREATE INDEX idx_compound_elements_element ON compound_elements (element, count)")
+    if unparsed:
+        print(f"  {unparsed} chemical formulas could not be parsed")
+
+
+def resample_to_grid(points: list[tuple[float, float]]) -> tuple[int, list[float]] | None:
+    """
+    Linearly interpolate a spectrum onto the similarity grid and scale it to a
+    maximum of 1. Returns (index of first covered grid point, values) or None
+    when the spectrum does not cover at least two grid points.
+    """
+    points = sorted(points)
+    xs = [p[0] for p in points]
+    ys = [p[1] for p in points]
+    if len(xs) < 2:
+        return None
+    first = max(0, int((xs[0] - SIMILARITY_GRID_START) // SIMILARITY_GRID_STEP))
+    values = []
+    first_index = None
+    for i in range(first, SIMILARITY_GRID_COUNT):
+        w = SIMILARITY_GRID_START + i * SIMILARITY_GRID_STEP
+        if w < xs[0]:
+            continue
+        if w > xs[-1]:
+            break
+        j = bisect.bisect_left(xs, w)
+        if xs[j] == w:
+            y = ys[j]
+        else:
+            x0, x1, y0, y1 = xs[j - 1], xs[j], ys[j - 1], ys[j]
+            y = y0 + (y1 - y0) * (w - x0) / (x1 - x0)
+        if first_index is None:
+            first_index = i
+        values.append(y)
+    if first_index is None or len(values) < 2:
+        return None
+    peak = max(abs(v) for v in values)
+    if peak > 0:
+        values = [v / peak for v in values]
+    return first_index, values
+
+
+def build_similarity_index(conn: sqlite3.Connection) -> None:
+    """
+    Every spectrum resampled onto one wavelength grid as a packed little-endian
+    Float32 blob, so lib/similarity.ts can rank thousands of compounds against a
+    query spectrum without loading the per-wavelength rows.
+    """
+    conn.execute(
+        """
+        CREATE TABLE spectra_index (
+            compound_id TEXT NOT NULL,
+            spectrum_type TEXT NOT NULL,
+            grid_start REAL NOT NULL,
+            grid_step REAL NOT NULL,
+            first_index INTEGER NOT NULL,
+            point_count INTEGER NOT NULL,
+            intensities BLOB NOT NULL,
+            PRIMARY KEY (compound_id, spectrum_type)
+        )
+        """
+    )
+    sources = [
+        ("absorption", "SELECT compound_id, wavelength, coefficient FROM compounds_absorptions ORDER BY compound_id"),
+        ("emission", "SELECT compound_id, wavelength, normalized FROM compounds_emissions ORDER BY compound_id"),
+    ]
+    for spectrum_type, sql in sources:
+        by_compound: dict[str, list[tuple[float, float]]] = {}
+        for compound_id, wavelength, value in conn.execute(sql):
+            if wavelength is None or value is None:
+                continue
+            by_compound.setdefault(compound_id, []).append((wavelength, value))
+        rows = []
+        for compound_id, points in by_compound.items():
+            resampled = resample_to_grid(points)
+            if resampled is None:
+                continue
+            first_index, values = resampled
+            rows.append((
+                compound_id, spectrum_type, SIMILARITY_GRID_START, SIMILARITY_GRID_STEP,
+                first_index, len(values), struct.pack(f"<{len(values)}f", *values),
+            ))
+        conn.executemany("INSERT INTO spectra_index VALUES (?, ?, ?, ?, ?, ?, ?)", rows)
+
+
+def pack_spectrum(points: list[tuple[float, float]]) -> tuple[int, float | None, float | None, bytes | None, bytes]:
+    """
+    (point_count, wavelength_start, wavelength_step, wavelengths, intensities) for
+    a spectrum sorted by wavelength. Evenly spaced wavelengths (most spectra) are
+    stored as start/step only, others as a little-endian Float64 blob; intensities
+    are little-endian Float32 (lib/packed-spectrum.ts decodes both).
+    """
+    n = len(points)
+    wavelengths = [w for w, _ in points]
+    start = wavelengths[0]
+    step = (wavelengths[-1] - start) / (n - 1) if n > 1 else 0.0
+    regular = n > 1 and step > 0 and all(
+        abs(w - (start + i * step)) <= PACKED_STEP_TOLERANCE for i, w in enumerate(wavelengths)
+    )
+    intensities = struct.pack(f"<{n}f", *(v for _, v in points))
+    if regular or n == 1:
+        return n, start, step, None, intensities
+    return n, None, None, struct.pack(f"<{n}d", *wavelengths), intensities
+
+
+def build_packed_spectra(conn: sqlite3.Connection) -> None:
+    """
+    One row per absorption / emission spectrum with its points packed into blobs,
+    which is what the app loads (getSpectrum in lib/repository.ts). The
+    per-wavelength tables are only needed while building and are dropped afterwards.
+    """
+    conn.execute(
+        """
+        CREATE TABLE spectra_packed (
+            compound_id TEXT NOT NULL,
+            spectrum_type TEXT NOT NULL,
+            point_count INTEGER NOT NULL,
+            wavelength_start REAL,
+            wavelength_step REAL,
+            wavelengths BLOB,
+            intensities BLOB NOT NULL,
+            PRIMARY KEY (compound_id, spectrum_type)
+        ) WITHOUT ROWID
+        """
+    )
+    sources = [
+        ("absorption", "SELECT compound_id, wavelength, coefficient FROM compounds_absorptions ORDER BY compound_id, wavelength, rowid"),
+        ("emission", "SELECT compound_id, wavelength, normalized FROM compounds_emissions ORDER BY compound_id, wavelength, rowid"),
+    ]
+    irregular = 0
+    for spectrum_type, sql in sources:
+        by_compound: dict[str, list[tuple[float, float]]] = {}
+        for compound_id, wavelength, value in conn.execute(sql):
+            if wavelength is None or value is None:
+                continue
+            by_compound.setdefault(compound_id, []).append((wavelength, value))
+        rows = []
+        for compound_id, points in by_compound.items():
+            packed = pack_spectrum(points)
+            if packed[3] is not None:
+                irregular += 1
+            rows.append((compound_id, spectrum_type, *packed))
+        conn.executemany("INSERT INTO spectra_packed VALUES (?, ?, ?, ?, ?, ?, ?)", rows)
+    total = conn.execute("SELECT COUNT(*) FROM spectra_packed").fetchone()[0]
+    print(f"  packed spectra: {total} ({irregular} with irregular wavelength steps)")
+
+
+def load_refractive_indices() -> dict[str, float]:
+    """
+    Refractive index by lowercase solvent id, name and alias, read from the
+    reference table in lib/solvents.ts so the app and the build agree.
+    """
+    with open(SOLVENTS_FILE, encoding="utf-8") as f:
+        source = f.read()
+    indices = {}
+    for match in SOLVENT_ENTRY_RE.finditer(source):
+        solvent_id, name, aliases, n = match.groups()
+        for key in [solvent_id, name.lower(), *re.findall(r"'([^']*)'", aliases)]:
+            indices[key] = float(n)
+    return indices
+
+
+def match_refractive_index(text, indices: dict[str, float]) -> float | None:
+    """Refractive index of a free-text solvent name (port of normalizeSolventName in lib/solvents.ts)."""
+    cleaned = re.sub(r"\s+", " ", re.sub(r"[‐-―−]", "-", str(text or "").lower())).strip()
+    if not cleaned:
+        return None
+    if cleaned in indices:
+        return indices[cleaned]
+    without_amounts = re.sub(r"^\d+(?:\.\d+)?\s*(?=[a-z])", "", re.sub(r"\(?\d+(?:\.\d+)?\s*%\)?", " ", cleaned)).strip()
+    if without_amounts in indices:
+        return indices[without_amounts]
+    parts = [p.strip() for p in re.split(r"[/,;:+()\[\]]|\s+(?:and|with|in)\s+", without_amounts) if p.strip()]
+    for part in parts:
+        n = indices.get(part) or indices.get(re.sub(r"^\d+(?:\.\d+)?\s*", "", part))
+        if n:
+            return n
+        for word in part.split(" "):
+            if word in indices:
+                return indices[word]
+    return None
+
+
+def interpolate(points: list[tuple[float, float]], wavelength: float) -> float | None:
+    """Linear interpolation on a sorted spectrum; None outside the measured range."""
+    xs = [w for w, _ in points]
+    if not points or wavelength < xs[0] or wavelength > xs[-1]:
+        return None
+    j = bisect.bisect_left(xs, wavelength)
+    if xs[j] == wavelength:
+        return points[j][1]
+    (x0, y0), (x1, y1) = points[j - 1], points[j]
+    return y0 + (y1 - y0) * (wavelength - x0) / (x1 - x0)
+
+
+def band_maxima(points: list[tuple[float, float]]) -> list[int]:
+    """
+    Indices of the band maxima of a sorted spectrum: points that are the highest
+    within DESCRIPTOR_PEAK_WINDOW_NM on both sides and reach
+    DESCRIPTOR_BAND_MIN_FRACTION of the overall maximum. Plateaus count once.
+    """
+    peak_value = max(v for _, v in points)
+    if peak_value <= 0:
+        return []
+    maxima = []
+    lo = hi = 0
+    for i, (w, v) in enumerate(points):
+        while points[lo][0] < w - DESCRIPTOR_PEAK_WINDOW_NM:
+            lo += 1
+        while hi + 1 < len(points) and points[hi + 1][0] <= w + DESCRIPTOR_PEAK_WINDOW_NM:
+            hi += 1
+        if v < DESCRIPTOR_BAND_MIN_FRACTION * peak_value:
+            continue
+        if all(points[j][1] < v for j in range(lo, i)) and all(points[j][1] <= v for j in range(i + 1, hi + 1)):
+            maxima.append(i)
+    return maxima
+
+
+def half_maximum_width(points: list[tuple[float, float]], peak: int) -> float | None:
+    """Full width (nm) at half the height of the band at `peak`; None if a flank runs off the data."""
+    half = points[peak][1] / 2
+
+    def crossing(step: int) -> float | None:
+        i = peak
+        while 0 <= i + step < len(points):
+            (w0, v0), (w1, v1) = points[i], points[i + step]
+            if v1 <= half:
+                return w0 + (w1 - w0) * (v0 - half) / (v0 - v1)
+            i += step
+        return None
+
+    left, right = crossing(-1), crossing(1)
+    return right - left if left is not None and right is not None else None
+
+
+def lowest_energy_band(points: list[tuple[float, float]], maxima: list[int]) -> tuple[int, int]:
+    """
+    (start, end) indices of the lowest-energy absorption band, which begins at the
+    longest-wavelength maximum. To the red it runs until the absorption falls below
+    DESCRIPTOR_BAND_EDGE_FRACTION of that maximum. To the blue it takes in
+    vibronic and overlapping bands up to the lowest point before the absorption
+    rises to DESCRIPTOR_BAND_RISE_FACTOR times the highest maximum passed (the
+    next, stronger transition), or up to the start of the data.
+    """
+    peak = maxima[-1]
+    edge = DESCRIPTOR_BAND_EDGE_FRACTION * points[peak][1]
+    end = peak
+    while end + 1 < len(points) and points[end][1] > edge:
+        end += 1
+    is_maximum = set(maxima)
+    start = highest = peak
+    for i in range(peak - 1, -1, -1):
+        v = points[i][1]
+        if v > DESCRIPTOR_BAND_RISE_FACTOR * points[highest][1]:
+            break
+        if i in is_maximum and v > points[highest][1]:
+            highest = i
+        if v < points[start][1]:
+            start = i
+    while start < peak and points[start][1] < edge and points[start + 1][1] < edge:
+        start += 1
+    return start, end
+
+
+def strickler_berg_terms(
+    emission: list[tuple[float, float]], absorption: list[tuple[float, float]], eps_scale: float, low: float, high: float
+) -> tuple[float, float]:
+    """
+    (<ν⁻³>⁻¹, ∫ε d ln ν) as in calculateNaturalRadiativeLifetime (lib/natural-radiative-lifetime.ts):
+    the emission average over the whole spectrum, the absorption integral over
+    segments ending inside [low, high] nm.
+    """
+    fluo_area = fluo_v3 = 0.0
+    for (w1, y1), (w2, y2) in zip(emission, emission[1:]):
+        v1, v2 = 1e7 / w1, 1e7 / w2
+        fluo_area += 1e7 * abs(w2 - w1) * (y1 + y2) / 2
+        fluo_v3 += 1e7 * abs(w2 - w1) * (y1 / v1 ** 3 + y2 / v2 ** 3) / 2
+    eps_dlnv = 0.0
+    for (w1, a1), (w2, a2) in zip(absorption, absorption[1:]):
+        if w2 < low or w2 > high:
+            continue
+        v1, v2 = 1e7 / w1, 1e7 / w2
+        eps_dlnv += (eps_scale * a1 / v1 + eps_scale * a2 / v2) * abs(v1 - v2) / 2
+    mean_v3_recip = fluo_area / fluo_v3 if fluo_area > 0 and fluo_v3 > 0 else 0.0
+    return mean_v3_recip, eps_dlnv
+
+
+def compute_descriptors(
+    absorption: list[tuple[float, float]] | None,
+    emission: list[tuple[float, float]] | None,
+    properties: tuple,
+    refractive_index: float | None,
+) -> tuple:
+    """One compound_descriptors row (without the ID) from its sorted spectra and parsed metadata."""
+    anchor_wavelength, anchor_epsilon, quantum_yield = properties
+    abs_max = abs_epsilon = abs_fwhm = band_max = integrated = None
+    em_max = em_fwhm = stokes = brightness = radiative_rate = None
+    eps_scale = None
+    band = None
+
+    if absorption and len(absorption) >= 2:
+        maxima = band_maxima(absorption)
+        if maxima:
+            top = max(maxima, key=lambda i: absorption[i][1])
+            abs_max = absorption[top][0]
+            abs_fwhm = half_maximum_width(absorption, top)
+            band = lowest_energy_band(absorption, maxima)
+            band_max = absorption[maxima[-1]][0]
+            # Spectra are stored in arbitrary units; ε(λ) comes from the stored (λ, ε) anchor
+            anchor = interpolate(absorption, anchor_wavelength) if anchor_wavelength else None
+            if anchor_epsilon and anchor_epsilon > 0 and anchor and anchor > 0:
+                eps_scale = anchor_epsilon / anchor
+                abs_epsilon = eps_scale * absorption[top][1]
+                start, end = band
+                integrated = sum(
+                    eps_scale * (a1 + a2) / 2 * abs(1e7 / w1 - 1e7 / w2)
+                    for (w1, a1), (w2, a2) in zip(absorption[start:end], absorption[start + 1:end + 1])
+                )
+
+    if emission and len(emission) >= 2:
+        maxima = band_maxima(emission)
+        if maxima:
+            top = max(maxima, key=lambda i: emission[i][1])
+            em_max = emission[top][0]
+            em_fwhm = half_maximum_width(emission, top)
+
+    if band_max and em_max:
+        stokes = 1e7 / band_max - 1e7 / em_max
+    if abs_epsilon is not None and quantum_yield is not None and 0 <= quantum_yield <= 1:
+        brightness = abs_epsilon * quantum_yield
+    if eps_scale is not None and band is not None and em_max and refractive_index:
+        low, high = absorption[band[0]][0], absorption[band[1]][0]
+        mean_v3_recip, eps_dlnv = strickler_berg_terms(emission, absorption, eps_scale, low, high)
+        kf = 2.880e-9 * refractive_index ** 2 * mean_v3_recip * eps_dlnv
+        radiative_rate = kf if kf > 0 else None
+
+    return (
+        abs_max, abs_epsilon, abs_fwhm, band_max, integrated,
+        em_max, em_fwhm, stokes, brightness, radiative_rate,
+        refractive_index if radiative_rate is not None else None,
+    )
+
+
+def build_descriptor_table(conn: sqlite3.Connection) -> None:
+    """
+    Photophysical descriptors computed from each compound's spectra, so the app can
+    sort and filter on them (compound_descriptors, see lib/descriptors.ts) without
+    loading any spectrum.
+    """
+    conn.execute(
+        """
+        CREATE TABLE compound_descriptors (
+            compound_id TEXT PRIMARY KEY,
+            absorption_max REAL,
+            absorption_max_epsilon REAL,
+            absorption_fwhm REAL,
+            absorption_band_max REAL,
+            integrated_absorption REAL,
+            emission_max REAL,
+            emission_fwhm REAL,
+            stokes_shift REAL,
+            brightness REAL,
+            radiative_rate REAL,
+            refractive_index REAL
+        )
+        """
+    )
+    spectra: dict[str, dict[str, list[tuple[float, float]]]] = {}
+    sources = [
+        ("absorption", "SELECT compound_id, wavelength, coefficient FROM compounds_absorptions ORDER BY compound_id, wavelength, rowid"),
+        ("emission", "SELECT compound_id, wavelength, normalized FROM compounds_emissions ORDER BY compound_id, wavelength, rowid"),
+    ]
+    for spectrum_type, sql in sources:
+        for compound_id, wavelength, value in conn.execute(sql):
+            if wavelength is None or value is None or not (math.isfinite(wavelength) and math.isfinite(value)):
+                continue
+            points = spectra.setdefault(compound_id, {}).setdefault(spectrum_type, [])
+            # Duplicate wavelengths (see the audit) keep their first value
+            if not points or points[-1][0] != wavelength:
+                points.append((wavelength, value))
+
+    indices = load_refractive_indices()
+    properties = {
+        row[0]: row[1:]
+        for row in conn.execute(
+            "SELECT compound_id, absorption_wavelength, absorption_epsilon, quantum_yield FROM compound_properties"
+        )
+    }
+    # Strickler–Berg uses n of the emission solvent, like the lifetime module
+    solvents = {
+        row[0]: match_refractive_index(row[1], indices) or match_refractive_index(row[2], indices)
+        for row in conn.execute("SELECT id, emission_solvent, absorption_solvent FROM compounds")
+    }
+
+    rows = []
+    for compound_id, by_type in spectra.items():
+        rows.append((compound_id, *compute_descriptors(
+            by_type.get("absorption"),
+            by_type.get("emission"),
+            properties.get(compound_id, (None, None, None)),
+            solvents.get(compound_id),
+        )))
+    conn.executemany(f"INSERT INTO compound_descriptors VALUES ({', '.join('?' * 12)})", rows)
+    for column in ["absorption_max", "emission_max", "stokes_shift", "brightness", "radiative_rate"]:
+        conn.execute(f"CREATE INDEX idx_compound_descriptors_{column} ON compound_descriptors ({column})")
+
+    counts = conn.execute(
+        "SELECT COUNT(*), COUNT(stokes_shift), COUNT(brightness), COUNT(radiative_rate) FROM compound_descriptors"
+    ).fetchone()
+    print(f"  descriptors: {counts[0]} compounds ({counts[1]} Stokes shifts, {counts[2]} brightness, {counts[3]} radiative rates)")
+
+
+def build_search_index(conn: sqlite3.Connection) -> None:
+    """
+    Create the FTS5 index used by searchCompounds() in lib/repository.ts, plus a
+    vocabulary view over it that the app uses to correct misspelled query words.
+    """
+    conn.execute(
+        """
+        CREATE VIRTUAL TABLE compounds_fts USING fts5(
+            compound_id, name, synonym, cas, chemical_formula, class_name, category_name,
+            tokenize = 'unicode61 remove_diacritics 2',
+            prefix = '2 3 4'
+        )
+        """
+    )
+    conn.execute("CREATE VIRTUAL TABLE compounds_fts_vocab USING fts5vocab(compounds_fts, 'row')")
+    conn.execute(
+        """
+        INSERT INTO compounds_fts (compound_id, name, synonym, cas, chemical_formula, class_name, category_name)
+        SELECT id, name, COALESCE(synonym, ''), COALESCE(cas, ''), COALESCE(chemical_formula, ''),
+               COALESCE(class_name, ''), COALESCE(category_name, '')
+        FROM compounds
+        """
+    )
+    conn.execute("INSERT INTO compounds_fts (compounds_fts) VALUES ('optimize')")
+    build_search_postings(conn)
+
+
+def build_search_postings(conn: sqlite3.Connection) -> None:
+    """
+    Copy the FTS index into plain tables for SQLite builds without FTS5 (the web
+    app's WASM SQLite): per-term hit counts by compound and column, and each
+    compound's token count, which is what bm25() ranks by (see rankSearchPostings
+    in lib/search.ts).
+    """
+    columns = ["compound_id", "name", "synonym", "cas", "chemical_formula", "class_name", "category_name"]
+    conn.execute(
+        """
+        CREATE TABLE compounds_search_terms (
+            term TEXT NOT NULL,
+            compound_id TEXT NOT NULL,
+            column_index INTEGER NOT NULL,
+            hits INTEGER NOT NULL,
+            PRIMARY KEY (term, compound_id, column_index)
+        ) WITHOUT ROWID
+        """
+    )
+    conn.execute("CREATE TABLE compounds_search_docs (compound_id TEXT PRIMARY KEY, size INTEGER NOT NULL)")
+    conn.execute("CREATE VIRTUAL TABLE temp.fts_instances USING fts5vocab(main, compounds_fts, 'instance')")
+    rows = conn.execute(
+        """
+        SELECT i.term, f.compound_id, i.col, COUNT(*)
+        FROM temp.fts_instances i
+        JOIN compounds_fts f ON f.rowid = i.doc
+        GROUP BY i.term, i.doc, i.col
+        """
+    ).fetchall()
+    conn.executemany(
+        "INSERT INTO compounds_search_terms VALUES (?, ?, ?, ?)",
+        [(term, compound_id, columns.index(col), hits) for term, compound_id, col, hits in rows],
+    )
+    conn.execute(
+        """
+        INSERT INTO compounds_search_docs (compound_id, size)
+        SELECT compound_id, SUM(hits) FROM compounds_search_terms GROUP BY compound_id
+        """
+    )
+    conn.execute("DROP TABLE temp.fts_instances")
+
+
+def find_spectra_sets() -> list[dict]:
+    """Walk assets/database and return one entry per compound folder that has spectra."""
+    sets = []
+    for folder in sorted(os.listdir(SPECTRA_DIR)):
+        db_path = os.path.join(SPECTRA_DIR, folder)
+        if folder in NON_COMPOUND_FOLDERS or not os.path.isdir(db_path):
+            continue
+        for compound_id in sorted(os.listdir(db_path)):
+            compound_path = os.path.join(db_path, compound_id)
+            if not os.path.isdir(compound_path):
+                continue
+            absorption = os.path.join(compound_path, f"{compound_id}.absorption.txt")
+            emission = os.path.join(compound_path, f"{compound_id}.emission.txt")
+            has_abs = os.path.isfile(absorption)
+            has_em = os.path.isfile(emission)
+            if not has_abs and not has_em:
+                continue
+            sets.append({
+                "folder": folder,
+                "id": compound_id,
+                "absorption": absorption if has_abs else None,
+                "emission": emission if has_em else None,
+            })
+    return sets
+
+
+def parse_light_source_filename(filename: str) -> dict | None:
+    """Metadata encoded in a solar spectrum filename, e.g. golden-1200-july-28-2003-mostly-sunny-nrel-srrl.els.txt."""
+    match = SOLAR_FILENAME_RE.match(filename[: -len(SOLAR_SPECTRUM_SUFFIX)])
+    if not match:
+        return None
+    month = MONTHS.get(match["month"][:3])
+    if month is None:
+        return None
+    site = match["site"].replace("-", " ").title()
+    time = f"{match['time'][:2]}:{match['time'][2:]}"
+    date = f"{match['year']}-{month:02d}-{int(match['day']):02d}"
+    sky = match["sky"].replace("-", " ").capitalize() if match["sky"] else None
+    return {
+        "id": filename[: -len(SOLAR_SPECTRUM_SUFFIX)],
+        "name": f"{site}, {date} {time}" + (f" ({sky.lower()})" if sky else ""),
+        "site": site,
+        "time": time,
+        "date": date,
+        "sky_condition": sky,
+        "source": SOLAR_SOURCES[match["source"]],
+    }
+
+
+def read_light_source_description(path: str) -> str | None:
+    """First header line of a spectrum file (e.g. "SRRL LI-1800 Direct Normal Spectra"), if it has one."""
+    with open(path, encoding="utf-8", errors="replace") as f:
+        first = f.readline().strip()
+    return first if first and not NUMBER_RE.match(first) else None
+
+
+def build_light_sources(conn: sqlite3.Connection) -> None:
+    """
+    Import the measured solar irradiance spectra as light sources (lib/repository.ts
+    getLightSources). Metadata comes from the filename; irradiance is in W/m²/nm.
+    """
+    conn.execute("DROP TABLE IF EXISTS light_source_points")
+    conn.execute("DROP TABLE IF EXISTS light_sources")
+    conn.execute(
+        """
+        CREATE TABLE light_sources (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            category TEXT NOT NULL,
+            site TEXT,
+            time TEXT,
+            date TEXT,
+            sky_condition TEXT,
+            source TEXT,
+            description TEXT,
+            wavelength_min REAL,
+            wavelength_max REAL
+        )
+        """
+    )
+    conn.execute(
+        """
+        CREATE TABLE light_source_points (
+            light_source_id TEXT NOT NULL,
+            wavelength REAL NOT NULL,
+            irradiance REAL NOT NULL
+        )
+        """
+    )
+    conn.execute("CREATE INDEX idx_light_source_points ON light_source_points (light_source_id, wavelength)")
+    if not os.path.isdir(SOLAR_SPECTRA_DIR):
+        return
+
+    skipped = []
+    count = 0
+    for filename in sorted(os.listdir(SOLAR_SPECTRA_DIR)):
+        if not filename.endswith(SOLAR_SPECTRUM_SUFFIX):
+            continue
+        meta = parse_light_source_filename(filename)
+        path = os.path.join(SOLAR_SPECTRA_DIR, filename)
+        points = read_spectrum_file(path)
+        if meta is None or len(points) < 2:
+            skipped.append(filename)
+            continue
+        points.sort()
+        conn.execute(
+            """
+            INSERT INTO light_sources (id, name, category, site, time, date, sky_condition, source,
+                                       description, wavelength_min, wavelength_max)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            """,
+            (meta["id"], meta["name"], SOLAR_CATEGORY, meta["site"], meta["time"], meta["date"],
+             meta["sky_condition"], meta["source"], read_light_source_description(path),
+             points[0][0], points[-1][0]),
+        )
+        conn.executemany(
+            "INSERT INTO light_source_points (light_source_id, wavelength, irradiance) VALUES (?, ?, ?)",
+            [(meta["id"], w, v) for w, v in points],
+        )
+        count += 1
+    print(f"  light sources: {count} solar spectra")
+    for filename in skipped:
+        print(f"    skipped {filename} (unrecognised name or no data)")
+
+
+def plural(n: int, word: str, plural_word: str | None = None) -> str:
+    return f"{n} {word if n == 1 else plural_word or word + 's'}"
+
+
+def audit_spectrum(points: list[tuple], stored_peak: float | None = None) -> list[tuple[str, str, str]]:
+    """
+    Check one spectrum, given in stored order. Returns (issue, severity, detail)
+    tuples; issue codes are labelled in lib/spectrum-audit.ts.
+    """
+    issues = []
+    valid = [
+        (w, v) for w, v in points
+        if w is not None and v is not None and math.isfinite(w) and math.isfinite(v)
+    ]
+    if len(valid) < len(points):
+        issues.append(("invalid-values", "warning", f"{plural(len(points) - len(valid), 'missing or NaN value')}"))
+    if len(valid) < 2:
+        issues.append(("too-few-points", "warning", f"{plural(len(valid), 'usable data point')}"))
+        return issues
+
+    decreasing = [b for a, b in zip(valid, valid[1:]) if b[0] < a[0]]
+    if decreasing:
+        issues.append((
+            "non-monotonic", "warning",
+            f"wavelength decreases {plural(len(decreasing), 'time')} (first at {decreasing[0][0]:g} nm)",
+        ))
+
+    ordered = sorted(valid)
+    duplicates = [b[0] for a, b in zip(ordered, ordered[1:]) if b[0] == a[0]]
+    if duplicates:
+        issues.append((
+            "duplicate-wavelength", "warning",
+            f"{plural(len(duplicates), 'repeated wavelength')} (first {duplicates[0]:g} nm)",
+        ))
+
+    steps = [(a[0], b[0]) for a, b in zip(ordered, ordered[1:]) if b[0] > a[0]]
+    if steps:
+        median_step = statistics.median(b - a for a, b in steps)
+        threshold = max(AUDIT_GAP_FACTOR * median_step, AUDIT_GAP_MIN_NM)
+        gaps = [(a, b) for a, b in steps if b - a > threshold]
+        if gaps:
+            a, b = max(gaps, key=lambda g: g[1] - g[0])
+            issues.append((
+                "gap", "warning",
+                f"{plural(len(gaps), 'gap')} wider than {threshold:.3g} nm (largest {a:g}–{b:g} nm)",
+            ))
+
+    values = [v for _, v in ordered]
+    peak_value = max(values)
+    negatives = [v for v in values if v < 0]
+    if negatives:
+        lowest = min(negatives)
+        severity = "warning" if lowest < -AUDIT_NEGATIVE_WARNING * max(peak_value, abs(lowest)) else "info"
+        issues.append(("negative-values", severity, f"{plural(len(negatives), 'negative value')} (lowest {lowest:.3g})"))
+
+    if stored_peak is not None:
+        low, high = ordered[0][0], ordered[-1][0]
+        data_peak = max(ordered, key=lambda p: p[1])[0]
+        tol = AUDIT_PEAK_TOLERANCE_NM
+        if not low - tol <= stored_peak <= high + tol:
+            issues.append((
+                "peak-mismatch", "warning",
+                f"stored λmax {stored_peak:g} nm is outside the measured range {low:g}–{high:g} nm",
+            ))
+        else:
+            # The stored wavelength must sit on a band maximum, not necessarily the global one
+            window = [p for p in ordered if abs(p[0] - stored_peak) <= tol] or [
+                min(ordered, key=lambda p: abs(p[0] - stored_peak))
+            ]
+            band_w, band_v = max(window, key=lambda p: p[1])
+            neighbourhood = max(v for w, v in ordered if abs(w - band_w) <= tol)
+            if band_v < neighbourhood or band_v < AUDIT_PEAK_MIN_FRACTION * peak_value:
+                issues.append((
+                    "peak-mismatch", "warning",
+                    f"stored λmax {stored_peak:g} nm is not at a band maximum (data maximum at {data_peak:g} nm)",
+                ))
+    return issues
+
+
+def build_spectrum_audit(conn: sqlite3.Connection) -> None:
+    """
+    Audit every compound spectrum (in stored order) and light source into
+    spectrum_audit. spectrum_id is the compound ID for absorption/emission rows
+    and light_sources.id for light-source rows.
+    """
+    conn.execute(
+        """
+        CREATE TABLE spectrum_audit (
+            spectrum_id TEXT NOT NULL,
+            spectrum_type TEXT NOT NULL,
+            issue TEXT NOT NULL,
+            severity TEXT NOT NULL,
+            detail TEXT NOT NULL
+        )
+        """
+    )
+    peaks = {
+        row[0]: (parse_first_number(row[1]), parse_first_number(row[2]))
+        for row in conn.execute("SELECT id, absorption_wavelength, emission_wavelength FROM compounds")
+    }
+    sources = [
+        ("absorption", "SELECT compound_id, wavelength, coefficient FROM compounds_absorptions ORDER BY compound_id, rowid", 0),
+        ("emission", "SELECT compound_id, wavelength, normalized FROM compounds_emissions ORDER BY compound_id, rowid", 1),
+        ("light-source", "SELECT light_source_id, wavelength, irradiance FROM light_source_points ORDER BY light_source_id, rowid", None),
+    ]
+    summary: dict[tuple[str, str], int] = {}
+    for spectrum_type, query, peak_index in sources:
+        rows = []
+        current_id, points = None, []
+
+        def flush() -> None:
+            if current_id is None:
+                return
+            stored_peak = peaks.get(current_id, (None, None))[peak_index] if peak_index is not None else None
+            for issue, severity, detail in audit_spectrum(points, stored_peak):
+                rows.append((current_id, spectrum_type, issue, severity, detail))
+                summary[(spectrum_type, issue)] = summary.get((spectrum_type, issue), 0) + 1
+
+        for spectrum_id, wavelength, value in conn.execute(query):
+            if spectrum_id != current_id:
+                flush()
+                current_id, points = spectrum_id, []
+            points.append((wavelength, value))
+        flush()
+        conn.executemany("INSERT INTO spectrum_audit VALUES (?, ?, ?, ?, ?)", rows)
+    conn.execute("CREATE INDEX idx_spectrum_audit ON spectrum_audit (spectrum_id, spectrum_type)")
+
+    if summary:
+        print("  spectrum audit:")
+        for (spectrum_type, issue), count in sorted(summary.items()):
+            print(f"    {spectrum_type} {issue}: {count}")
+
+
+def previous_version() -> int:
+    """Version in the existing lib/database-version.generated.ts, or 0 if there is none."""
+    if not os.path.isfile(VERSION_FILE):
+        return 0
+    with open(VERSION_FILE, encoding="utf-8") as f:
+        match = VERSION_RE.search(f.read())
+    return int(match.group(1)) if match else 0
+
+
+def build_version() -> int:
+    """
+    Build time as YYYYMMDDHH (UTC), or one more than the previous version if that is
+    not lower (several builds in one hour), so every build gets a higher
+    PRAGMA user_version (32-bit) than the last.
+    """
+    return max(int(datetime.now(timezone.utc).strftime("%Y%m%d%H")), previous_version() + 1)
+
+
+def write_version_file(version: int) -> None:
+    with open(VERSION_FILE, "w", encoding="utf-8") as f:
+        f.write("// Generated by scripts/build_photochemcad_db.py – do not edit by hand\n\n")
+        f.write("/** PRAGMA user_version of assets/data/photochemcad_bundle.db */\n")
+        f.write(f"export const BUNDLED_DATABASE_VERSION = {version};\n")
+
+
+def main() -> None:
+    if not os.path.isfile(SOURCE_DB):
+        print(f"Source database not found: {SOURCE_DB}")
+        return
+    if not os.path.isdir(SPECTRA_DIR):
+        print(f"Spectra folder not found: {SPECTRA_DIR}")
+        return
+
+    spectra_sets = find_spectra_sets()
+    if not spectra_sets:
+        print(f"No spectra found under {SPECTRA_DIR}")
+        return
+    print(f"Found {len(spectra_sets)} compounds with spectra in {SPECTRA_DIR}")
+
+    # Remove existing output so we create a fresh DB (avoids "table already exists")
+    if os.path.isfile(OUTPUT_DB):
+        os.remove(OUTPUT_DB)
+
+    conn_src = sqlite3.connect(SOURCE_DB)
+    conn_dst = sqlite3.connect(OUTPUT_DB)
+
+    try:
+        for table in TABLES_TO_COPY:
+            copy_table_schema(conn_src, conn_dst, table)
+        conn_dst.execute(
+            "CREATE INDEX IF NOT EXISTS idx_compounds_absorptions_compound ON compounds_absorptions (compound_id, wavelength)"
+        )
+        conn_dst.execute(
+            "CREATE INDEX IF NOT EXISTS idx_compounds_emissions_compound ON compounds_emissions (compound_id, wavelength)"
+        )
+        conn_dst.execute("CREATE INDEX IF NOT EXISTS idx_compounds_database ON compounds (database_name, name)")
+
+        # Use absolute path for ATTACH (SQLite requires it)
+        conn_dst.execute("ATTACH DATABASE ? AS src", (os.path.abspath(SOURCE_DB),))
+
+        # Reference data: copy all
+        conn_dst.execute("INSERT OR IGNORE INTO spectra_databases SELECT * FROM src.spectra_databases")
+        conn_dst.execute("INSERT OR IGNORE INTO common_compound_categories SELECT * FROM src.common_compound_categories")
+        conn_dst.execute("INSERT OR IGNORE INTO solar_spectra SELECT * FROM src.solar_spectra")
+
+        # Asset folder -> database name as spelled in the source metadata
+        database_names = {
+            normalize_db_key(name): name
+            for (name,) in conn_dst.execute(
+                "SELECT DISTINCT database_name FROM src.compounds WHERE database_name IS NOT NULL"
+            )
+        }
+
+        missing_metadata = []
+        n_abs = n_em = 0
+        for entry in spectra_sets:
+            compound_id = entry["id"]
+            has_abs = "1" if entry["absorption"] else "0"
+            has_em = "1" if entry["emission"] else "0"
+
+            copied = conn_dst.execute(
+                "INSERT OR IGNORE INTO compounds SELECT * FROM src.compounds WHERE id = ?",
+                (compound_id,),
+            ).rowcount
+            if copied:
+                conn_dst.execute(
+                    "UPDATE compounds SET has_absorption_data = ?, has_emission_data = ? WHERE id = ?",
+                    (has_abs, has_em, compound_id),
+                )
+            else:
+                # Spectra without a metadata row: keep them browsable under their folder's database
+                missing_metadata.append(f"{entry['folder']}/{compound_id}")
+                database_name = database_names.get(entry["folder"], entry["folder"].replace("-", " ").title())
+                conn_dst.execute(
+                    """
+                    INSERT INTO compounds (id, name, slug, database_name, database_slug, category_name,
+                                           has_absorption_data, has_emission_data)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                    """,
+                    (compound_id, compound_id, compound_id.lower(), database_name, entry["folder"],
+                     database_name, has_abs, has_em),
+                )
+
+            if entry["absorption"]:
+                rows = [(compound_id, w, v) for w, v in read_spectrum_file(entry["absorption"])]
+                conn_dst.executemany(
+                    "INSERT INTO compounds_absorptions (compound_id, wavelength, coefficient) VALUES (?, ?, ?)",
+                    rows,
+                )
+                n_abs += len(rows)
+            if entry["emission"]:
+                rows = [(compound_id, w, v) for w, v in read_spectrum_file(entry["emission"])]
+                conn_dst.executemany(
+                    "INSERT INTO compounds_emissions (compound_id, wavelength, normalized) VALUES (?, ?, ?)",
+                    rows,
+                )
+                n_em += len(rows)
+
+        # Normalization status rows for the compounds we bundled
+        for table in ["compound_absorption_normalized_status", "compound_emission_normalized_status"]:
+            if get_schema(conn_dst, table):
+                conn_dst.execute(
+                    f"INSERT INTO {table} SELECT * FROM src.{table} WHERE compound_id IN (SELECT id FROM compounds)"
+                )
+
+        build_property_table(conn_dst)
+        build_element_table(conn_dst)
+        build_search_index(conn_dst)
+        build_similarity_index(conn_dst)
+        build_light_sources(conn_dst)
+        build_spectrum_audit(conn_dst)
+        build_packed_spectra(conn_dst)
+        build_descriptor_table(conn_dst)
+        conn_dst.execute("DROP TABLE compounds_absorptions")
+        conn_dst.execute("DROP TABLE compounds_emissions")
+
+        version = build_version()
+        conn_dst.execute(f"PRAGMA user_version = {version}")
+
+        conn_dst.commit()
+        conn_dst.execute("DETACH DATABASE src")
+        conn_dst.execute("VACUUM")
+        write_version_file(version)
+
+        print(f"Written: {OUTPUT_DB} (version {version})")
+        if missing_metadata:
+            print(f"  {len(missing_metadata)} compounds had no metadata in the source database:")
+            for key in missing_metadata:
+                print(f"    {key}")
+
+        # Summary
+        for database_name, count in conn_dst.execute(
+            "SELECT database_name, COUNT(*) FROM compounds GROUP BY database_name ORDER BY database_name"
+        ):
+            print(f"  {database_name}: {count}")
+        n_comp = conn_dst.execute("SELECT COUNT(*) FROM compounds").fetchone()[0]
+        print(f"  compounds: {n_comp}, absorptions: {n_abs}, emissions: {n_em}")
+    finally:
+        conn_src.close()
+        conn_dst.close()
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * Opens a built bundle database with the Node repository and runs the queries the
+ * app starts with: list compounds, search them, and load an absorption spectrum.
+ * Exits non-zero when any of them fails or comes back empty.
+ *
+ * Run: npm run check-database [path/to/photochemcad_bundle.db]
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { openNodeRepository } from '../lib/node-repository';
+
+const projectRoot = path.resolve(__dirname, '..');
+const bundlePath = path.resolve(process.argv[2] ?? path.join(projectRoot, 'assets', 'data', 'photochemcad_bundle.db'));
+
+function check(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function main() {
+  if (!fs.existsSync(bundlePath)) {
+    console.error(`${path.relative(projectRoot, bundlePath)} not found (run npm run build-database)`);
+    process.exit(1);
+  }
+
+  const repository = openNodeRepository(bundlePath);
+  try {
+    const compounds = await repository.listCompounds({ limit: 20 });
+    check(compounds.length > 0, 'listCompounds returned no compounds');
+    console.log(`listCompounds: ${compounds.length} (first: ${compounds[0].id} ${compounds[0].name})`);
+
+    const query = compounds[0].name;
+    const matches = await repository.searchCompounds(query, { limit: 20 });
+    check(matches.some(c => c.id === compounds[0].id), `searchCompounds("${query}") did not find ${compounds[0].id}`);
+    console.log(`searchCompounds("${query}"): ${matches.length}`);
+
+    const withAbsorption = compounds.find(c => c.has_absorption_data === '1');
+    check(withAbsorption, 'none of the listed compounds has absorption data');
+    const absorption = await repository.getAbsorptionData(withAbsorption.id);
+    check(absorption.length > 0, `getAbsorptionData("${withAbsorption.id}") returned no points`);
+    console.log(`getAbsorptionData("${withAbsorption.id}"): ${absorption.length} points`);
+  } finally {
+    repository.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
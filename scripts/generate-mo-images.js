@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Scans assets/database/mo/{set}/{name}.png for molecular orbital images and
+ * generates lib/mo-images.generated.ts with a require() list so the orbital
+ * gallery can show them. Names ending in a variant suffix (e.g. B-169AF,
+ * B-8T1F, B-97BF) are indexed under their base ID (B-169, B-8, B-97).
+ * TIFF copies are skipped (React Native cannot display them).
+ *
+ * Run: node scripts/generate-mo-images.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const projectRoot = path.resolve(__dirname, '..');
+const moBase = path.join(projectRoot, 'assets', 'database', 'mo');
+const outPath = path.join(projectRoot, 'lib', 'mo-images.generated.ts');
+
+// Longest first so "T1F" is not read as "F"
+const VARIANT_SUFFIXES = ['T1F', 'AF', 'BF'];
+
+if (!fs.existsSync(moBase)) {
+  console.error('assets/database/mo not found');
+  process.exit(1);
+}
+
+function splitVariant(name) {
+  for (const suffix of VARIANT_SUFFIXES) {
+    // Only after a digit: "B-169AF" is a variant, "ZnTAP" / "H2TBP" are not
+    const match = name.match(new RegExp(`^(.*\\d)${suffix}$`));
+    if (match) return { baseId: match[1], variant: suffix };
+  }
+  return { baseId: name, variant: null };
+}
+
+const quote = value => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const entries = [];
+const skipped = [];
+
+for (const set of fs.readdirSync(moBase).sort()) {
+  const setPath = path.join(moBase, set);
+  if (!fs.statSync(setPath).isDirectory()) continue;
+  const files = fs.readdirSync(setPath).sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+  for (const file of files) {
+    const ext = path.extname(file).toLowerCase();
+    const name = path.basename(file, path.extname(file));
+    if (ext === '.tif' || ext === '.tiff') {
+      if (!files.includes(`${name}.png`)) skipped.push(`${set}/${file}`);
+      continue;
+    }
+    if (ext !== '.png') continue;
+    const { baseId, variant } = splitVariant(name);
+    entries.push({
+      key: `${set}/${name}`,
+      set,
+      name,
+      baseId,
+      variant,
+      reqPath: `../assets/database/mo/${set}/${file}`,
+    });
+  }
+}
+
+const lines = [
+  '// Generated by scripts/generate-mo-images.js – do not edit by hand',
+  '',
+  'export interface MoImageEntry {',
+  '  key: string;             // "{set}/{name}", unique',
+  '  set: string;             // folder under assets/database/mo',
+  '  name: string;            // file name without extension',
+  '  baseId: string;          // name without the variant suffix',
+  '  variant: string | null;  // e.g. "AF", "T1F", "BF"',
+  '  source: number;',
+  '}',
+  '',
+  'export const moImages: MoImageEntry[] = [',
+  ...entries.map(
+    e =>
+      `  { key: ${quote(e.key)}, set: ${quote(e.set)}, name: ${quote(e.name)}, baseId: ${quote(e.baseId)}, ` +
+      `variant: ${e.variant ? quote(e.variant) : 'null'}, source: require(${quote(e.reqPath)}) },`
+  ),
+  '];',
+  '',
+];
+
+fs.writeFileSync(outPath, lines.join('\n'), 'utf8');
+console.log(`Wrote ${entries.length} entries to ${outPath}`);
+for (const file of skipped) {
+  console.warn(`  skipped ${file} (TIFF without a PNG copy)`);
+}